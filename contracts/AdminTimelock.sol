@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+
+/// @notice Owner of protocol contracts. Sensitive calls are queued and executed after delay, others are forwarded at once
+contract AdminTimelock is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    uint256 public constant MIN_DELAY = 1 hours;
+    uint256 public constant MAX_DELAY = 30 days;
+    /// @notice Time after eta when queued operation can still be executed
+    uint256 public constant GRACE_PERIOD = 14 days;
+
+    uint256 public delay;
+    mapping(bytes32 => uint256) public operationEta; // operation id => executable at, 0 - not queued
+    mapping(address => mapping(bytes4 => bool)) public timelocked; // target => selector => has to be queued
+
+    event OperationQueued(bytes32 indexed id, address indexed target, bytes data, bytes32 salt, uint256 eta);
+    event OperationExecuted(bytes32 indexed id, address indexed target, bytes data);
+    event OperationCancelled(bytes32 indexed id);
+    event DelaySet(uint256 delay);
+    event TimelockedSet(address indexed target, bytes4 indexed selector, bool timelocked);
+
+    modifier onlyTimelock() {
+        require(msg.sender == address(this), "Only through timelock");
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(uint256 _delay, address _owner) public initializer {
+        __UUPSUpgradeable_init();
+        __Ownable_init(_owner);
+        _setDelay(_delay);
+    }
+
+    /// @notice Upgrade of timelock itself is timelocked
+    function _authorizeUpgrade(address) internal override onlyTimelock {}
+
+    /// @notice Queue timelocked call, it can be executed after delay
+    /// @param _target Contract owned by timelock
+    /// @param _data Calldata
+    /// @param _salt Salt to queue the same call twice
+    /// @return id Operation id
+    function queue(address _target, bytes calldata _data, bytes32 _salt) external onlyOwner returns (bytes32 id) {
+        id = operationId(_target, _data, _salt);
+        require(operationEta[id] == 0, "Operation already queued");
+        uint256 eta = block.timestamp + delay;
+        operationEta[id] = eta;
+        emit OperationQueued(id, _target, _data, _salt, eta);
+    }
+
+    /// @notice Execute queued call after its eta
+    /// @param _target Contract owned by timelock
+    /// @param _data Calldata
+    /// @param _salt Salt of queued operation
+    /// @return Return data of the call
+    function execute(address _target, bytes calldata _data, bytes32 _salt) external onlyOwner returns (bytes memory) {
+        bytes32 id = operationId(_target, _data, _salt);
+        uint256 eta = operationEta[id];
+        require(eta != 0, "Operation not queued");
+        require(block.timestamp >= eta, "Operation not ready");
+        require(block.timestamp <= eta + GRACE_PERIOD, "Operation expired");
+        delete operationEta[id];
+        emit OperationExecuted(id, _target, _data);
+        return Address.functionCall(_target, _data);
+    }
+
+    /// @notice Cancel queued operation
+    /// @param _id Operation id
+    function cancel(bytes32 _id) external onlyOwner {
+        require(operationEta[_id] != 0, "Operation not queued");
+        delete operationEta[_id];
+        emit OperationCancelled(_id);
+    }
+
+    /// @notice Forward call which is not timelocked, e.g. ManagerRegistry.unpause
+    /// @param _target Contract owned by timelock
+    /// @param _data Calldata
+    /// @return Return data of the call
+    function call(address _target, bytes calldata _data) external onlyOwner returns (bytes memory) {
+        // Own functions (setDelay, setTimelocked removal, upgrade) only go through queue
+        require(
+            _target != address(this) && _data.length >= 4 && !timelocked[_target][bytes4(_data)],
+            "Call is timelocked"
+        );
+        return Address.functionCall(_target, _data);
+    }
+
+    /// @notice Set delay of queued operations (through timelock)
+    /// @param _delay Delay in seconds
+    function setDelay(uint256 _delay) external onlyTimelock {
+        _setDelay(_delay);
+    }
+
+    /// @notice Set functions which have to be queued. Adding is immediate, removing goes through timelock.
+    /// @param _target Contract owned by timelock
+    /// @param _selectors Function selectors
+    /// @param _timelocked Whether calls have to be queued
+    function setTimelocked(address _target, bytes4[] calldata _selectors, bool _timelocked) external {
+        if (_timelocked) {
+            _checkOwner();
+        } else {
+            require(msg.sender == address(this), "Only through timelock");
+        }
+        for (uint256 i = 0; i < _selectors.length; i++) {
+            timelocked[_target][_selectors[i]] = _timelocked;
+            emit TimelockedSet(_target, _selectors[i], _timelocked);
+        }
+    }
+
+    function _setDelay(uint256 _delay) internal {
+        require(_delay >= MIN_DELAY && _delay <= MAX_DELAY, "Invalid delay");
+        delay = _delay;
+        emit DelaySet(_delay);
+    }
+
+    /**
+     * GETTERS
+     */
+
+    /// @notice Id of operation
+    /// @param _target Contract owned by timelock
+    /// @param _data Calldata
+    /// @param _salt Salt
+    function operationId(address _target, bytes calldata _data, bytes32 _salt) public pure returns (bytes32) {
+        return keccak256(abi.encode(_target, _data, _salt));
+    }
+}
@@ -6,8 +6,10 @@ import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "./interfaces/IManagerRegistry.sol";
 import "./interfaces/IRewardSystem.sol";
+import "./interfaces/IPositionToken.sol";
 import "./lib/MerkleProof.sol";
 
 contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, MerkleProof {
@@ -24,6 +26,28 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
     event ProjectStatusChanged(uint256 indexed projectId, uint8 status);
     event ProjectUpdated(uint256 indexed projectId);
     event InvestorClaimAddressSet(address indexed investor, address indexed claimAddress);
+    event ProjectOpenStatusSet(uint256 indexed projectId, bool isOpen);
+    event RepaymentScheduleSet(uint256 indexed projectId, uint256 installments, uint256 totalAmount);
+    event ProjectDefaulted(uint256 indexed projectId, uint256 overdueAmount);
+    event RecoveryPayment(uint256 indexed projectId, uint256 amount);
+    event InterestTermsSet(uint256 indexed projectId, uint8 model, uint256 maturity);
+    event PositionTransferred(
+        uint256 indexed projectId, address indexed from, address indexed to, uint256 amount, uint256 claimed
+    );
+    event PositionTransferApproved(uint256 indexed projectId, address indexed from, address indexed to, uint256 amount);
+    event TransferApprovalRequiredSet(uint256 indexed projectId, bool required);
+    event ReceiptTokensSet(uint256 indexed projectId, bool enabled);
+    event TicketLimitsSet(uint256 indexed projectId, uint256 minTicket, uint256 maxPerInvestor);
+    event BatchItemFailed(bytes4 indexed selector, uint256 index, bytes reason);
+    event FeeSplitSet(
+        uint256 indexed projectId,
+        address originator,
+        uint256 originatorShare,
+        address insurance,
+        uint256 insuranceShare
+    );
+    event PlatformFeePaid(uint256 indexed projectId, address indexed recipient, uint8 leg, uint256 amount);
+    event ThirdPartyRepayment(uint256 indexed projectId, address indexed payer, uint256 amount);
 
     enum Stage {
         ComingSoon,
@@ -31,7 +55,20 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
         Canceled,
         PreFunded,
         Funded,
-        Repaid
+        Repaid,
+        Defaulted,
+        Recovered
+    }
+
+    enum InterestModel {
+        Flat, // investorInterestRate of totalInvested for the whole loan
+        Accrued // investorInterestRate is APR, accrued from fundedTime
+    }
+
+    enum FeeLeg {
+        Treasury,
+        Originator,
+        Insurance
     }
 
     struct Project {
@@ -59,6 +96,38 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
         uint256 totalClaimed;
     }
 
+    struct InterestTerms {
+        InterestModel model;
+        uint256 maturity; // accrual stops at maturity, 0 - no maturity
+        uint256 accruedUntil; // set when project is Repaid or Defaulted
+    }
+
+    struct TicketLimits {
+        uint256 minTicket; // minimal total investment of investor, 0 - no limit
+        uint256 maxPerInvestor; // maximal total investment of investor, 0 - no limit
+    }
+
+    struct FeeSplit {
+        address originator; // partner who sourced the deal
+        uint256 originatorShare; // share of platform fee, BASIS_POINTS = 100%
+        address insurance; // insurance / reserve pot
+        uint256 insuranceShare; // share of platform fee, treasury gets the rest
+    }
+
+    /// @notice EIP-2612 permit signature of loan token, value is the paid amount
+    struct PermitSignature {
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    struct Installment {
+        uint256 dueAt;
+        uint256 principal;
+        uint256 interest;
+    }
+
     /// @notice projects info map
     mapping(uint256 => Project) public projects;
 
@@ -73,17 +142,63 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
     address public treasury;
     address public managerRegistry;
 
+    /// @dev deprecated, replaced by investorNonces. Kept for storage layout
     uint256 public nonce;
 
     address public trustedSigner;
     // 1% = 10000
     uint256 public constant BASIS_POINTS = 1000000;
+    uint256 public constant YEAR = 365 days;
+
+    bytes32 public constant INVEST_AUTHORIZATION_TYPEHASH = keccak256(
+        "InvestAuthorization(address investor,uint256 projectId,uint256 amount,bytes32 rootHash,address inviter,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
 
     address public rewardSystem;
+
+    /// @notice projects open for everyone, whitelist proof is not checked
+    mapping(uint256 => bool) public openProjects; // pid => isOpen
+
+    /// @notice next nonce of invest authorization for investor
+    mapping(address => uint256) public investorNonces; // investor => nonce
+
+    /// @notice repayment schedule, installments are sorted by due date
+    mapping(uint256 => Installment[]) internal repaymentSchedules; // pid => installments
+
+    /// @notice time after due date of unpaid installment before manager can declare default
+    uint256 public defaultGracePeriod;
+
+    /// @notice interest model of project, Flat by default
+    mapping(uint256 => InterestTerms) public interestTerms; // pid => terms
+
+    /// @notice position transfers of project need manager approval
+    mapping(uint256 => bool) public transferApprovalRequired; // pid => required
+
+    /// @notice investedAmount manager allowed to transfer
+    mapping(uint256 => mapping(address => mapping(address => uint256))) public approvedTransfers; // pid => from => to => amount
+
+    /// @notice ERC-1155 receipt tokens of positions, token id is project id
+    address public positionToken;
+
+    /// @notice positions of project are minted as receipt tokens
+    mapping(uint256 => bool) public receiptTokens; // pid => enabled
+
+    /// @notice per investor limits of project investment
+    mapping(uint256 => TicketLimits) public ticketLimits; // pid => limits
+
+    /// @notice split of platform fee, whole fee goes to treasury by default
+    mapping(uint256 => FeeSplit) public feeSplits; // pid => split
     /**
      * END of VARS *
      */
 
+    modifier onlyRole(bytes32 _role) {
+        _checkRole(_role);
+        _;
+    }
+
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
@@ -104,6 +219,24 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
 
     function _authorizeUpgrade(address) internal override onlyOwner {}
 
+    function _checkRole(bytes32 _role) internal view {
+        require(IManagerRegistry(managerRegistry).hasRole(_role, msg.sender), "Missing role");
+    }
+
+    function _checkNotPaused(bytes32 _action) internal view {
+        require(!IManagerRegistry(managerRegistry).isPaused(_action), "Paused");
+    }
+
+    function _checkProject(uint256 _projectId) internal view {
+        require(_projectId < projectCount, "Project does not exist");
+    }
+
+    /// @notice Check that investments in loan token can be rewarded by RewardSystem
+    function _checkLoanToken(IERC20 _loanToken) internal view {
+        if (rewardSystem == address(0)) return;
+        require(IRewardSystem(rewardSystem).isLoanTokenAccepted(address(_loanToken)), "Loan token not accepted");
+    }
+
     /**
      * LOGIC FUNCTIONS
      */
@@ -112,77 +245,133 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
     /// @param _pid Project Id
     /// @param _amount Amount of usdt for invest
     /// @param _rootHash new merkle root
-    /// @param _nonce Nonce for correcting signature validity
-    /// @param _sig Signature of a trusted signer
+    /// @param _nonce Investor nonce, must be equal to investorNonces[msg.sender]
+    /// @param _deadline Timestamp after which signature is expired
+    /// @param _sig EIP-712 InvestAuthorization signature of a trusted signer
+    /// @param _inviter Inviter address
+    /// @param _proof Merkle proof of investor address against the new root
     function investUpdate(
         uint256 _pid,
         uint256 _amount,
         bytes32 _rootHash,
         uint256 _nonce,
+        uint256 _deadline,
+        bytes memory _sig,
+        address _inviter,
+        bytes32[] calldata _proof
+    ) external {
+        _investUpdate(_pid, _amount, _rootHash, _nonce, _deadline, _sig, _inviter, _proof);
+    }
+
+    /// @notice investUpdate without prior approve, loan token allowance is set by EIP-2612 permit of investor
+    /// @param _permit Permit of `_amount` to Fundraise signed by msg.sender
+    function investWithPermit(
+        uint256 _pid,
+        uint256 _amount,
+        bytes32 _rootHash,
+        uint256 _nonce,
+        uint256 _deadline,
         bytes memory _sig,
-        address _inviter
+        address _inviter,
+        bytes32[] calldata _proof,
+        PermitSignature calldata _permit
     ) external {
-        require(_nonce == nonce + 1, "Incorrect nonce");
+        _checkProject(_pid);
+        _usePermit(projects[_pid].innerStruct.loanToken, _amount, _permit);
+        _investUpdate(_pid, _amount, _rootHash, _nonce, _deadline, _sig, _inviter, _proof);
+    }
 
-        bytes32 ethSignedMessageHash = keccak256(
-            abi.encodePacked(
-                "\x19Ethereum Signed Message:\n32",
-                keccak256(abi.encodePacked(msg.sender, _pid, _amount, _rootHash, _nonce, _inviter))
+    function _investUpdate(
+        uint256 _pid,
+        uint256 _amount,
+        bytes32 _rootHash,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes memory _sig,
+        address _inviter,
+        bytes32[] calldata _proof
+    ) internal {
+        require(block.timestamp <= _deadline, "Signature expired");
+        require(_nonce == investorNonces[msg.sender], "Incorrect nonce");
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                INVEST_AUTHORIZATION_TYPEHASH, msg.sender, _pid, _amount, _rootHash, _inviter, _nonce, _deadline
             )
         );
-        (bytes32 r, bytes32 s, uint8 v) = splitSignature(_sig);
+        _checkTrustedSignature(structHash, _sig);
 
-        address signer = ecrecover(ethSignedMessageHash, v, r, s);
-
-        require(signer == trustedSigner, "Not a trusted signer");
+        investorNonces[msg.sender]++;
         whitelistRoots[_pid] = _rootHash;
+        _checkWhitelist(_pid, _proof);
         _invest(_pid, _amount, _inviter);
-        nonce++;
+    }
+
+    /// @notice Approve loan token to Fundraise with EIP-2612 permit of msg.sender.
+    /// Failed permit is ignored when allowance is already enough, e.g. permit was front-run
+    function _usePermit(IERC20 _token, uint256 _amount, PermitSignature calldata _permit) internal {
+        try IERC20Permit(address(_token)).permit(
+            msg.sender, address(this), _amount, _permit.deadline, _permit.v, _permit.r, _permit.s
+        ) {} catch {
+            require(_token.allowance(msg.sender, address(this)) >= _amount, "Permit failed");
+        }
+    }
+
+    /// @notice Check that EIP-712 typed data was signed by trusted signer
+    /// @param _structHash Hash of typed struct
+    /// @param _sig Signature of a trusted signer
+    function _checkTrustedSignature(bytes32 _structHash, bytes memory _sig) internal view {
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), _structHash));
+        (bytes32 r, bytes32 s, uint8 v) = splitSignature(_sig);
+
+        address signer = ecrecover(digest, v, r, s);
+
+        require(signer != address(0) && signer == trustedSigner, "Not a trusted signer");
+    }
+
+    /// @notice Check that msg.sender is in project whitelist, skipped for open projects
+    /// @param _pid Project Id
+    /// @param _proof Merkle proof of investor address
+    function _checkWhitelist(uint256 _pid, bytes32[] calldata _proof) internal view {
+        if (openProjects[_pid]) return;
+        bytes32 leaf = keccak256(abi.encodePacked(msg.sender));
+        require(verifyCalldata(_proof, whitelistRoots[_pid], leaf), "Not whitelisted");
     }
 
     function _invest(uint256 _pid, uint256 _amount, address _inviter) internal {
+        _checkNotPaused(PAUSE_INVEST);
         require(_inviter != msg.sender, "Inviter cannot be the same as the investor");
         Project storage project = projects[_pid];
         require(project.softCap > 0 || project.hardCap > 0, "Project not found");
         require(project.innerStruct.borrower != msg.sender, "Cannot invest in your own project");
 
-        if (project.innerStruct.stage == Stage.ComingSoon) {
-            if (block.timestamp >= project.startAt) {
-                project.innerStruct.stage = Stage.Open;
-                emit ProjectStatusChanged(_pid, uint8(Stage.Open));
-            } else {
-                return;
-            }
-        }
-        require(project.innerStruct.stage == Stage.Open, "Project is closed yet");
-        if (block.timestamp > project.openStageEndAt) {
-            if (project.totalInvested > project.softCap) {
-                project.innerStruct.stage = Stage.PreFunded;
-                project.openStageEndAt = block.timestamp;
-                emit ProjectStatusChanged(_pid, uint8(Stage.PreFunded));
-                return;
-            } else {
-                project.innerStruct.stage = Stage.Canceled;
-                emit ProjectStatusChanged(_pid, uint8(Stage.Canceled));
-                return;
-            }
-        }
+        // Due transition is kept, investment isn't made when project is not Open after it
+        Stage previous = project.innerStruct.stage;
+        Stage stage = _updateStage(_pid, false);
+        if (stage == Stage.ComingSoon || (stage != previous && stage != Stage.Open)) return;
+        require(stage == Stage.Open, "Project is closed yet");
 
         require(project.totalInvested + _amount <= project.hardCap, "Investment exceeds hardcap");
 
+        TicketLimits storage limits = ticketLimits[_pid];
+        uint256 investorTotal = investorInfo[msg.sender][_pid].investedAmount + _amount;
+        require(investorTotal >= limits.minTicket, "Investment below min ticket");
+        require(limits.maxPerInvestor == 0 || investorTotal <= limits.maxPerInvestor, "Investment exceeds investor limit");
+
         project.innerStruct.loanToken.safeTransferFrom(msg.sender, address(this), _amount);
 
         if (rewardSystem != address(0)) {
-            IRewardSystem(rewardSystem).recordInvestment(msg.sender, _amount, _inviter, _pid);
+            IRewardSystem(rewardSystem).recordInvestment(
+                msg.sender, _amount, _inviter, _pid, address(project.innerStruct.loanToken)
+            );
         }
 
         project.totalInvested += _amount;
         investorInfo[msg.sender][_pid].investedAmount += _amount;
-        if (project.totalInvested >= project.hardCap) {
-            project.openStageEndAt = block.timestamp;
-            project.innerStruct.stage = Stage.PreFunded;
-            emit ProjectStatusChanged(_pid, uint8(Stage.PreFunded));
+        if (receiptTokens[_pid]) {
+            IPositionToken(positionToken).mint(msg.sender, _pid, _amount);
         }
+        _updateStage(_pid, false);
         emit Invest(_pid, msg.sender, _amount);
     }
 
@@ -191,46 +380,114 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
     /// @param _investor User address, in case if manager will withdraw money for user
     function withdrawInvestment(uint256 _projectId, address _investor) external {
         if (msg.sender != _investor) {
-            if (!IManagerRegistry(managerRegistry).isManager(msg.sender)) revert("Not a manager");
+            _checkRole(ROLE_REPAYMENT_OPERATOR);
         }
-        Project storage project = projects[_projectId];
         require(_projectId < projectCount, "Project doesn't exist");
-        require(project.innerStruct.stage == Stage.Canceled, "Project not canceled");
-        uint256 amount = investorInfo[_investor][_projectId].investedAmount;
-        require(amount > 0, "No investment to withdraw");
+        require(_updateStage(_projectId, false) == Stage.Canceled, "Project not canceled");
+        require(_refund(_projectId, _investor) > 0, "No investment to withdraw");
+    }
+
+    /// @notice Refund batch of investors of cancelled project, anyone can call it.
+    /// Project is cancelled first when it's due, see _updateStage
+    /// @param _projectId Project Id
+    /// @param _investors Investors to refund, addresses without investment are skipped
+    /// @return refunded Total refunded amount
+    function refundInvestors(uint256 _projectId, address[] calldata _investors) external returns (uint256 refunded) {
+        require(_projectId < projectCount, "Project doesn't exist");
+        require(_updateStage(_projectId, false) == Stage.Canceled, "Project not canceled");
+
+        for (uint256 i = 0; i < _investors.length; i++) {
+            refunded += _refund(_projectId, _investors[i]);
+        }
+    }
+
+    /// @notice Return investment of cancelled project and void its rewards, returns 0 without investment
+    function _refund(uint256 _projectId, address _investor) internal returns (uint256 amount) {
+        Project storage project = projects[_projectId];
+        amount = investorInfo[_investor][_projectId].investedAmount;
+        if (amount == 0) return 0;
 
         investorInfo[_investor][_projectId].investedAmount = 0;
         project.totalInvested -= amount;
-        
+        if (receiptTokens[_projectId]) {
+            IPositionToken(positionToken).burn(_investor, _projectId, amount);
+        }
+        if (rewardSystem != address(0)) {
+            IRewardSystem(rewardSystem).voidReferrals(_investor, _projectId);
+        }
+
         // Use claim address if set, otherwise use original investor address
         address payoutAddress = IManagerRegistry(managerRegistry).getInvestorClaimAddress(_investor);
-        
+
         project.innerStruct.loanToken.safeTransfer(payoutAddress, amount);
         emit WithdrawInvestment(_projectId, _investor, amount);
     }
 
-    /// @notice Cancel project
+    /// @notice Cancel project. Anyone can cancel project which is due for cancellation, see _updateStage
     /// @param _projectId Project info
     function cancelProject(uint256 _projectId) external {
         Project storage project = projects[_projectId];
-        require(_projectId < projectCount, "Project does not exist");
+        _checkProject(_projectId);
         require(
             project.innerStruct.stage == Stage.Open || project.innerStruct.stage == Stage.PreFunded
                 || project.innerStruct.stage == Stage.ComingSoon,
             "Invalid stage for cancellation"
         );
-        if (
-            project.innerStruct.stage == Stage.PreFunded
-                && block.timestamp > project.openStageEndAt + project.preFundDuration
-        ) {
-            project.innerStruct.stage = Stage.Canceled;
-            emit ProjectStatusChanged(_projectId, uint8(Stage.Canceled));
-            return;
-        } else {
-            require(IManagerRegistry(managerRegistry).isManager(msg.sender), "Not a manager");
+        if (_updateStage(_projectId, false) == Stage.Canceled) return;
+        _checkRole(ROLE_PROJECT_ADMIN);
+        _cancel(_projectId);
+    }
+
+    /// @notice Move project to Canceled, rewards recorded for its investments are never minted
+    function _cancel(uint256 _projectId) internal {
+        _setStage(_projectId, Stage.Canceled);
+        if (rewardSystem != address(0)) {
+            IRewardSystem(rewardSystem).voidProjectRewards(_projectId);
         }
-        project.innerStruct.stage = Stage.Canceled;
-        emit ProjectStatusChanged(_projectId, uint8(Stage.Canceled));
+    }
+
+    /// @notice Stage machine of funding period, every entry point runs it before checking project stage.
+    /// Applies all due transitions in order:
+    /// ComingSoon -> Open when startAt passed;
+    /// Open -> PreFunded when hardCap is reached, or soft cap is reached and Open stage is closed
+    /// (openStageEndAt passed or `_closeFunding`);
+    /// Open -> Canceled when openStageEndAt passed without soft cap;
+    /// PreFunded -> Canceled when openStageEndAt + preFundDuration passed.
+    /// Soft cap is reached when totalInvested >= softCap
+    /// @param _projectId Project id
+    /// @param _closeFunding Close Open stage before openStageEndAt if soft cap is reached
+    /// @return stage Project stage after transitions
+    function _updateStage(uint256 _projectId, bool _closeFunding) internal returns (Stage stage) {
+        Project storage project = projects[_projectId];
+        stage = project.innerStruct.stage;
+        if (stage == Stage.ComingSoon && block.timestamp >= project.startAt) {
+            stage = _setStage(_projectId, Stage.Open);
+        }
+        if (stage == Stage.Open) {
+            bool ended = block.timestamp > project.openStageEndAt;
+            if (
+                project.totalInvested >= project.hardCap
+                    || (project.totalInvested >= project.softCap && (ended || _closeFunding))
+            ) {
+                // PreFunded stage starts when Open stage is closed early
+                if (!ended) project.openStageEndAt = block.timestamp;
+                stage = _setStage(_projectId, Stage.PreFunded);
+            } else if (ended) {
+                _cancel(_projectId);
+                return Stage.Canceled;
+            }
+        }
+        if (stage == Stage.PreFunded && block.timestamp > project.openStageEndAt + project.preFundDuration) {
+            _cancel(_projectId);
+            return Stage.Canceled;
+        }
+    }
+
+    /// @notice Store project stage and emit ProjectStatusChanged
+    function _setStage(uint256 _projectId, Stage _stage) internal returns (Stage) {
+        projects[_projectId].innerStruct.stage = _stage;
+        emit ProjectStatusChanged(_projectId, uint8(_stage));
+        return _stage;
     }
 
     /// @notice When project is funded, transfer money for a borrower
@@ -238,79 +495,120 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
     function transferFundsToBorrower(uint256 _projectId) external {
         Project storage project = projects[_projectId];
         if (msg.sender != project.innerStruct.borrower) {
-            if (!IManagerRegistry(managerRegistry).isManager(msg.sender)) revert("Not a manager");
+            _checkRole(ROLE_PROJECT_ADMIN);
         }
-        require(_projectId < projectCount, "Project does not exist");
-        if (project.innerStruct.stage == Stage.Open || project.innerStruct.stage == Stage.PreFunded) {
-            if (project.innerStruct.stage == Stage.Open) {
-                if (project.totalInvested < project.softCap) revert("Not funded enough");
-            }
-
-            uint256 platformFee = (project.totalInvested * project.innerStruct.platformInterestRate) / BASIS_POINTS;
-            project.innerStruct.loanToken.safeTransfer(
-                project.innerStruct.borrower, project.totalInvested - platformFee
-            );
-            project.innerStruct.stage = Stage.Funded;
-            project.innerStruct.fundedTime = block.timestamp;
+        _checkProject(_projectId);
+        require(_updateStage(_projectId, true) == Stage.PreFunded, "Not funded enough");
+        _setStage(_projectId, Stage.Funded);
 
-            if (platformFee > 0) project.innerStruct.loanToken.safeTransfer(treasury, platformFee);
+        uint256 platformFee = (project.totalInvested * project.innerStruct.platformInterestRate) / BASIS_POINTS;
+        project.innerStruct.loanToken.safeTransfer(project.innerStruct.borrower, project.totalInvested - platformFee);
+        project.innerStruct.fundedTime = block.timestamp;
 
-            if (rewardSystem != address(0)) {
-                IRewardSystem(rewardSystem).activateProjectRewards(_projectId, project.totalInvested);
-            }
+        if (platformFee > 0) _payPlatformFee(_projectId, platformFee);
 
-            emit ProjectFunded(_projectId, project.innerStruct.borrower, project.totalInvested, platformFee);
-            emit ProjectStatusChanged(_projectId, uint8(Stage.Funded));
+        if (rewardSystem != address(0)) {
+            IRewardSystem(rewardSystem).activateProjectRewards(_projectId, project.totalInvested);
         }
+
+        emit ProjectFunded(_projectId, project.innerStruct.borrower, project.totalInvested, platformFee);
+    }
+
+    /// @notice Split platform fee of project between originator, insurance and treasury
+    function _payPlatformFee(uint256 _projectId, uint256 _fee) internal {
+        FeeSplit memory split = feeSplits[_projectId];
+        uint256 originatorFee = (_fee * split.originatorShare) / BASIS_POINTS;
+        uint256 insuranceFee = (_fee * split.insuranceShare) / BASIS_POINTS;
+        _payFee(_projectId, FeeLeg.Originator, split.originator, originatorFee);
+        _payFee(_projectId, FeeLeg.Insurance, split.insurance, insuranceFee);
+        _payFee(_projectId, FeeLeg.Treasury, treasury, _fee - originatorFee - insuranceFee);
+    }
+
+    function _payFee(uint256 _projectId, FeeLeg _leg, address _recipient, uint256 _amount) internal {
+        if (_amount == 0) return;
+        projects[_projectId].innerStruct.loanToken.safeTransfer(_recipient, _amount);
+        emit PlatformFeePaid(_projectId, _recipient, uint8(_leg), _amount);
     }
 
-    /// @notice Borrower repays money for a user
+    /// @notice Repay project, anyone can pay on behalf of the borrower
     /// @param _projectId Project info
     /// @param _amount Amount of usdt for repayment
     function makeRepayment(uint256 _projectId, uint256 _amount) external {
+        _repay(_projectId, _amount);
+    }
+
+    /// @notice makeRepayment without prior approve, loan token allowance is set by EIP-2612 permit of payer.
+    /// Permit above outstanding amount leaves the rest as allowance.
+    /// @param _projectId Project info
+    /// @param _amount Amount of usdt for repayment, permit value
+    /// @param _permit Permit of `_amount` to Fundraise signed by msg.sender
+    function makeRepaymentWithPermit(uint256 _projectId, uint256 _amount, PermitSignature calldata _permit) external {
+        _checkProject(_projectId);
+        _usePermit(projects[_projectId].innerStruct.loanToken, _amount, _permit);
+        _repay(_projectId, _amount);
+    }
+
+    function _repay(uint256 _projectId, uint256 _amount) internal {
         Project storage project = projects[_projectId];
-        require(_projectId < projectCount, "Project does not exist");
+        _checkProject(_projectId);
         require(project.innerStruct.stage == Stage.Funded, "Project isn't Funded stage");
-        if (msg.sender != project.innerStruct.borrower) {
-            if (!IManagerRegistry(managerRegistry).isManager(msg.sender)) revert("Not a manager");
-        }
+
+        // Only outstanding amount is taken, accrued interest changes every second
+        uint256 totalDue = totalRepaymentAmount(_projectId);
+        uint256 outstanding = totalDue > project.innerStruct.totalRepaid ? totalDue - project.innerStruct.totalRepaid : 0;
+        if (_amount > outstanding) _amount = outstanding;
 
         project.innerStruct.loanToken.safeTransferFrom(msg.sender, address(this), _amount);
         project.innerStruct.totalRepaid += _amount;
+        if (msg.sender != project.innerStruct.borrower) {
+            emit ThirdPartyRepayment(_projectId, msg.sender, _amount);
+        }
 
-        if (
-            project.innerStruct.totalRepaid
-                >= project.totalInvested + ((project.totalInvested * project.investorInterestRate) / BASIS_POINTS)
-        ) {
-            project.innerStruct.stage = Stage.Repaid;
+        if (project.innerStruct.totalRepaid >= totalDue) {
+            interestTerms[_projectId].accruedUntil = block.timestamp;
             emit PrincipalRepayment(_projectId, _amount);
-            emit ProjectStatusChanged(_projectId, uint8(Stage.Repaid));
+            _setStage(_projectId, Stage.Repaid);
         } else {
             emit InterestRepayment(_projectId, _amount);
         }
     }
 
+    /// @notice Pay funds recovered from defaulted borrower, they are distributed to investors by claim
+    /// @param _projectId Project info
+    /// @param _amount Amount of loan token
+    function makeRecoveryPayment(uint256 _projectId, uint256 _amount) external {
+        Project storage project = projects[_projectId];
+        _checkProject(_projectId);
+        require(project.innerStruct.stage == Stage.Defaulted, "Project isn't Defaulted stage");
+        if (msg.sender != project.innerStruct.borrower) {
+            _checkRole(ROLE_REPAYMENT_OPERATOR);
+        }
+
+        project.innerStruct.loanToken.safeTransferFrom(msg.sender, address(this), _amount);
+        project.innerStruct.totalRepaid += _amount;
+        emit RecoveryPayment(_projectId, _amount);
+    }
+
     /// @notice User claims his investment
     /// @param _projectId Project info
     /// @param _investor User address, in case if manager will withdraw money for user
     function claim(uint256 _projectId, address _investor) external {
+        _checkNotPaused(PAUSE_CLAIM);
         if (msg.sender != _investor) {
-            if (!IManagerRegistry(managerRegistry).isManager(msg.sender)) revert("Not a manager");
+            _checkRole(ROLE_REPAYMENT_OPERATOR);
         }
 
         Project storage project = projects[_projectId];
-        require(_projectId < projectCount, "Project does not exist");
+        _checkProject(_projectId);
         require(
-            project.innerStruct.stage == Stage.Funded || project.innerStruct.stage == Stage.Repaid,
+            project.innerStruct.stage == Stage.Funded || project.innerStruct.stage == Stage.Repaid
+                || project.innerStruct.stage == Stage.Defaulted || project.innerStruct.stage == Stage.Recovered,
             "Invalid stage for claiming"
         );
 
         InvestorInfo storage investor = investorInfo[_investor][_projectId];
         require(investor.investedAmount > 0, "No investment found");
-        uint256 investorShare = (investor.investedAmount * BASIS_POINTS) / project.totalInvested; // Basis points
-        uint256 claimableShare = (project.innerStruct.totalRepaid * investorShare) / BASIS_POINTS; // Numeric
-
-        uint256 claimable = claimableShare > investor.totalClaimed ? claimableShare - investor.totalClaimed : 0; // Numeric
+        uint256 claimable = _claimableAmount(_projectId, investor); // Numeric
 
         investor.totalClaimed += claimable; // Numeric
         
@@ -322,6 +620,56 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
         emit Claimed(_projectId, _investor, claimable);
     }
 
+    /// @notice Move part of investment to another address, totalClaimed and reward vesting are moved proportionally
+    /// @param _projectId Project id
+    /// @param _to New holder of the position
+    /// @param _amount Part of investedAmount to move
+    function transferPosition(uint256 _projectId, address _to, uint256 _amount) external {
+        _transferPosition(_projectId, msg.sender, _to, _amount);
+        if (receiptTokens[_projectId]) {
+            IPositionToken(positionToken).move(msg.sender, _to, _projectId, _amount);
+        }
+    }
+
+    /// @notice Move position after transfer of receipt tokens (called by PositionToken)
+    /// @param _from Token sender
+    /// @param _to Token recipient
+    /// @param _projectId Token id
+    /// @param _amount Token amount
+    function onPositionTransfer(address _from, address _to, uint256 _projectId, uint256 _amount) external {
+        require(msg.sender == positionToken, "Not a position token");
+        _transferPosition(_projectId, _from, _to, _amount);
+    }
+
+    function _transferPosition(uint256 _projectId, address _from, address _to, uint256 _amount) internal {
+        _checkProject(_projectId);
+        require(uint8(projects[_projectId].innerStruct.stage) >= uint8(Stage.Funded), "Invalid stage for transfer");
+        require(_to != address(0) && _to != _from, "Invalid recipient");
+
+        InvestorInfo storage from = investorInfo[_from][_projectId];
+        require(_amount > 0 && _amount <= from.investedAmount, "Invalid amount");
+
+        if (transferApprovalRequired[_projectId]) {
+            uint256 approved = approvedTransfers[_projectId][_from][_to];
+            require(approved >= _amount, "Transfer not approved");
+            approvedTransfers[_projectId][_from][_to] = approved - _amount;
+        }
+
+        if (rewardSystem != address(0)) {
+            IRewardSystem(rewardSystem).transferVesting(_from, _to, _projectId, _amount, from.investedAmount);
+        }
+
+        uint256 claimed = (from.totalClaimed * _amount) / from.investedAmount;
+        from.investedAmount -= _amount;
+        from.totalClaimed -= claimed;
+
+        InvestorInfo storage to = investorInfo[_to][_projectId];
+        to.investedAmount += _amount;
+        to.totalClaimed += claimed;
+
+        emit PositionTransferred(_projectId, _from, _to, _amount, claimed);
+    }
+
     /**
      * END of LOGIC FUNCTIONS
      */
@@ -336,10 +684,10 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
     /// @param _projectHash project hash, for event
     function createProject(Project memory _project, bytes32 _whitelistRoot, uint256 _projectHash)
         external
+        onlyRole(ROLE_PROJECT_ADMIN)
         returns (uint256)
     {
-        require(IManagerRegistry(managerRegistry).isManager(msg.sender), "Not a manager");
-
+        _checkLoanToken(_project.innerStruct.loanToken);
         uint256 projectId = projectCount++;
         projects[projectId] = _project;
         whitelistRoots[projectId] = _whitelistRoot;
@@ -348,31 +696,51 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
         return projectId;
     }
 
-    /// @notice Update project stage
+    /// @notice Update project stage, closes Open stage early when soft cap is reached
     /// @param _projectId Project id
-    function moveProjectStage(uint256 _projectId) external {
-        require(IManagerRegistry(managerRegistry).isManager(msg.sender), "Not a manager");
+    function moveProjectStage(uint256 _projectId) external onlyRole(ROLE_PROJECT_ADMIN) {
+        _checkProject(_projectId);
+        _updateStage(_projectId, true);
+    }
 
+    /// @notice Declare default when first unpaid installment is overdue for more than grace period.
+    /// Project without repayment schedule is due at maturity of its interest terms, without both it can't default.
+    /// @param _projectId Project id
+    function declareDefault(uint256 _projectId) external onlyRole(ROLE_REPAYMENT_OPERATOR) {
+        _checkProject(_projectId);
         Project storage project = projects[_projectId];
+        require(project.innerStruct.stage == Stage.Funded, "Project isn't Funded stage");
 
-        if (project.innerStruct.stage == Stage.ComingSoon && block.timestamp >= project.startAt) {
-            project.innerStruct.stage = Stage.Open;
-            emit ProjectStatusChanged(_projectId, uint8(Stage.Open));
-            return;
-        }
-        if (project.innerStruct.stage == Stage.Open && project.totalInvested >= project.softCap) {
-            project.innerStruct.stage = Stage.PreFunded;
-            project.openStageEndAt = block.timestamp;
-            emit ProjectStatusChanged(_projectId, uint8(Stage.PreFunded));
-            return;
+        uint256 length = repaymentSchedules[_projectId].length;
+        (uint256 index, uint256 dueAt,) = nextDueInstallment(_projectId);
+        if (length == 0) {
+            dueAt = interestTerms[_projectId].maturity;
+            require(dueAt != 0, "No due date");
         }
+        require(
+            (length == 0 || index < length) && block.timestamp > dueAt + defaultGracePeriod,
+            "Grace period not passed"
+        );
+
+        interestTerms[_projectId].accruedUntil = block.timestamp;
+        emit ProjectDefaulted(_projectId, overdueAmount(_projectId));
+        _setStage(_projectId, Stage.Defaulted);
+    }
+
+    /// @notice Close recovery of defaulted project, recovered funds stay claimable
+    /// @param _projectId Project id
+    function finishRecovery(uint256 _projectId) external onlyRole(ROLE_REPAYMENT_OPERATOR) {
+        _checkProject(_projectId);
+        Project storage project = projects[_projectId];
+        require(project.innerStruct.stage == Stage.Defaulted, "Project isn't Defaulted stage");
+
+        _setStage(_projectId, Stage.Recovered);
     }
 
     /// @notice Update project info
     /// @param _projectId Project id
     /// @param _project new project info
-    function setProject(uint256 _projectId, Project memory _project) external {
-        require(IManagerRegistry(managerRegistry).isManager(msg.sender), "Not a manager");
+    function setProject(uint256 _projectId, Project memory _project) external onlyRole(ROLE_PROJECT_ADMIN) {
         require(
             projects[_projectId].innerStruct.stage == Stage.ComingSoon
                 || projects[_projectId].innerStruct.stage == Stage.Open,
@@ -381,6 +749,7 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
         if (
             projects[_projectId].innerStruct.stage == Stage.ComingSoon && _project.innerStruct.stage == Stage.ComingSoon
         ) {
+            _checkLoanToken(_project.innerStruct.loanToken);
             projects[_projectId] = _project;
             emit ProjectUpdated(_projectId);
         } else if (projects[_projectId].innerStruct.stage == Stage.Open) {
@@ -406,15 +775,152 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
     /// @notice Update project whitelist
     /// @param _whitelistRoot New merkle root
     /// @param _projectId Project id
-    function setWhitelist(bytes32 _whitelistRoot, uint256 _projectId) external {
-        require(IManagerRegistry(managerRegistry).isManager(msg.sender), "Not a manager");
+    function setWhitelist(bytes32 _whitelistRoot, uint256 _projectId) external onlyRole(ROLE_PROJECT_ADMIN) {
         whitelistRoots[_projectId] = _whitelistRoot;
     }
 
+    /// @notice Call several functions of Fundraise in one transaction, e.g. createProject, moveProjectStage,
+    /// setWhitelist or cancelProject for many projects. Failed items don't revert the batch.
+    /// Delegatecall keeps msg.sender, so every item checks access of the caller
+    /// @param _calls ABI encoded calls
+    /// @return success Per item result
+    /// @return results Return data of succeeded items, revert data of failed ones
+    /// @custom:oz-upgrades-unsafe-allow-reachable delegatecall
+    function batch(bytes[] calldata _calls) external returns (bool[] memory success, bytes[] memory results) {
+        success = new bool[](_calls.length);
+        results = new bytes[](_calls.length);
+        for (uint256 i = 0; i < _calls.length; i++) {
+            (success[i], results[i]) = address(this).delegatecall(_calls[i]);
+            if (!success[i]) emit BatchItemFailed(bytes4(_calls[i]), i, results[i]);
+        }
+    }
+
+    /// @notice Open project for everyone or return it to whitelist mode
+    /// @param _projectId Project id
+    /// @param _isOpen True to skip whitelist proof check
+    function setProjectOpen(uint256 _projectId, bool _isOpen) external onlyRole(ROLE_PROJECT_ADMIN) {
+        _checkProject(_projectId);
+        openProjects[_projectId] = _isOpen;
+        emit ProjectOpenStatusSet(_projectId, _isOpen);
+    }
+
+    /// @notice Set repayment schedule of project, replaces previous schedule
+    /// @param _projectId Project id
+    /// @param _installments Installments sorted by due date
+    function setRepaymentSchedule(uint256 _projectId, Installment[] calldata _installments)
+        external
+        onlyRole(ROLE_REPAYMENT_OPERATOR)
+    {
+        _checkProject(_projectId);
+        Stage stage = projects[_projectId].innerStruct.stage;
+        require(
+            stage == Stage.ComingSoon || stage == Stage.Open || stage == Stage.PreFunded || stage == Stage.Funded,
+            "Invalid stage for schedule"
+        );
+        require(_installments.length > 0, "Empty schedule");
+
+        delete repaymentSchedules[_projectId];
+        uint256 totalAmount;
+        for (uint256 i = 0; i < _installments.length; i++) {
+            if (i > 0) require(_installments[i].dueAt > _installments[i - 1].dueAt, "Due dates not sorted");
+            repaymentSchedules[_projectId].push(_installments[i]);
+            totalAmount += _installments[i].principal + _installments[i].interest;
+        }
+        emit RepaymentScheduleSet(_projectId, _installments.length, totalAmount);
+    }
+
+    /// @notice Set per investor limits, checked against total investment of investor
+    /// @param _projectId Project id
+    /// @param _minTicket Minimal total investment, 0 - no limit
+    /// @param _maxPerInvestor Maximal total investment, 0 - no limit
+    function setTicketLimits(uint256 _projectId, uint256 _minTicket, uint256 _maxPerInvestor)
+        external
+        onlyRole(ROLE_PROJECT_ADMIN)
+    {
+        _checkProject(_projectId);
+        require(_maxPerInvestor == 0 || _maxPerInvestor >= _minTicket, "Wrong ticket limits");
+        ticketLimits[_projectId] = TicketLimits(_minTicket, _maxPerInvestor);
+        emit TicketLimitsSet(_projectId, _minTicket, _maxPerInvestor);
+    }
+
+    /// @notice Choose interest model of project before it is funded
+    /// @param _projectId Project id
+    /// @param _model Flat or Accrued (investorInterestRate is APR)
+    /// @param _maturity Accrual end for Accrued model, 0 - no maturity
+    function setInterestTerms(uint256 _projectId, InterestModel _model, uint256 _maturity)
+        external
+        onlyRole(ROLE_PROJECT_ADMIN)
+    {
+        _checkProject(_projectId);
+        Stage stage = projects[_projectId].innerStruct.stage;
+        require(
+            stage == Stage.ComingSoon || stage == Stage.Open || stage == Stage.PreFunded, "Can't update funded project"
+        );
+        require(_model == InterestModel.Accrued || _maturity == 0, "Maturity is for accrued interest");
+
+        interestTerms[_projectId] = InterestTerms(_model, _maturity, 0);
+        emit InterestTermsSet(_projectId, uint8(_model), _maturity);
+    }
+
+    /// @notice Set split of platform fee, paid when funds are transferred to borrower
+    /// @param _projectId Project id
+    /// @param _split Originator and insurance recipients with their shares of the fee, treasury gets the rest
+    function setFeeSplit(uint256 _projectId, FeeSplit calldata _split) external onlyRole(ROLE_PROJECT_ADMIN) {
+        _checkProject(_projectId);
+        Stage stage = projects[_projectId].innerStruct.stage;
+        require(
+            stage == Stage.ComingSoon || stage == Stage.Open || stage == Stage.PreFunded, "Can't update funded project"
+        );
+        require(_split.originatorShare + _split.insuranceShare <= BASIS_POINTS, "Fee shares exceed 100%");
+        require(
+            (_split.originatorShare == 0 || _split.originator != address(0))
+                && (_split.insuranceShare == 0 || _split.insurance != address(0)),
+            "Zero fee recipient"
+        );
+
+        feeSplits[_projectId] = _split;
+        emit FeeSplitSet(
+            _projectId, _split.originator, _split.originatorShare, _split.insurance, _split.insuranceShare
+        );
+    }
+
+    /// @notice Require manager approval for position transfers of project
+    /// @param _projectId Project id
+    /// @param _required Whether approval is required
+    function setTransferApprovalRequired(uint256 _projectId, bool _required) external onlyRole(ROLE_PROJECT_ADMIN) {
+        _checkProject(_projectId);
+        transferApprovalRequired[_projectId] = _required;
+        emit TransferApprovalRequiredSet(_projectId, _required);
+    }
+
+    /// @notice Allow investor to transfer position, approved amount is spent by transferPosition
+    /// @param _projectId Project id
+    /// @param _from Investor
+    /// @param _to New holder
+    /// @param _amount investedAmount allowed to transfer
+    function approvePositionTransfer(uint256 _projectId, address _from, address _to, uint256 _amount)
+        external
+        onlyRole(ROLE_PROJECT_ADMIN)
+    {
+        _checkProject(_projectId);
+        approvedTransfers[_projectId][_from][_to] = _amount;
+        emit PositionTransferApproved(_projectId, _from, _to, _amount);
+    }
+
+    /// @notice Mint receipt tokens for positions of project, can be changed only before first investment
+    /// @param _projectId Project id
+    /// @param _enabled Whether positions are minted
+    function setReceiptTokens(uint256 _projectId, bool _enabled) external onlyRole(ROLE_PROJECT_ADMIN) {
+        _checkProject(_projectId);
+        require(projects[_projectId].totalInvested == 0, "Project has investments");
+        require(!_enabled || positionToken != address(0), "Position token not set");
+        receiptTokens[_projectId] = _enabled;
+        emit ReceiptTokensSet(_projectId, _enabled);
+    }
+
     /// @notice Update address of trusted signer
     /// @param _signer New address
-    function setTrustedSigner(address _signer) external {
-        require(IManagerRegistry(managerRegistry).isManager(msg.sender), "Not a manager");
+    function setTrustedSigner(address _signer) external onlyRole(ROLE_SIGNER_ADMIN) {
         trustedSigner = _signer;
     }
 
@@ -430,6 +936,18 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
         treasury = _treasury;
     }
 
+    /// @notice Update receipt token address
+    /// @param _positionToken New position token address
+    function setPositionToken(address _positionToken) external onlyOwner {
+        positionToken = _positionToken;
+    }
+
+    /// @notice Update grace period for declaring default
+    /// @param _gracePeriod Seconds after installment due date
+    function setDefaultGracePeriod(uint256 _gracePeriod) external onlyOwner {
+        defaultGracePeriod = _gracePeriod;
+    }
+
     /// @notice Update reward system address
     /// @param _rewardSystem New reward system address
     function setRewardSystem(address _rewardSystem) external onlyOwner {
@@ -458,10 +976,101 @@ contract Fundraise is Initializable, UUPSUpgradeable, OwnableUpgradeable, Merkle
             return 0;
         }
 
-        uint256 investorShare = (investor.investedAmount * BASIS_POINTS) / project.totalInvested; // Basis points
+        claimable = _claimableAmount(_projectId, investor);
+    }
+
+    /// @notice Investor share of totalRepaid, limited by principal and interest of investor under project interest model
+    function _claimableAmount(uint256 _projectId, InvestorInfo memory _investor) internal view returns (uint256) {
+        Project storage project = projects[_projectId];
+        uint256 investorShare = (_investor.investedAmount * BASIS_POINTS) / project.totalInvested; // Basis points
         uint256 claimableShare = (project.innerStruct.totalRepaid * investorShare) / BASIS_POINTS; // Numeric
 
-        claimable = claimableShare > investor.totalClaimed ? claimableShare - investor.totalClaimed : 0;
+        uint256 entitled =
+            _investor.investedAmount + (accruedInterest(_projectId) * _investor.investedAmount) / project.totalInvested;
+        if (claimableShare > entitled) claimableShare = entitled;
+
+        return claimableShare > _investor.totalClaimed ? claimableShare - _investor.totalClaimed : 0;
+    }
+
+    /// @notice Get investor interest of project under its interest model
+    /// @param _projectId Project id
+    function accruedInterest(uint256 _projectId) public view returns (uint256) {
+        Project storage project = projects[_projectId];
+        InterestTerms storage terms = interestTerms[_projectId];
+        if (terms.model == InterestModel.Flat) {
+            return (project.totalInvested * project.investorInterestRate) / BASIS_POINTS;
+        }
+
+        uint256 fundedTime = project.innerStruct.fundedTime;
+        if (fundedTime == 0) return 0;
+        uint256 end = block.timestamp;
+        if (terms.maturity != 0 && terms.maturity < end) end = terms.maturity;
+        if (terms.accruedUntil != 0 && terms.accruedUntil < end) end = terms.accruedUntil;
+        if (end <= fundedTime) return 0;
+
+        return (project.totalInvested * project.investorInterestRate * (end - fundedTime)) / (BASIS_POINTS * YEAR);
+    }
+
+    /// @notice Get principal plus interest which has to be repaid for project to become Repaid
+    /// @param _projectId Project id
+    function totalRepaymentAmount(uint256 _projectId) public view returns (uint256) {
+        return projects[_projectId].totalInvested + accruedInterest(_projectId);
+    }
+
+    /// @notice Get repayment schedule of project
+    /// @param _projectId Project id
+    function getRepaymentSchedule(uint256 _projectId) external view returns (Installment[] memory) {
+        return repaymentSchedules[_projectId];
+    }
+
+    /// @notice Get first installment which is not covered by totalRepaid
+    /// @param _projectId Project id
+    /// @return index Installment index, equals schedule length when schedule is repaid
+    /// @return dueAt Due date of installment
+    /// @return amountDue Unpaid part of installment
+    function nextDueInstallment(uint256 _projectId)
+        public
+        view
+        returns (uint256 index, uint256 dueAt, uint256 amountDue)
+    {
+        Installment[] storage schedule = repaymentSchedules[_projectId];
+        uint256 totalRepaid = projects[_projectId].innerStruct.totalRepaid;
+        uint256 cumulative;
+        for (index = 0; index < schedule.length; index++) {
+            cumulative += schedule[index].principal + schedule[index].interest;
+            if (cumulative > totalRepaid) {
+                return (index, schedule[index].dueAt, cumulative - totalRepaid);
+            }
+        }
+    }
+
+    /// @notice Get unpaid amount of installments which are past due date
+    /// @param _projectId Project id
+    function overdueAmount(uint256 _projectId) public view returns (uint256) {
+        Installment[] storage schedule = repaymentSchedules[_projectId];
+        uint256 due;
+        for (uint256 i = 0; i < schedule.length && schedule[i].dueAt < block.timestamp; i++) {
+            due += schedule[i].principal + schedule[i].interest;
+        }
+        uint256 totalRepaid = projects[_projectId].innerStruct.totalRepaid;
+        return due > totalRepaid ? due - totalRepaid : 0;
+    }
+
+    /// @notice Get full days passed since due date of the first unpaid installment
+    /// @param _projectId Project id
+    function daysLate(uint256 _projectId) external view returns (uint256) {
+        (uint256 index, uint256 dueAt,) = nextDueInstallment(_projectId);
+        if (index == repaymentSchedules[_projectId].length || block.timestamp <= dueAt) {
+            return 0;
+        }
+        return (block.timestamp - dueAt) / 1 days;
+    }
+
+    /// @notice EIP-712 domain separator, bound to chain id and this proxy address
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("Fundraise"), keccak256("1"), block.chainid, address(this))
+        );
     }
 
     function splitSignature(bytes memory sig) public pure returns (bytes32 r, bytes32 s, uint8 v) {
@@ -4,20 +4,66 @@ pragma solidity ^0.8.23;
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./interfaces/IManagerRegistry.sol";
 
-/// @notice Contract for a managing managers of registry
+/// @notice Contract for a managing roles of registry
 contract ManagerRegistry is Initializable, OwnableUpgradeable, UUPSUpgradeable {
-    /// @notice mapping for contains manager addresses
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @notice Claim address proposed by investor, effectiveAt is set when the new address accepts
+    struct ClaimAddressChange {
+        address claimAddress;
+        uint256 effectiveAt;
+    }
+
+    /// @notice Legacy manager flags, they don't give access anymore and are only read to migrate to roles
     mapping(address => bool) public managers;
     mapping(address => bool) public pools;
     address public rewardSystemAddress;
     address public fundraiseAddress;
     address public treasuryAddress;
     mapping(address => address) public investorClaimAddresses; // investor => claimAddress
+    mapping(bytes32 => bool) public pausedActions; // action => paused
+    mapping(bytes32 => bytes32) public roleAdmins; // role => admin role, owner administers all roles
+    mapping(address => ClaimAddressChange) public claimAddressChanges; // investor => proposed claim address
+    uint256 public claimAddressCooldown; // 0 - investors can't change claim address themselves
+    mapping(bytes32 => EnumerableSet.AddressSet) internal roleMemberSets; // role => accounts with role
+    // Listings for paged getters, pools and claim addresses from before the upgrade are added with syncListings
+    EnumerableSet.AddressSet internal poolSet;
+    EnumerableSet.AddressSet internal claimAddressInvestors; // investors with claim address or accepted change
+    // Token transfer rules while buying is disabled
+    mapping(address => bool) public tokenSenderAllowlist; // sender => can transfer to anyone
+    mapping(address => bool) public tokenRecipientAllowlist; // recipient => can receive from anyone
+    mapping(address => uint256) public tokenDailyCaps; // sender => max amount per day, 0 - no cap
+
+    /// @notice Roles checked by protocol contracts
+    bytes32 public constant DEFAULT_ADMIN_ROLE = 0x00;
+    bytes32 public constant PROJECT_ADMIN_ROLE = ROLE_PROJECT_ADMIN;
+    bytes32 public constant REPAYMENT_OPERATOR_ROLE = ROLE_REPAYMENT_OPERATOR;
+    bytes32 public constant REWARD_OPERATOR_ROLE = ROLE_REWARD_OPERATOR;
+    bytes32 public constant SIGNER_ADMIN_ROLE = ROLE_SIGNER_ADMIN;
+    bytes32 public constant GUARDIAN_ROLE = ROLE_GUARDIAN;
+
+    /// @notice Actions which can be paused separately
+    bytes32 public constant INVEST = PAUSE_INVEST;
+    bytes32 public constant CLAIM = PAUSE_CLAIM;
+    bytes32 public constant REWARD_CLAIM = PAUSE_REWARD_CLAIM;
+    bytes32 public constant BUYBACK = PAUSE_BUYBACK;
     
-    event ManagerUpdated(address manager, bool status);
     event PoolUpdated(address pool, bool status);
     event InvestorClaimAddressSet(address indexed investor, address indexed claimAddress);
+    event PauseUpdated(bytes32 indexed action, bool paused, address account);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole);
+    event ClaimAddressProposed(address indexed investor, address indexed claimAddress);
+    event ClaimAddressAccepted(address indexed investor, address indexed claimAddress, uint256 effectiveAt);
+    event ClaimAddressVetoed(address indexed investor, address indexed claimAddress, address account);
+    event ClaimAddressCooldownSet(uint256 cooldown);
+    event TokenSenderAllowed(address indexed account, bool allowed);
+    event TokenRecipientAllowed(address indexed account, bool allowed);
+    event TokenDailyCapSet(address indexed account, uint256 cap);
 
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
@@ -31,43 +77,114 @@ contract ManagerRegistry is Initializable, OwnableUpgradeable, UUPSUpgradeable {
 
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
 
-    /// @notice Update manager status
-    /// @param _managers Manager addr
-    /// @param _statuses Manager status
-    function setManagerStatusBatch(address[] memory _managers, bool[] memory _statuses) external {
-        require(managers[msg.sender] || msg.sender == owner(), "ManagerRegistry: Not a manager");
-        for (uint256 i = 0; i < _managers.length; i++) {
-            managers[_managers[i]] = _statuses[i];
-            emit ManagerUpdated(_managers[i], _statuses[i]);
+    /// @notice Grant roles, caller must be owner or have admin role of every role
+    /// @param _roles Roles, e.g. PROJECT_ADMIN_ROLE
+    /// @param _accounts Accounts, same length as roles
+    function grantRoles(bytes32[] calldata _roles, address[] calldata _accounts) external {
+        require(_roles.length == _accounts.length, "ManagerRegistry: Length mismatch");
+        for (uint256 i = 0; i < _roles.length; i++) {
+            grantRole(_roles[i], _accounts[i]);
         }
     }
 
-    /// @notice Update manager status
-    /// @param _manager Manager addr
-    /// @param _status Manager status
-    function setManagerStatus(address _manager, bool _status) external {
-        require(managers[msg.sender] || msg.sender == owner(), "ManagerRegistry: Not a manager");
-        managers[_manager] = _status;
-        emit ManagerUpdated(_manager, _status);
+    /// @notice Grant role, caller must be owner or have admin role of the role
+    /// @param _role Role
+    /// @param _account Account
+    function grantRole(bytes32 _role, address _account) public {
+        _checkRoleAdmin(_role);
+        if (roleMemberSets[_role].add(_account)) {
+            emit RoleGranted(_role, _account, msg.sender);
+        }
+    }
+
+    /// @notice Revoke role, caller must be owner or have admin role of the role
+    /// @param _role Role
+    /// @param _account Account
+    function revokeRole(bytes32 _role, address _account) external {
+        _checkRoleAdmin(_role);
+        _revokeRole(_role, _account);
+    }
+
+    /// @notice Give up own role, e.g. of a leaked key
+    /// @param _role Role
+    function renounceRole(bytes32 _role) external {
+        _revokeRole(_role, msg.sender);
+    }
+
+    /// @notice Set role which administers the role (owner only)
+    /// @param _role Role
+    /// @param _adminRole Admin role, DEFAULT_ADMIN_ROLE by default
+    function setRoleAdmin(bytes32 _role, bytes32 _adminRole) external onlyOwner {
+        emit RoleAdminChanged(_role, roleAdmins[_role], _adminRole);
+        roleAdmins[_role] = _adminRole;
+    }
+
+    function _checkRoleAdmin(bytes32 _role) internal view {
+        require(msg.sender == owner() || hasRole(roleAdmins[_role], msg.sender), "ManagerRegistry: Not a role admin");
+    }
+
+    function _revokeRole(bytes32 _role, address _account) internal {
+        if (roleMemberSets[_role].remove(_account)) {
+            emit RoleRevoked(_role, _account, msg.sender);
+        }
     }
 
     /// @notice Update pool status
     /// @param _pool Pool addr
     /// @param _status Pool status
     function setPoolStatus(address _pool, bool _status) external onlyOwner {
-        pools[_pool] = _status;
-        emit PoolUpdated(_pool, _status);
+        _setPool(_pool, _status);
     }
 
     /// @notice Set pool status for reward payouts (can be called by RewardSystem only)
+    /// @dev Not used since Token exempts RewardSystem as sender, kept for RewardSystem implementations before that
     /// @param _pool Pool addr
     /// @param _status Pool status
     function setPoolStatusForReward(address _pool, bool _status) external {
         require(isRewardSystem(msg.sender), "ManagerRegistry: Not a reward system");
+        _setPool(_pool, _status);
+    }
+
+    function _setPool(address _pool, bool _status) internal {
         pools[_pool] = _status;
+        if (_status) {
+            poolSet.add(_pool);
+        } else {
+            poolSet.remove(_pool);
+        }
         emit PoolUpdated(_pool, _status);
     }
 
+    /// @notice Allow accounts to send Token while buying is disabled, e.g. vesting or escrow contracts
+    /// @param _accounts Senders
+    /// @param _allowed Whether sender is allowed
+    function setTokenSenderAllowed(address[] calldata _accounts, bool _allowed) external onlyOwner {
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            tokenSenderAllowlist[_accounts[i]] = _allowed;
+            emit TokenSenderAllowed(_accounts[i], _allowed);
+        }
+    }
+
+    /// @notice Allow accounts to receive Token while buying is disabled, e.g. exchange deposit addresses
+    /// @param _accounts Recipients
+    /// @param _allowed Whether recipient is allowed
+    function setTokenRecipientAllowed(address[] calldata _accounts, bool _allowed) external onlyOwner {
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            tokenRecipientAllowlist[_accounts[i]] = _allowed;
+            emit TokenRecipientAllowed(_accounts[i], _allowed);
+        }
+    }
+
+    /// @notice Set max amount of Token accounts can send per day while buying is disabled
+    /// @param _accounts Senders
+    /// @param _cap Amount per UTC day, 0 - no cap
+    function setTokenDailyCap(address[] calldata _accounts, uint256 _cap) external onlyOwner {
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            tokenDailyCaps[_accounts[i]] = _cap;
+            emit TokenDailyCapSet(_accounts[i], _cap);
+        }
+    }
+
     /// @notice Set contract addresses
     /// @param _rewardSystemAddress Reward system address
     /// @param _fundraiseAddress Fundraise address
@@ -81,34 +198,202 @@ contract ManagerRegistry is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         treasuryAddress = _treasuryAddress;
     }
 
-        /// @notice Set investor claim address for payouts
+        /// @notice Set investor claim address for payouts, drops change proposed by investor
     /// @param _investor Investor address
     /// @param _claimAddress New address for receiving payouts
     function setInvestorClaimAddress(address _investor, address _claimAddress) external onlyOwner {
         require(_investor != address(0), "Invalid investor address");
         require(_claimAddress != address(0), "Invalid claim address");
         
+        delete claimAddressChanges[_investor];
         investorClaimAddresses[_investor] = _claimAddress;
+        _syncClaimAddressListing(_investor);
         emit InvestorClaimAddressSet(_investor, _claimAddress);
     }
 
+    /// @notice Set cooldown between acceptance of claim address and its use (owner only)
+    /// @param _cooldown Cooldown in seconds, 0 disables changes by investors
+    function setClaimAddressCooldown(uint256 _cooldown) external onlyOwner {
+        claimAddressCooldown = _cooldown;
+        emit ClaimAddressCooldownSet(_cooldown);
+    }
+
+    /// @notice Propose new claim address of caller, it has to accept it with acceptClaimAddress
+    /// @param _claimAddress New address for receiving payouts, caller's own address to reset
+    function proposeClaimAddress(address _claimAddress) external {
+        require(claimAddressCooldown != 0, "Claim address change disabled");
+        require(_claimAddress != address(0), "Invalid claim address");
+        _applyClaimAddressChange(msg.sender);
+        claimAddressChanges[msg.sender] = ClaimAddressChange(_claimAddress, 0);
+        emit ClaimAddressProposed(msg.sender, _claimAddress);
+    }
+
+    /// @notice Accept claim address proposed by investor (called by the new address), used after cooldown
+    /// @param _investor Investor address
+    function acceptClaimAddress(address _investor) external {
+        ClaimAddressChange storage change = claimAddressChanges[_investor];
+        require(change.claimAddress == msg.sender && change.effectiveAt == 0, "Nothing to accept");
+        change.effectiveAt = block.timestamp + claimAddressCooldown;
+        _syncClaimAddressListing(_investor);
+        emit ClaimAddressAccepted(_investor, msg.sender, change.effectiveAt);
+    }
+
+    /// @notice Drop claim address change before its cooldown ends (investor, project admin or owner)
+    /// @param _investor Investor address
+    function vetoClaimAddress(address _investor) external {
+        require(
+            msg.sender == _investor || hasRole(ROLE_PROJECT_ADMIN, msg.sender) || msg.sender == owner(),
+            "ManagerRegistry: Not a project admin"
+        );
+        ClaimAddressChange memory change = claimAddressChanges[_investor];
+        require(
+            change.claimAddress != address(0) && (change.effectiveAt == 0 || block.timestamp < change.effectiveAt),
+            "No pending claim address"
+        );
+        delete claimAddressChanges[_investor];
+        _syncClaimAddressListing(_investor);
+        emit ClaimAddressVetoed(_investor, change.claimAddress, msg.sender);
+    }
+
+    /// @dev Store change which passed cooldown, so a new proposal doesn't revert it
+    function _applyClaimAddressChange(address _investor) internal {
+        ClaimAddressChange memory change = claimAddressChanges[_investor];
+        if (change.effectiveAt != 0 && block.timestamp >= change.effectiveAt) {
+            investorClaimAddresses[_investor] = change.claimAddress;
+            emit InvestorClaimAddressSet(_investor, change.claimAddress);
+        }
+    }
+
+    /// @dev Investor is listed while payouts go or are going to another address
+    function _syncClaimAddressListing(address _investor) internal {
+        address claimAddress = investorClaimAddresses[_investor];
+        ClaimAddressChange memory change = claimAddressChanges[_investor];
+        bool listed = (claimAddress != address(0) && claimAddress != _investor)
+            || (change.effectiveAt != 0 && change.claimAddress != _investor);
+        if (listed) {
+            claimAddressInvestors.add(_investor);
+        } else {
+            claimAddressInvestors.remove(_investor);
+        }
+    }
+
+    /// @notice List pools and claim addresses set before listings existed, the mappings are the source of truth (owner only)
+    /// @param _pools Pools
+    /// @param _investors Investors with claim address
+    function syncListings(address[] calldata _pools, address[] calldata _investors) external onlyOwner {
+        for (uint256 i = 0; i < _pools.length; i++) {
+            if (pools[_pools[i]]) {
+                poolSet.add(_pools[i]);
+            } else {
+                poolSet.remove(_pools[i]);
+            }
+        }
+        for (uint256 i = 0; i < _investors.length; i++) {
+            _syncClaimAddressListing(_investors[i]);
+        }
+    }
+
     /// @notice Get investor claim address (returns original address if not set)
     /// @param _investor Investor address
     /// @return Address for receiving payouts
     function getInvestorClaimAddress(address _investor) public view returns (address) {
+        ClaimAddressChange memory change = claimAddressChanges[_investor];
+        if (change.effectiveAt != 0 && block.timestamp >= change.effectiveAt) {
+            return change.claimAddress;
+        }
         address claimAddress = investorClaimAddresses[_investor];
         return claimAddress != address(0) ? claimAddress : _investor;
     }
 
+    /// @notice Pause actions, e.g. INVEST and CLAIM (guardian or owner)
+    /// @param _actions Actions to pause
+    function pause(bytes32[] calldata _actions) external {
+        require(hasRole(ROLE_GUARDIAN, msg.sender) || msg.sender == owner(), "ManagerRegistry: Not a guardian");
+        _setPaused(_actions, true);
+    }
+
+    /// @notice Unpause actions (owner only)
+    /// @param _actions Actions to unpause
+    function unpause(bytes32[] calldata _actions) external onlyOwner {
+        _setPaused(_actions, false);
+    }
+
+    function _setPaused(bytes32[] calldata _actions, bool _paused) internal {
+        for (uint256 i = 0; i < _actions.length; i++) {
+            pausedActions[_actions[i]] = _paused;
+            emit PauseUpdated(_actions[i], _paused, msg.sender);
+        }
+    }
 
     /**
      * GETTERS
      */
 
     /// @notice View function for checking eligibility to call
-    /// @param _sender Manager addr
-    function isManager(address _sender) public view returns (bool) {
-        return managers[_sender] || _sender == rewardSystemAddress;
+    /// @param _role Role, e.g. PROJECT_ADMIN_ROLE
+    /// @param _account Account addr
+    /// @return bool
+    function hasRole(bytes32 _role, address _account) public view returns (bool) {
+        return roleMemberSets[_role].contains(_account);
+    }
+
+    /// @notice Number of accounts with role
+    /// @param _role Role
+    function getRoleMemberCount(bytes32 _role) external view returns (uint256) {
+        return roleMemberSets[_role].length();
+    }
+
+    /// @notice Page of accounts with role
+    /// @param _role Role
+    /// @param _offset Index of the first account
+    /// @param _limit Max number of accounts
+    function getRoleMembers(bytes32 _role, uint256 _offset, uint256 _limit) external view returns (address[] memory) {
+        return _page(roleMemberSets[_role], _offset, _limit);
+    }
+
+    /// @notice Number of pools
+    function getPoolCount() external view returns (uint256) {
+        return poolSet.length();
+    }
+
+    /// @notice Page of pools
+    /// @param _offset Index of the first pool
+    /// @param _limit Max number of pools
+    function getPools(uint256 _offset, uint256 _limit) external view returns (address[] memory) {
+        return _page(poolSet, _offset, _limit);
+    }
+
+    /// @notice Number of investors with claim address
+    function getClaimAddressCount() external view returns (uint256) {
+        return claimAddressInvestors.length();
+    }
+
+    /// @notice Page of investors with claim address, claim address is the current one (investor while cooldown)
+    /// @param _offset Index of the first investor
+    /// @param _limit Max number of investors
+    function getClaimAddresses(uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (address[] memory investors, address[] memory claimAddresses)
+    {
+        investors = _page(claimAddressInvestors, _offset, _limit);
+        claimAddresses = new address[](investors.length);
+        for (uint256 i = 0; i < investors.length; i++) {
+            claimAddresses[i] = getInvestorClaimAddress(investors[i]);
+        }
+    }
+
+    function _page(EnumerableSet.AddressSet storage _set, uint256 _offset, uint256 _limit)
+        internal
+        view
+        returns (address[] memory page)
+    {
+        uint256 length = _set.length();
+        uint256 count = _offset >= length ? 0 : length - _offset;
+        page = new address[](count < _limit ? count : _limit);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _set.at(_offset + i);
+        }
     }
 
     /// @notice View function for checking eligibility to call
@@ -138,4 +423,20 @@ contract ManagerRegistry is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     function isRewardSystem(address _sender) public view returns (bool) {
         return rewardSystemAddress == _sender;
     }
+
+    /// @notice View function for checking Token transfers while buying is disabled
+    /// @param _from Sender
+    /// @param _to Recipient
+    /// @return bool
+    function isTokenTransferAllowed(address _from, address _to) public view returns (bool) {
+        return pools[_to] || isRewardSystem(_to) || tokenRecipientAllowlist[_to] || isRewardSystem(_from)
+            || tokenSenderAllowlist[_from];
+    }
+
+    /// @notice View function for checking paused actions
+    /// @param _action Action, e.g. INVEST
+    /// @return bool
+    function isPaused(bytes32 _action) public view returns (bool) {
+        return pausedActions[_action];
+    }
 }
@@ -4,16 +4,18 @@ pragma solidity ^0.8.23;
 
 import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20BurnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PermitUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 
-/// @notice ERC20 contract for a testing purposes
+/// @notice ERC20 contract with EIP-2612 permit for a testing purposes
 contract MockERC20 is
     Initializable,
     ERC20Upgradeable,
     ERC20BurnableUpgradeable,
+    ERC20PermitUpgradeable,
     AccessControlUpgradeable,
     OwnableUpgradeable,
     UUPSUpgradeable
@@ -28,6 +30,7 @@ contract MockERC20 is
     function initialize(address initialOwner, string memory name, string memory symbol) public initializer {
         __ERC20_init(name, symbol);
         __ERC20Burnable_init();
+        __ERC20Permit_init(name);
         __Ownable_init(initialOwner);
 
         __UUPSUpgradeable_init();
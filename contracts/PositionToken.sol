@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "@openzeppelin/contracts-upgradeable/token/ERC1155/ERC1155Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./Fundraise.sol";
+
+/// @dev Receipt tokens of Fundraise positions, token id is project id and balance is investedAmount.
+/// Transfers move the position in Fundraise, so holder of the tokens is the one who claims.
+contract PositionToken is Initializable, UUPSUpgradeable, OwnableUpgradeable, ERC1155Upgradeable {
+    using Strings for uint256;
+
+    address public fundraise;
+
+    modifier onlyFundraise() {
+        require(msg.sender == fundraise, "Not a fundraise");
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address _fundraise) public initializer {
+        __UUPSUpgradeable_init();
+        __Ownable_init(msg.sender);
+        __ERC1155_init("");
+
+        fundraise = _fundraise;
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+
+    /// @notice Update fundraise address
+    /// @param _fundraise New fundraise address
+    function setFundraise(address _fundraise) external onlyOwner {
+        fundraise = _fundraise;
+    }
+
+    /// @notice Mint tokens for investment (called by Fundraise)
+    /// @param _investor Investor address
+    /// @param _projectId Project ID
+    /// @param _amount Invested amount
+    function mint(address _investor, uint256 _projectId, uint256 _amount) external onlyFundraise {
+        _mint(_investor, _projectId, _amount, "");
+    }
+
+    /// @notice Burn tokens of withdrawn investment (called by Fundraise)
+    /// @param _investor Investor address
+    /// @param _projectId Project ID
+    /// @param _amount Withdrawn amount
+    function burn(address _investor, uint256 _projectId, uint256 _amount) external onlyFundraise {
+        _burn(_investor, _projectId, _amount);
+    }
+
+    /// @notice Move tokens of position transferred in Fundraise (called by Fundraise)
+    /// @param _from Investor
+    /// @param _to New holder
+    /// @param _projectId Project ID
+    /// @param _amount Transferred amount
+    function move(address _from, address _to, uint256 _projectId, uint256 _amount) external onlyFundraise {
+        _safeTransferFrom(_from, _to, _projectId, _amount, "");
+    }
+
+    /// @notice Token transfers by holders move positions in Fundraise, mint, burn and move are already accounted
+    function _update(address _from, address _to, uint256[] memory _ids, uint256[] memory _values)
+        internal
+        override
+    {
+        super._update(_from, _to, _ids, _values);
+        if (_from == address(0) || _to == address(0) || msg.sender == fundraise) return;
+
+        for (uint256 i = 0; i < _ids.length; i++) {
+            Fundraise(fundraise).onPositionTransfer(_from, _to, _ids[i], _values[i]);
+        }
+    }
+
+    /// @notice On-chain JSON metadata of project, holder balance is the invested amount
+    /// @param _projectId Project ID
+    function uri(uint256 _projectId) public view override returns (string memory) {
+        (,, uint256 totalInvested,,,,, Fundraise.InnerProjectStruct memory innerStruct) =
+            Fundraise(fundraise).projects(_projectId);
+        uint256 totalDue = Fundraise(fundraise).totalRepaymentAmount(_projectId);
+        uint256 progress = totalDue == 0 ? 0 : (innerStruct.totalRepaid * 100) / totalDue;
+        if (progress > 100) progress = 100;
+
+        string memory id = _projectId.toString();
+        bytes memory json = abi.encodePacked(
+            '{"name":"8lends project #',
+            id,
+            '","description":"Position in 8lends project, balance is the invested amount","attributes":[',
+            '{"trait_type":"Project","value":',
+            id,
+            '},{"trait_type":"Stage","value":',
+            uint256(innerStruct.stage).toString(),
+            '},{"trait_type":"Total invested","value":',
+            totalInvested.toString(),
+            '},{"trait_type":"Repaid","value":',
+            innerStruct.totalRepaid.toString(),
+            '},{"trait_type":"Repayment progress","display_type":"boost_percentage","value":',
+            progress.toString(),
+            "}]}"
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(json));
+    }
+}
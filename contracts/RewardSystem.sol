@@ -42,6 +42,12 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
         bool isNewUser;
     }
 
+    struct LoanToken {
+        bool accepted;
+        uint8 decimals;
+        address[] pricePath; // Uniswap path from loan token to token
+    }
+
     struct ReferralData {
         uint256 totalRewardsUSDC; // For inviter
         uint256 totalRewardsTokens; // For investor (total amount in vesting)
@@ -56,6 +62,10 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
     mapping(address => address[]) public userReferrals; // inviter -> list of referred users
     mapping(uint256 => uint256) public rewardTokensAmount; // projectId -> available token amount for claim
     mapping(uint256 => uint256) public rewardTokensClaimedAmount; // projectId -> claimed token amount
+    mapping(address => LoanToken) internal loanTokens; // loan token -> decimals and price path
+    mapping(uint256 => bool) public projectRewardsVoided; // projectId -> cancelled, rewards are never activated
+    uint256 public pendingBuybackAmount; // minted reward tokens which are not bought back while buyback is paused
+    mapping(address => uint256) public welcomeBonusProject; // user -> projectId + 1 of recorded welcome bonus, 0 - none
 
     // Events
     event UserRegistered(address indexed user, address indexed inviter);
@@ -65,9 +75,15 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
     event VestingTokensClaimed(address indexed user, uint256 amount, uint256 projectId);
     event WelcomeBonusRecorded(address indexed user, uint256 amount);
     event ReferralBonusRecorded(address indexed user, uint256 amount, address indexed child, uint256 projectId);
-
-    modifier onlyManager() {
-        require(IManagerRegistry(managerRegistry).isManager(msg.sender), "Not a manager");
+    event VestingTransferred(address indexed from, address indexed to, uint256 amount, uint256 projectId);
+    event ProjectRewardsVoided(uint256 indexed projectId, uint256 tokensAmount);
+    event ReferralsVoided(address indexed user, uint256 indexed projectId);
+    event LoanTokenSet(address indexed loanToken, bool accepted, uint8 decimals, address[] pricePath);
+    event BuybackDeferred(uint256 indexed projectId, uint256 tokensAmount);
+    event BuybackExecuted(uint256 tokensAmount);
+
+    modifier onlyRole(bytes32 _role) {
+        require(IManagerRegistry(managerRegistry).hasRole(_role, msg.sender), "Missing role");
         _;
     }
 
@@ -77,6 +93,11 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
         _;
     }
 
+    modifier whenNotPaused(bytes32 _action) {
+        require(!IManagerRegistry(managerRegistry).isPaused(_action), "Paused");
+        _;
+    }
+
     modifier validAddress(address _addr) {
         require(_addr != address(0), "Invalid address");
         _;
@@ -130,14 +151,19 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
 
     /// @notice Record investment and calculate rewards
     /// @param _user Investor address
-    /// @param _amount Investment amount in USDC
+    /// @param _amount Investment amount in loan token
     /// @param _inviter Inviter address (if first investment)
     /// @param _projectId Project ID
-    function recordInvestment(address _user, uint256 _amount, address _inviter, uint256 _projectId)
+    /// @param _loanToken Loan token of project
+    function recordInvestment(address _user, uint256 _amount, address _inviter, uint256 _projectId, address _loanToken)
         external
         onlyFundraise
     {
         require(_amount > 0, "Invalid amount");
+        (uint8 decimals, address[] memory path) = _getLoanToken(_loanToken);
+        // USDC value of investment, loan tokens are stablecoins
+        uint256 usdcAmount = (_amount * 1e6) / 10 ** decimals;
+
         // If user is not registered, register them
         if (_inviter != address(0) && users[_user].inviter == address(0)) {
             _registerUser(_user, _inviter);
@@ -151,54 +177,80 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
         // Calculate rewards for inviter
         address inviter = userInfo.inviter;
         if (inviter != address(0)) {
-            uint256 inviterUSDC = (_amount * referralPercentage) / BASIS_POINTS;
+            uint256 inviterUSDC = (usdcAmount * referralPercentage) / BASIS_POINTS;
             projectReferrals[inviter][_projectId].totalRewardsUSDC += inviterUSDC;
             emit ReferralBonusRecorded(inviter, inviterUSDC, _user, _projectId);
         }
 
         // Calculate rewards for investor (tokens)
-        uint256 usdcRewardAmount = (_amount * tokenPercentage) / BASIS_POINTS;
+        uint256 rewardAmount = (_amount * tokenPercentage) / BASIS_POINTS;
 
-        if (usdcRewardAmount <= 0) revert("Invalid USDC reward amount");
+        if (rewardAmount <= 0) revert("Invalid USDC reward amount");
 
         if (token == address(0)) revert("Token address is not set");
-        if (address(usdc) == address(0)) revert("USDC address is not set");
         if (address(uniswapRouter) == address(0)) revert("Uniswap router address is not set");
 
-        // Get current Token price in USDC
-        address[] memory path = new address[](2);
-        path[0] = address(usdc);
-        path[1] = token;
-        
+        // Get current Token price in loan token
         uint256[] memory amounts;
-        try uniswapRouter.getAmountsOut(usdcRewardAmount, path) returns (uint256[] memory _amounts) {
+        try uniswapRouter.getAmountsOut(rewardAmount, path) returns (uint256[] memory _amounts) {
             amounts = _amounts;
         } catch {
             revert("Uniswap pool does not exist or has no liquidity");
         }
         
-        uint256 tokensAmount = amounts[1];
+        uint256 tokensAmount = amounts[amounts.length - 1];
         require(tokensAmount > 0, "Invalid token amount from Uniswap");
 
         refData.totalRewardsTokens += tokensAmount;
         rewardTokensAmount[_projectId] += tokensAmount;
 
         // Bonus for investor (if investment >= minimum and this is new user)
-        if (userInfo.isNewUser && _amount >= minInvestmentForBonus) {
+        if (userInfo.isNewUser && usdcAmount >= minInvestmentForBonus) {
             refData.totalRewardsUSDC += welcomeBonusAmount;
             userInfo.isNewUser = false;
+            welcomeBonusProject[_user] = _projectId + 1;
             emit WelcomeBonusRecorded(_user, welcomeBonusAmount);
         }
 
         emit InvestmentRecorded(_user, _amount, _projectId);
     }
 
+    /// @notice Decimals and price path of loan token, USDC is accepted without registration
+    function _getLoanToken(address _loanToken) internal view returns (uint8, address[] memory) {
+        LoanToken storage loanToken = loanTokens[_loanToken];
+        if (loanToken.accepted) {
+            return (loanToken.decimals, loanToken.pricePath);
+        }
+        require(_loanToken == address(usdc) && _loanToken != address(0), "Loan token not accepted");
+
+        address[] memory path = new address[](2);
+        path[0] = address(usdc);
+        path[1] = token;
+        return (6, path);
+    }
+
+    /// @notice Whether investments in loan token can be rewarded
+    /// @param _loanToken Loan token address
+    function isLoanTokenAccepted(address _loanToken) external view returns (bool) {
+        return loanTokens[_loanToken].accepted || (_loanToken == address(usdc) && _loanToken != address(0));
+    }
 
+    /// @notice Get decimals and price path of loan token
+    /// @param _loanToken Loan token address
+    function getLoanToken(address _loanToken)
+        external
+        view
+        returns (bool accepted, uint8 decimals, address[] memory pricePath)
+    {
+        LoanToken storage loanToken = loanTokens[_loanToken];
+        return (loanToken.accepted, loanToken.decimals, loanToken.pricePath);
+    }
 
     /// @notice Activate project rewards (called when transitioning to Stage.Funded)
     /// @param _projectId Project ID
     function activateProjectRewards(uint256 _projectId, uint256 _totalInvested) external onlyFundraise {
         require(projectVestingStartTime[_projectId] == 0, "Rewards already activated");
+        require(!projectRewardsVoided[_projectId], "Project rewards voided");
         projectVestingStartTime[_projectId] = block.timestamp;
         emit ProjectRewardsActivated(_projectId, block.timestamp);
 
@@ -212,41 +264,123 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
                 // Buy back tokens from pool (USDC -> Token) and burn them
                 // Burn exactly the same amount as minted to keep totalSupply unchanged
                 if (burnPercentage > 0) {
-                    address[] memory path = new address[](2);
-                    path[0] = address(usdc);
-                    path[1] = address(token);
-                    
-                    // Calculate how much USDC is needed to buy tokensForMint tokens
-                    uint256 exactUSDNeeded;
-                    try uniswapRouter.getAmountsIn(tokensForMint, path) returns (uint256[] memory _amounts) {
-                        exactUSDNeeded = _amounts[0];
-                    } catch {
-                        revert("Failed to calculate USDC needed for tokens");
-                    }
-                    
-                    // Add 1% slippage tolerance
-                    uint256 maxUSDNeeded = (exactUSDNeeded * 101) / 100;
-                    if (maxUSDNeeded > usdc.balanceOf(address(this))) {
-                        revert("Not enough USDC to buy tokens");
-                    }
-                    
-                    usdc.approve(address(uniswapRouter), maxUSDNeeded);
-                    
-                    // Buy exact amount of tokens from pool (USDC -> Token)
-                    try uniswapRouter.swapTokensForExactTokens(tokensForMint, maxUSDNeeded, path, address(this), block.timestamp) returns (uint256[] memory) {
-                        // Burn received tokens to keep totalSupply unchanged
-                        Token(token).burn(tokensForMint);
-                    } catch {
-                        revert("Failed to buy back tokens: pool has no liquidity");
+                    // Funding doesn't wait for the router, the amount is bought back after unpause
+                    if (IManagerRegistry(managerRegistry).isPaused(PAUSE_BUYBACK)) {
+                        pendingBuybackAmount += tokensForMint;
+                        emit BuybackDeferred(_projectId, tokensForMint);
+                    } else {
+                        _buyback(tokensForMint);
                     }
                 }
             }
         }
     }
 
+    /// @notice Buy back and burn tokens deferred while buyback was paused
+    function executePendingBuyback() external onlyRole(ROLE_REWARD_OPERATOR) whenNotPaused(PAUSE_BUYBACK) {
+        uint256 amount = pendingBuybackAmount;
+        require(amount > 0, "No pending buyback");
+        pendingBuybackAmount = 0;
+        _buyback(amount);
+        emit BuybackExecuted(amount);
+    }
+
+    /// @notice Buy exact amount of tokens from pool (USDC -> Token) and burn them
+    /// @param _tokensAmount Token amount
+    function _buyback(uint256 _tokensAmount) internal {
+        address[] memory path = new address[](2);
+        path[0] = address(usdc);
+        path[1] = address(token);
+
+        // Calculate how much USDC is needed to buy _tokensAmount tokens
+        uint256 exactUSDNeeded;
+        try uniswapRouter.getAmountsIn(_tokensAmount, path) returns (uint256[] memory _amounts) {
+            exactUSDNeeded = _amounts[0];
+        } catch {
+            revert("Failed to calculate USDC needed for tokens");
+        }
+
+        // Add 1% slippage tolerance
+        uint256 maxUSDNeeded = (exactUSDNeeded * 101) / 100;
+        if (maxUSDNeeded > usdc.balanceOf(address(this))) {
+            revert("Not enough USDC to buy tokens");
+        }
+
+        usdc.approve(address(uniswapRouter), maxUSDNeeded);
+
+        // Buy exact amount of tokens from pool (USDC -> Token)
+        try uniswapRouter.swapTokensForExactTokens(_tokensAmount, maxUSDNeeded, path, address(this), block.timestamp) returns (uint256[] memory) {
+            // Burn received tokens to keep totalSupply unchanged
+            Token(token).burn(_tokensAmount);
+        } catch {
+            revert("Failed to buy back tokens: pool has no liquidity");
+        }
+    }
+
+    /// @notice Void rewards of cancelled project (called by Fundraise)
+    /// @param _projectId Project ID
+    function voidProjectRewards(uint256 _projectId) external onlyFundraise {
+        _voidProjectRewards(_projectId);
+    }
+
+    /// @notice Clear rewards of refunded investor and referral bonus of its inviter (called by Fundraise).
+    /// Welcome bonus voided with the project is recorded again with the next investment.
+    /// @param _user Refunded investor
+    /// @param _projectId Project ID
+    function voidReferrals(address _user, uint256 _projectId) external onlyFundraise {
+        // Projects cancelled before voiding was introduced are voided with their first refund
+        _voidProjectRewards(_projectId);
+        delete projectReferrals[_user][_projectId];
+        emit ReferralsVoided(_user, _projectId);
+
+        if (welcomeBonusProject[_user] == _projectId + 1) {
+            delete welcomeBonusProject[_user];
+            users[_user].isNewUser = true;
+        }
+
+        address inviter = users[_user].inviter;
+        if (inviter != address(0) && projectReferrals[inviter][_projectId].totalRewardsUSDC > 0) {
+            delete projectReferrals[inviter][_projectId];
+            emit ReferralsVoided(inviter, _projectId);
+        }
+    }
+
+    function _voidProjectRewards(uint256 _projectId) internal {
+        if (projectRewardsVoided[_projectId]) return;
+        projectRewardsVoided[_projectId] = true;
+        emit ProjectRewardsVoided(_projectId, rewardTokensAmount[_projectId]);
+        rewardTokensAmount[_projectId] = 0;
+    }
+
+    /// @notice Move vesting tokens together with transferred investment position (called by Fundraise)
+    /// @dev USDC rewards (referral and welcome bonuses) stay with the original investor
+    /// @param _from Investor
+    /// @param _to New holder of the position
+    /// @param _projectId Project ID
+    /// @param _amount Transferred part of investment
+    /// @param _invested Investment of _from before transfer
+    function transferVesting(address _from, address _to, uint256 _projectId, uint256 _amount, uint256 _invested)
+        external
+        onlyFundraise
+    {
+        ReferralData storage fromData = projectReferrals[_from][_projectId];
+        uint256 tokens = (fromData.totalRewardsTokens * _amount) / _invested;
+        if (tokens == 0) return;
+        uint256 claimed = (fromData.vestingClaimedAmount * _amount) / _invested;
+
+        fromData.totalRewardsTokens -= tokens;
+        fromData.vestingClaimedAmount -= claimed;
+
+        ReferralData storage toData = projectReferrals[_to][_projectId];
+        toData.totalRewardsTokens += tokens;
+        toData.vestingClaimedAmount += claimed;
+
+        emit VestingTransferred(_from, _to, tokens, _projectId);
+    }
+
     /// @notice Claim USDC rewards for project
     /// @param _projectId Project ID
-    function claimUSDCForProject(uint256 _projectId) external nonReentrant {
+    function claimUSDCForProject(uint256 _projectId) external nonReentrant whenNotPaused(PAUSE_REWARD_CLAIM) {
         require(projectVestingStartTime[_projectId] > 0, "Project rewards not activated");
 
         ReferralData storage refData = projectReferrals[msg.sender][_projectId];
@@ -263,7 +397,7 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
 
     /// @notice Claim vesting tokens for project
     /// @param _projectId Project ID
-    function claimTokensForProject(uint256 _projectId) external nonReentrant {
+    function claimTokensForProject(uint256 _projectId) external nonReentrant whenNotPaused(PAUSE_REWARD_CLAIM) {
         require(projectVestingStartTime[_projectId] > 0, "Project rewards not activated");
 
         ReferralData storage refData = projectReferrals[msg.sender][_projectId];
@@ -275,20 +409,22 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
 
         refData.vestingClaimedAmount += claimableAmount;
 
+        // RewardSystem is exempt from Token transfer restrictions as sender
         address claimAddress = IManagerRegistry(managerRegistry).getInvestorClaimAddress(msg.sender);
-        
-        IManagerRegistry(managerRegistry).setPoolStatusForReward(claimAddress, true);
         IERC20(address(token)).safeTransfer(claimAddress, claimableAmount);
-        IManagerRegistry(managerRegistry).setPoolStatusForReward(claimAddress, false);
 
         rewardTokensClaimedAmount[_projectId] += claimableAmount;
         emit VestingTokensClaimed(msg.sender, claimableAmount, _projectId);
     }
 
-    /// @notice Send USDC rewards for project to user (manager only)
+    /// @notice Send USDC rewards for project to user (reward operator only)
     /// @param _user User address
     /// @param _projectId Project ID
-    function sendUSDCForProjectToUser(address _user, uint256 _projectId) external onlyManager {
+    function sendUSDCForProjectToUser(address _user, uint256 _projectId)
+        public
+        onlyRole(ROLE_REWARD_OPERATOR)
+        whenNotPaused(PAUSE_REWARD_CLAIM)
+    {
         require(_user != address(0), "Invalid user address");
         require(projectVestingStartTime[_projectId] > 0, "Project rewards not activated");
 
@@ -304,10 +440,14 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
         emit BonusUSDCClaimed(_user, amount, _projectId);
     }
 
-    /// @notice Send vesting tokens for project to user (manager only)
+    /// @notice Send vesting tokens for project to user (reward operator only)
     /// @param _user User address
     /// @param _projectId Project ID
-    function sendTokensForProjectToUser(address _user, uint256 _projectId) external onlyManager {
+    function sendTokensForProjectToUser(address _user, uint256 _projectId)
+        public
+        onlyRole(ROLE_REWARD_OPERATOR)
+        whenNotPaused(PAUSE_REWARD_CLAIM)
+    {
         require(_user != address(0), "Invalid user address");
         require(projectVestingStartTime[_projectId] > 0, "Project rewards not activated");
 
@@ -321,9 +461,7 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
         refData.vestingClaimedAmount += claimableAmount;
 
         address claimAddress = IManagerRegistry(managerRegistry).getInvestorClaimAddress(_user);
-        IManagerRegistry(managerRegistry).setPoolStatusForReward(claimAddress, true);
         IERC20(address(token)).safeTransfer(claimAddress, claimableAmount);
-        IManagerRegistry(managerRegistry).setPoolStatusForReward(claimAddress, false);
 
         rewardTokensClaimedAmount[_projectId] += claimableAmount;
         emit VestingTokensClaimed(_user, claimableAmount, _projectId);
@@ -347,6 +485,30 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
         return userReferrals[_inviter].length;
     }
 
+    /// @notice Accept loan token for rewards (reward operator only)
+    /// @param _loanToken Loan token address
+    /// @param _decimals Loan token decimals
+    /// @param _pricePath Uniswap path from loan token to token, e.g. [DAI, USDC, token]
+    function setLoanToken(address _loanToken, uint8 _decimals, address[] calldata _pricePath)
+        external
+        onlyRole(ROLE_REWARD_OPERATOR)
+        validAddress(_loanToken)
+    {
+        require(
+            _pricePath.length >= 2 && _pricePath[0] == _loanToken && _pricePath[_pricePath.length - 1] == token,
+            "Invalid price path"
+        );
+        loanTokens[_loanToken] = LoanToken(true, _decimals, _pricePath);
+        emit LoanTokenSet(_loanToken, true, _decimals, _pricePath);
+    }
+
+    /// @notice Stop rewarding investments in loan token (reward operator only)
+    /// @param _loanToken Loan token address
+    function removeLoanToken(address _loanToken) external onlyRole(ROLE_REWARD_OPERATOR) {
+        delete loanTokens[_loanToken];
+        emit LoanTokenSet(_loanToken, false, 0, new address[](0));
+    }
+
     /// @notice Update contracts (owner only)
     function updateContracts(address _managerRegistry, address _token, address _usdc)
         external
@@ -374,7 +536,7 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
         uint256 _minInvestmentForBonus,
         uint256 _weeklyUnlock,
         uint256 _vestingWeeks
-    ) external onlyManager {
+    ) external onlyRole(ROLE_REWARD_OPERATOR) {
         require(
             _referralPercentage >= 1_000 && _referralPercentage <= 1_000_000,
             "Referral percentage must be between 1000 and 1000000"
@@ -416,7 +578,8 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
             totalUnlocked = refData.totalRewardsTokens;
         }
 
-        return totalUnlocked - refData.vestingClaimedAmount;
+        // Proportional split of a transferred position can leave claimed amount slightly above unlocked one
+        return totalUnlocked > refData.vestingClaimedAmount ? totalUnlocked - refData.vestingClaimedAmount : 0;
     }
 
     /// @notice Get vesting information for project
@@ -513,19 +676,25 @@ contract RewardSystem is Initializable, UUPSUpgradeable, OwnableUpgradeable, Ree
         IERC20(_token).safeTransfer(_recepient, _amount);
     }
 
-    function sendTokensForProjectToUserBatch(address[] calldata _users, uint256[] calldata _projectIds) external onlyManager {
+    function sendTokensForProjectToUserBatch(address[] calldata _users, uint256[] calldata _projectIds)
+        external
+        onlyRole(ROLE_REWARD_OPERATOR)
+    {
         require(_users.length == _projectIds.length, "Users and projectIds length mismatch");
         require(_users.length > 0, "Empty arrays");
         for (uint256 i = 0; i < _users.length; i++) {
-            this.sendTokensForProjectToUser(_users[i], _projectIds[i]);
+            sendTokensForProjectToUser(_users[i], _projectIds[i]);
         }
     }
 
-    function sendUSDCForProjectToUserBatch(address[] calldata _users, uint256[] calldata _projectIds) external onlyManager {
+    function sendUSDCForProjectToUserBatch(address[] calldata _users, uint256[] calldata _projectIds)
+        external
+        onlyRole(ROLE_REWARD_OPERATOR)
+    {
         require(_users.length == _projectIds.length, "Users and projectIds length mismatch");
         require(_users.length > 0, "Empty arrays");
         for (uint256 i = 0; i < _users.length; i++) {
-            this.sendUSDCForProjectToUser(_users[i], _projectIds[i]);
+            sendUSDCForProjectToUser(_users[i], _projectIds[i]);
         }
     }
 }
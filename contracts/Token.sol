@@ -11,6 +11,7 @@ contract Token is ERC20, Ownable {
     bool public canDisableBuying = true;
 
     address public managerRegistry;
+    mapping(address => mapping(uint256 => uint256)) public dailyTransferred; // sender => day => amount
 
     event BuyingEnabled();
     event BuyingDisabled();
@@ -21,13 +22,12 @@ contract Token is ERC20, Ownable {
         _;
     }
 
-    modifier canTransfer(address to) {
+    // Rules of ManagerRegistry: pools, RewardSystem, sender and recipient allowlists, daily cap of sender (not for pools)
+    modifier canTransfer(address from, address to, uint256 amount) {
         if (!buyingEnabled) {
             require(managerRegistry != address(0), "Token: Manager registry not set");
-            if (
-                IManagerRegistry(managerRegistry).isPool(address(to))
-                    || IManagerRegistry(managerRegistry).isRewardSystem(address(to))
-            ) {
+            if (IManagerRegistry(managerRegistry).isTokenTransferAllowed(from, to)) {
+                _useDailyCap(from, to, amount);
                 _;
             } else {
                 revert("Token: Buying is disabled");
@@ -87,6 +87,17 @@ contract Token is ERC20, Ownable {
         managerRegistry = _managerRegistry;
     }
 
+    function canTransferAmount(address from, address to, uint256 amount) external view returns (bool) {
+        if (buyingEnabled) {
+            return true;
+        }
+        if (managerRegistry == address(0) || !IManagerRegistry(managerRegistry).isTokenTransferAllowed(from, to)) {
+            return false;
+        }
+        uint256 cap = IManagerRegistry(managerRegistry).tokenDailyCaps(from);
+        return cap == 0 || IManagerRegistry(managerRegistry).isPool(to) || dailyTransferred[from][block.timestamp / 1 days] + amount <= cap;
+    }
+
     function canBuy(address buyer) external view returns (bool) {
         if (managerRegistry == address(0)) {
             return buyingEnabled;
@@ -94,7 +105,13 @@ contract Token is ERC20, Ownable {
         return buyingEnabled || IManagerRegistry(managerRegistry).isPool(buyer);
     }
 
-    function transfer(address to, uint256 amount) public virtual override canTransfer(to) returns (bool) {
+    function transfer(address to, uint256 amount)
+        public
+        virtual
+        override
+        canTransfer(msg.sender, to, amount)
+        returns (bool)
+    {
         return super.transfer(to, amount);
     }
 
@@ -102,9 +119,19 @@ contract Token is ERC20, Ownable {
         public
         virtual
         override
-        canTransfer(to)
+        canTransfer(from, to, amount)
         returns (bool)
     {
         return super.transferFrom(from, to, amount);
     }
+
+    // Sells to pools are not capped, the cap limits transfers between holders
+    function _useDailyCap(address from, address to, uint256 amount) internal {
+        uint256 cap = IManagerRegistry(managerRegistry).tokenDailyCaps(from);
+        if (cap != 0 && !IManagerRegistry(managerRegistry).isPool(to)) {
+            uint256 day = block.timestamp / 1 days;
+            dailyTransferred[from][day] += amount;
+            require(dailyTransferred[from][day] <= cap, "Token: Daily cap exceeded");
+        }
+    }
 }
\ No newline at end of file
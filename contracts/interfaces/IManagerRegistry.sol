@@ -2,14 +2,27 @@
 
 pragma solidity ^0.8.23;
 
+/// @dev Actions which can be paused in ManagerRegistry
+bytes32 constant PAUSE_INVEST = keccak256("INVEST");
+bytes32 constant PAUSE_CLAIM = keccak256("CLAIM");
+bytes32 constant PAUSE_REWARD_CLAIM = keccak256("REWARD_CLAIM");
+bytes32 constant PAUSE_BUYBACK = keccak256("BUYBACK");
+
+/// @dev Roles of ManagerRegistry
+bytes32 constant ROLE_PROJECT_ADMIN = keccak256("PROJECT_ADMIN_ROLE");
+bytes32 constant ROLE_REPAYMENT_OPERATOR = keccak256("REPAYMENT_OPERATOR_ROLE");
+bytes32 constant ROLE_REWARD_OPERATOR = keccak256("REWARD_OPERATOR_ROLE");
+bytes32 constant ROLE_SIGNER_ADMIN = keccak256("SIGNER_ADMIN_ROLE");
+bytes32 constant ROLE_GUARDIAN = keccak256("GUARDIAN_ROLE");
+
 interface IManagerRegistry {
-    function isManager(address sender) external view returns (bool);
+    function hasRole(bytes32 _role, address _account) external view returns (bool);
     function isFundraise(address sender) external view returns (bool);
     function isTreasury(address sender) external view returns (bool);
     function isRewardSystem(address sender) external view returns (bool);
     function isPool(address sender) external view returns (bool);
-    function setManagerStatus(address _manager, bool _status) external;
-    function setManagerStatusBatch(address[] memory _managers, bool[] memory _statuses) external;
+    function grantRole(bytes32 _role, address _account) external;
+    function revokeRole(bytes32 _role, address _account) external;
     function setContractAddresses(address _rewardSystemAddress, address _fundraiseAddress, address _treasuryAddress)
         external;
     function rewardSystemAddress() external view returns (address);
@@ -19,4 +32,7 @@ interface IManagerRegistry {
     function setPoolStatusForReward(address _pool, bool _status) external;
     function setInvestorClaimAddress(address _investor, address _claimAddress) external;
     function getInvestorClaimAddress(address _investor) external view returns (address);
+    function isPaused(bytes32 _action) external view returns (bool);
+    function isTokenTransferAllowed(address _from, address _to) external view returns (bool);
+    function tokenDailyCaps(address _account) external view returns (uint256);
 }
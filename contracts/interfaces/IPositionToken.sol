@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+interface IPositionToken {
+    function mint(address _investor, uint256 _projectId, uint256 _amount) external;
+    function burn(address _investor, uint256 _projectId, uint256 _amount) external;
+    function move(address _from, address _to, uint256 _projectId, uint256 _amount) external;
+}
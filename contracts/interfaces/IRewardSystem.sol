@@ -2,8 +2,14 @@
 pragma solidity ^0.8.23;
 
 interface IRewardSystem {
-    function recordInvestment(address _user, uint256 _amount, address _inviter, uint256 _projectId) external;
+    function recordInvestment(address _user, uint256 _amount, address _inviter, uint256 _projectId, address _loanToken)
+        external;
+    function isLoanTokenAccepted(address _loanToken) external view returns (bool);
     function activateProjectRewards(uint256 _projectId, uint256 _burnFee) external;
+    function transferVesting(address _from, address _to, uint256 _projectId, uint256 _amount, uint256 _invested)
+        external;
+    function voidProjectRewards(uint256 _projectId) external;
+    function voidReferrals(address _user, uint256 _projectId) external;
     function claimUSDCForProject(uint256 _projectId) external;
     function claimTokensForProject(uint256 _projectId) external;
     function sendUSDCForProjectToUser(address _user, uint256 _projectId) external;
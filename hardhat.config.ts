@@ -17,11 +17,12 @@ const config: HardhatUserConfig = {
             {
                 version: '0.8.23',
                 settings: {
+                    viaIR: true,
                     optimizer: {
                         enabled: true,
-                        runs: 1000,
+                        runs: 200,
                         details: {
-                            yul: false
+                            yul: true
                         }
                     },
                 },
@@ -87,7 +88,7 @@ const config: HardhatUserConfig = {
         runOnCompile: true,
         clear: true,
         flat: true,
-        only: [':Fundraise$', ':RewardSystem$', ':Treasury$', ':Token$', ':ManagerRegistry$'],
+        only: [':Fundraise$', ':RewardSystem$', ':Treasury$', ':Token$', ':ManagerRegistry$', ':PositionToken$', ':AdminTimelock$'],
         spacing: 2,
         format: 'json',
     },
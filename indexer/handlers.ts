@@ -0,0 +1,226 @@
+import { Interface, Log, LogDescription } from "ethers";
+import { Prisma } from "@prisma/client";
+import { Fundraise__factory, RewardSystem__factory } from "../typechain-types";
+
+export const fundraiseInterface: Interface = Fundraise__factory.createInterface();
+export const rewardSystemInterface: Interface = RewardSystem__factory.createInterface();
+
+/**
+ * Rows parsed from a range of logs, grouped by table
+ */
+export interface IndexedRows {
+  projects: Prisma.ProjectCreateManyInput[];
+  investments: Prisma.InvestmentCreateManyInput[];
+  withdrawals: Prisma.InvestmentWithdrawalCreateManyInput[];
+  transfers: Prisma.PositionTransferCreateManyInput[];
+  claims: Prisma.ClaimCreateManyInput[];
+  repayments: Prisma.RepaymentCreateManyInput[];
+  statusChanges: Prisma.ProjectStatusChangeCreateManyInput[];
+  fundings: Prisma.ProjectFundingCreateManyInput[];
+  openStatusChanges: Prisma.ProjectOpenStatusChangeCreateManyInput[];
+  registrations: Prisma.UserRegistrationCreateManyInput[];
+  referrals: Prisma.ReferralCreateManyInput[];
+  vesting: Prisma.VestingCreateManyInput[];
+  /** Projects whose materialized state has to be recomputed */
+  touchedProjects: Set<number>;
+}
+
+export function emptyRows(): IndexedRows {
+  return {
+    projects: [],
+    investments: [],
+    withdrawals: [],
+    transfers: [],
+    claims: [],
+    repayments: [],
+    statusChanges: [],
+    fundings: [],
+    openStatusChanges: [],
+    registrations: [],
+    referrals: [],
+    vesting: [],
+    touchedProjects: new Set(),
+  };
+}
+
+function position(log: Log) {
+  return {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+  };
+}
+
+const REPAYMENT_KINDS: Record<string, string> = {
+  InterestRepayment: "interest",
+  PrincipalRepayment: "principal",
+  RecoveryPayment: "recovery",
+};
+
+const address = (value: string) => value.toLowerCase();
+const amount = (value: bigint) => value.toString();
+
+function handleFundraiseEvent(rows: IndexedRows, event: LogDescription, log: Log) {
+  const args = event.args;
+  const pos = position(log);
+
+  switch (event.name) {
+    case "ProjectCreated": {
+      const projectId = Number(args.projectId);
+      rows.projects.push({
+        id: projectId,
+        borrower: address(args.borrower),
+        projectHash: amount(args.projectHash),
+        createdBlock: log.blockNumber,
+        createdTxHash: log.transactionHash,
+        updatedBlock: log.blockNumber,
+      });
+      rows.touchedProjects.add(projectId);
+      return;
+    }
+    case "Invest":
+      rows.investments.push({
+        projectId: Number(args.projectId),
+        investor: address(args.investor),
+        amount: amount(args.amount),
+        ...pos,
+      });
+      break;
+    case "WithdrawInvestment":
+      rows.withdrawals.push({
+        projectId: Number(args.projectId),
+        investor: address(args.investor),
+        amount: amount(args.amount),
+        ...pos,
+      });
+      break;
+    case "PositionTransferred":
+      rows.transfers.push({
+        projectId: Number(args.projectId),
+        from: address(args.from),
+        to: address(args.to),
+        amount: amount(args.amount),
+        claimed: amount(args.claimed),
+        ...pos,
+      });
+      break;
+    case "Claimed":
+      rows.claims.push({
+        projectId: Number(args.projectId),
+        investor: address(args.investor),
+        amount: amount(args.claimed),
+        ...pos,
+      });
+      break;
+    case "InterestRepayment":
+    case "PrincipalRepayment":
+    case "RecoveryPayment":
+      rows.repayments.push({
+        projectId: Number(args.projectId),
+        kind: REPAYMENT_KINDS[event.name],
+        amount: amount(args.amount),
+        ...pos,
+      });
+      break;
+    case "ProjectStatusChanged":
+      rows.statusChanges.push({ projectId: Number(args.projectId), stage: Number(args.status), ...pos });
+      break;
+    case "ProjectFunded":
+      rows.fundings.push({
+        projectId: Number(args.projectId),
+        borrower: address(args.borrower),
+        totalInvested: amount(args.totalInvested),
+        platformFee: amount(args.platformFee),
+        ...pos,
+      });
+      break;
+    case "ProjectOpenStatusSet":
+      rows.openStatusChanges.push({ projectId: Number(args.projectId), isOpen: args.isOpen, ...pos });
+      break;
+    default:
+      // ProjectUpdated, ProjectDefaulted (followed by ProjectStatusChanged), InvestorClaimAddressSet,
+      // transfer approvals, receipt token settings, fee splits (ProjectFunded has the total fee),
+      // ThirdPartyRepayment (amounts are in Interest/PrincipalRepayment) and upgrade events
+      // don't change indexed state
+      return;
+  }
+  rows.touchedProjects.add(Number(args.projectId));
+}
+
+function handleRewardSystemEvent(rows: IndexedRows, event: LogDescription, log: Log) {
+  const args = event.args;
+  const pos = position(log);
+
+  switch (event.name) {
+    case "UserRegistered":
+      rows.registrations.push({ user: address(args.user), inviter: address(args.inviter), ...pos });
+      break;
+    case "ReferralBonusRecorded":
+      rows.referrals.push({
+        kind: "referral",
+        user: address(args.user),
+        child: address(args.child),
+        projectId: Number(args.projectId),
+        amount: amount(args.amount),
+        ...pos,
+      });
+      break;
+    case "WelcomeBonusRecorded":
+      rows.referrals.push({ kind: "welcome", user: address(args.user), amount: amount(args.amount), ...pos });
+      break;
+    case "ProjectRewardsActivated":
+      rows.vesting.push({ kind: "activated", projectId: Number(args.projectId), ...pos });
+      break;
+    case "ProjectRewardsVoided":
+      rows.vesting.push({
+        kind: "voided",
+        projectId: Number(args.projectId),
+        amount: amount(args.tokensAmount),
+        ...pos,
+      });
+      break;
+    case "ReferralsVoided":
+      rows.vesting.push({
+        kind: "referralsVoided",
+        projectId: Number(args.projectId),
+        user: address(args.user),
+        ...pos,
+      });
+      break;
+    case "BonusUSDCClaimed":
+    case "VestingTokensClaimed":
+      rows.vesting.push({
+        kind: event.name === "BonusUSDCClaimed" ? "usdcClaimed" : "tokensClaimed",
+        projectId: Number(args.projectId),
+        user: address(args.user),
+        amount: amount(args.amount),
+        ...pos,
+      });
+      break;
+    default:
+      // InvestmentRecorded duplicates Fundraise.Invest, VestingTransferred follows Fundraise.PositionTransferred,
+      // LoanTokenSet is configuration
+      break;
+  }
+}
+
+/**
+ * Parses logs of Fundraise and RewardSystem into table rows. Unknown logs are skipped.
+ */
+export function parseLogs(logs: Log[], fundraise: string, rewardSystem?: string): IndexedRows {
+  const rows = emptyRows();
+  for (const log of logs) {
+    if (log.removed) continue;
+
+    const emitter = log.address.toLowerCase();
+    if (emitter === fundraise.toLowerCase()) {
+      const event = fundraiseInterface.parseLog(log);
+      if (event) handleFundraiseEvent(rows, event, log);
+    } else if (rewardSystem && emitter === rewardSystem.toLowerCase()) {
+      const event = rewardSystemInterface.parseLog(log);
+      if (event) handleRewardSystemEvent(rows, event, log);
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,67 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import { JsonRpcProvider } from "ethers";
+import { PrismaClient } from "@prisma/client";
+import { EventIndexer } from "./indexer";
+
+dotenv.config();
+
+/**
+ * Event indexer for Fundraise and RewardSystem
+ *
+ * Env:
+ *   RPC_URL                - node url
+ *   DATABASE_URL           - postgres url for prisma
+ *   INDEXER_START_BLOCK    - first block when there is no checkpoint, usually Fundraise deployment block
+ *   INDEXER_BATCH_SIZE     - blocks per eth_getLogs request, 2000 by default
+ *   INDEXER_POLL_INTERVAL  - delay between polls at chain head in ms, 5000 by default
+ *   INDEXER_REORG_DEPTH    - how many recent block hashes are kept, 64 by default
+ *
+ * Fundraise and RewardSystem addresses are read from scripts/config/<chainId>-config.json
+ *
+ * Usage: npx ts-node indexer/index.ts
+ */
+async function main() {
+  if (!process.env.RPC_URL) {
+    throw new Error("RPC_URL not found in env");
+  }
+
+  const provider = new JsonRpcProvider(process.env.RPC_URL);
+  const net = await provider.getNetwork();
+  const config = JSON.parse(
+    fs.readFileSync(path.join(__dirname, `../scripts/config/${net.chainId}-config.json`), "utf8")
+  );
+  if (!config.Fundraise) {
+    throw new Error("Fundraise address not found in config");
+  }
+
+  const prisma = new PrismaClient();
+  const indexer = new EventIndexer(provider, prisma, {
+    name: `${net.chainId}-${config.Fundraise.toLowerCase()}`,
+    fundraise: config.Fundraise,
+    rewardSystem: config.RewardSystem,
+    startBlock: Number(process.env.INDEXER_START_BLOCK || 0),
+    batchSize: Number(process.env.INDEXER_BATCH_SIZE || 2000),
+    pollInterval: Number(process.env.INDEXER_POLL_INTERVAL || 5000),
+    reorgDepth: Number(process.env.INDEXER_REORG_DEPTH || 64),
+  });
+
+  console.log(`🌐 Network: ${net.name} (chainId: ${net.chainId})`);
+  console.log(`📍 Fundraise: ${config.Fundraise}`);
+  console.log(`📍 RewardSystem: ${config.RewardSystem || "not set"}`);
+
+  const shutdown = () => indexer.stop();
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  await indexer.run();
+  await prisma.$disconnect();
+  console.log("👋 Indexer stopped");
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+  process.exit(1);
+});
@@ -0,0 +1,266 @@
+import { Log, Provider } from "ethers";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { IndexedRows, parseLogs } from "./handlers";
+
+type Tx = Prisma.TransactionClient;
+
+export interface IndexerOptions {
+  /** Checkpoint name, one per deployment */
+  name: string;
+  fundraise: string;
+  rewardSystem?: string;
+  /** First block to index when there is no checkpoint, usually the deployment block */
+  startBlock: number;
+  /** Max blocks per eth_getLogs request */
+  batchSize: number;
+  /** Delay between polls when the indexer is at the chain head, ms */
+  pollInterval: number;
+  /** How many recent block hashes are kept to find the common ancestor after a reorg */
+  reorgDepth: number;
+}
+
+const DEFAULT_OPTIONS = {
+  batchSize: 2000,
+  pollInterval: 5000,
+  reorgDepth: 64,
+};
+
+/**
+ * Follows Fundraise and RewardSystem events and writes them to Postgres.
+ *
+ * Every batch is written in one transaction together with the checkpoint, so the indexer
+ * can be restarted at any time. On restart or before every batch the checkpoint hash is
+ * compared with the chain, when it differs rows above the common ancestor are removed
+ * and indexing continues from there.
+ */
+export class EventIndexer {
+  private readonly options: IndexerOptions;
+  private stopped = false;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly prisma: PrismaClient,
+    options: Pick<IndexerOptions, "name" | "fundraise" | "rewardSystem" | "startBlock"> & Partial<IndexerOptions>
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+
+  async run() {
+    while (!this.stopped) {
+      const indexed = await this.syncOnce();
+      if (!indexed) {
+        await new Promise(resolve => setTimeout(resolve, this.options.pollInterval));
+      }
+    }
+  }
+
+  /**
+   * Indexes one batch of blocks. Returns false when there is nothing new.
+   */
+  async syncOnce(): Promise<boolean> {
+    const fromBlock = await this.resolveStartBlock();
+    const head = await this.provider.getBlockNumber();
+    if (fromBlock > head) {
+      return false;
+    }
+
+    const toBlock = Math.min(fromBlock + this.options.batchSize - 1, head);
+    const logs = await this.getLogs(fromBlock, toBlock);
+    const rows = parseLogs(logs, this.options.fundraise, this.options.rewardSystem);
+
+    // Hashes of blocks within reorg depth of the head, they are used later to find common ancestor
+    const hashes = await this.getRecentHashes(fromBlock, toBlock, head);
+    const toHash = hashes.get(toBlock)!;
+
+    // Logs of a block that was reorged between getLogs and getBlock are dropped and the batch is retried
+    if (logs.some(log => hashes.has(log.blockNumber) && hashes.get(log.blockNumber) !== log.blockHash)) {
+      console.log(`⚠️ Block hash changed while indexing ${fromBlock}-${toBlock}, retrying`);
+      return true;
+    }
+
+    await this.prisma.$transaction(
+      async tx => {
+        await this.writeRows(tx, rows);
+        for (const [number, hash] of hashes) {
+          await tx.indexedBlock.upsert({ where: { number }, create: { number, hash }, update: { hash } });
+        }
+        await tx.indexedBlock.deleteMany({ where: { number: { lt: toBlock - this.options.reorgDepth } } });
+        await this.refreshProjects(tx, rows.touchedProjects, toBlock);
+        await tx.indexerCheckpoint.upsert({
+          where: { name: this.options.name },
+          create: { name: this.options.name, blockNumber: toBlock, blockHash: toHash },
+          update: { blockNumber: toBlock, blockHash: toHash },
+        });
+      },
+      { timeout: 60_000 }
+    );
+
+    console.log(`✅ Indexed blocks ${fromBlock}-${toBlock}: ${logs.length} logs, ${rows.touchedProjects.size} projects`);
+    return true;
+  }
+
+  /**
+   * Next block to index. Rolls back to the common ancestor when checkpoint block is no longer canonical.
+   */
+  private async resolveStartBlock(): Promise<number> {
+    const checkpoint = await this.prisma.indexerCheckpoint.findUnique({ where: { name: this.options.name } });
+    if (!checkpoint) {
+      return this.options.startBlock;
+    }
+
+    const block = await this.provider.getBlock(checkpoint.blockNumber);
+    if (block && block.hash === checkpoint.blockHash) {
+      return checkpoint.blockNumber + 1;
+    }
+
+    const ancestor = await this.findCommonAncestor(checkpoint.blockNumber);
+    console.log(`⚠️ Reorg detected at block ${checkpoint.blockNumber}, rolling back to ${ancestor}`);
+    await this.rollback(ancestor);
+    return ancestor + 1;
+  }
+
+  private async findCommonAncestor(fromBlock: number): Promise<number> {
+    const known = await this.prisma.indexedBlock.findMany({
+      where: { number: { lte: fromBlock } },
+      orderBy: { number: "desc" },
+    });
+    for (const { number, hash } of known) {
+      const block = await this.provider.getBlock(number);
+      if (block && block.hash === hash) {
+        return number;
+      }
+    }
+    throw new Error(
+      `Reorg is deeper than ${this.options.reorgDepth} blocks, reset checkpoint "${this.options.name}" and reindex`
+    );
+  }
+
+  /**
+   * Removes everything indexed above the given block and recomputes affected projects
+   */
+  private async rollback(ancestor: number) {
+    const above = { blockNumber: { gt: ancestor } };
+    await this.prisma.$transaction(
+      async tx => {
+        const touched = new Set<number>();
+        const select = { projectId: true } as const;
+        const removed = await Promise.all([
+          tx.investment.findMany({ where: above, select }),
+          tx.investmentWithdrawal.findMany({ where: above, select }),
+          tx.positionTransfer.findMany({ where: above, select }),
+          tx.claim.findMany({ where: above, select }),
+          tx.repayment.findMany({ where: above, select }),
+          tx.projectStatusChange.findMany({ where: above, select }),
+          tx.projectFunding.findMany({ where: above, select }),
+          tx.projectOpenStatusChange.findMany({ where: above, select }),
+        ]);
+        removed.flat().forEach(row => touched.add(row.projectId));
+
+        await tx.investment.deleteMany({ where: above });
+        await tx.investmentWithdrawal.deleteMany({ where: above });
+        await tx.positionTransfer.deleteMany({ where: above });
+        await tx.claim.deleteMany({ where: above });
+        await tx.repayment.deleteMany({ where: above });
+        await tx.projectStatusChange.deleteMany({ where: above });
+        await tx.projectFunding.deleteMany({ where: above });
+        await tx.projectOpenStatusChange.deleteMany({ where: above });
+        await tx.userRegistration.deleteMany({ where: above });
+        await tx.referral.deleteMany({ where: above });
+        await tx.vesting.deleteMany({ where: above });
+        await tx.project.deleteMany({ where: { createdBlock: { gt: ancestor } } });
+        await tx.indexedBlock.deleteMany({ where: { number: { gt: ancestor } } });
+
+        const existing = await tx.project.findMany({ where: { id: { in: [...touched] } }, select: { id: true } });
+        await this.refreshProjects(tx, new Set(existing.map(project => project.id)), ancestor);
+
+        const hash = (await tx.indexedBlock.findUnique({ where: { number: ancestor } }))!.hash;
+        await tx.indexerCheckpoint.update({
+          where: { name: this.options.name },
+          data: { blockNumber: ancestor, blockHash: hash },
+        });
+      },
+      { timeout: 60_000 }
+    );
+  }
+
+  private async getLogs(fromBlock: number, toBlock: number): Promise<Log[]> {
+    const addresses = [this.options.fundraise];
+    if (this.options.rewardSystem) {
+      addresses.push(this.options.rewardSystem);
+    }
+    const logs = await this.provider.getLogs({ address: addresses, fromBlock, toBlock });
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+
+  /**
+   * Hashes of the batch blocks that are within reorg depth of the head, plus the last block of the batch
+   */
+  private async getRecentHashes(fromBlock: number, toBlock: number, head: number) {
+    const hashes = new Map<number, string>();
+    const from = Math.min(Math.max(fromBlock, head - this.options.reorgDepth), toBlock);
+    for (let number = from; number <= toBlock; number++) {
+      const block = await this.provider.getBlock(number);
+      if (!block || !block.hash) {
+        throw new Error(`Block ${number} not found`);
+      }
+      hashes.set(number, block.hash);
+    }
+    return hashes;
+  }
+
+  private async writeRows(tx: Tx, rows: IndexedRows) {
+    const options = { skipDuplicates: true };
+    if (rows.projects.length) await tx.project.createMany({ data: rows.projects, ...options });
+    if (rows.investments.length) await tx.investment.createMany({ data: rows.investments, ...options });
+    if (rows.withdrawals.length) await tx.investmentWithdrawal.createMany({ data: rows.withdrawals, ...options });
+    if (rows.transfers.length) await tx.positionTransfer.createMany({ data: rows.transfers, ...options });
+    if (rows.claims.length) await tx.claim.createMany({ data: rows.claims, ...options });
+    if (rows.repayments.length) await tx.repayment.createMany({ data: rows.repayments, ...options });
+    if (rows.statusChanges.length) await tx.projectStatusChange.createMany({ data: rows.statusChanges, ...options });
+    if (rows.fundings.length) await tx.projectFunding.createMany({ data: rows.fundings, ...options });
+    if (rows.openStatusChanges.length)
+      await tx.projectOpenStatusChange.createMany({ data: rows.openStatusChanges, ...options });
+    if (rows.registrations.length) await tx.userRegistration.createMany({ data: rows.registrations, ...options });
+    if (rows.referrals.length) await tx.referral.createMany({ data: rows.referrals, ...options });
+    if (rows.vesting.length) await tx.vesting.createMany({ data: rows.vesting, ...options });
+  }
+
+  /**
+   * Recomputes materialized project state from event tables
+   */
+  private async refreshProjects(tx: Tx, projectIds: Set<number>, blockNumber: number) {
+    const latest = { orderBy: [{ blockNumber: "desc" as const }, { logIndex: "desc" as const }] };
+
+    for (const projectId of projectIds) {
+      const where = { projectId };
+      const [invested, withdrawn, repaid, claimed, status, funding, openStatus] = await Promise.all([
+        tx.investment.aggregate({ where, _sum: { amount: true } }),
+        tx.investmentWithdrawal.aggregate({ where, _sum: { amount: true } }),
+        tx.repayment.aggregate({ where, _sum: { amount: true } }),
+        tx.claim.aggregate({ where, _sum: { amount: true } }),
+        tx.projectStatusChange.findFirst({ where, ...latest }),
+        tx.projectFunding.findFirst({ where, ...latest }),
+        tx.projectOpenStatusChange.findFirst({ where, ...latest }),
+      ]);
+
+      const zero = new Prisma.Decimal(0);
+      await tx.project.updateMany({
+        where: { id: projectId },
+        data: {
+          stage: status?.stage ?? 0,
+          isOpen: openStatus?.isOpen ?? false,
+          totalInvested: (invested._sum.amount ?? zero).minus(withdrawn._sum.amount ?? zero),
+          totalRepaid: repaid._sum.amount ?? zero,
+          totalClaimed: claimed._sum.amount ?? zero,
+          platformFee: funding?.platformFee ?? zero,
+          fundedBlock: funding?.blockNumber ?? null,
+          updatedBlock: blockNumber,
+        },
+      });
+    }
+  }
+}
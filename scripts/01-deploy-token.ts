@@ -27,6 +27,7 @@ async function main() {
   console.log("\n✅ Token successfully deployed");
   console.log("Token address:", await Token.getAddress());
   console.log("⚠️  Note: ManagerRegistry must be set later using setManagerRegistry()");
+  console.log("⚠️  Note: on redeploy move RewardSystem, pools and holders to the new Token (README, Token Redeploy)");
 
   await writeJsonFile(filePath, config);
 }
@@ -3,6 +3,7 @@ import { ethers } from "hardhat";
 import fs from "fs";
 import path from "path";
 import { readJsonFile } from "./helpers";
+import { Role } from "./roles";
 
 dotenv.config();
 
@@ -63,13 +64,13 @@ async function main() {
     );
     const multicall3 = new ethers.Contract(config.multicall3, multicall3Abi, signer);
 
-    // Check if signer has manager permissions
+    // Check if signer can send rewards
     const managerRegistryAddress = await rewardSystem.managerRegistry();
     const managerRegistry = await ethers.getContractAt("ManagerRegistry", managerRegistryAddress);
-    const isManager = await managerRegistry.isManager(await signer.getAddress());
+    const isRewardOperator = await managerRegistry.hasRole(Role.RewardOperator, await signer.getAddress());
 
-    if (!isManager) {
-        throw new Error("❌ Not a manager in ManagerRegistry contract");
+    if (!isRewardOperator) {
+        throw new Error("❌ Signer has no REWARD_OPERATOR_ROLE in ManagerRegistry contract");
     }
 
     // Load wallet and project distribution data
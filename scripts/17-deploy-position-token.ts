@@ -0,0 +1,57 @@
+import dotenv from "dotenv";
+import hre, { ethers } from "hardhat";
+import { upgrades } from "hardhat";
+import { readJsonFile, writeJsonFile } from "./helpers";
+dotenv.config();
+
+async function main() {
+  const net = await ethers.provider.getNetwork();
+  console.log("\nNetwork name:", net.name, "\n");
+  let filePath = `./scripts/config/${net.chainId}-config.json`;
+  let config = await readJsonFile(filePath);
+
+  if (!config.Fundraise) {
+    throw new Error("Fundraise contract not found in config");
+  }
+
+  console.log("\nDeploying PositionToken contract");
+
+  const [signer] = await ethers.getSigners();
+  console.log("Signer:", await signer.getAddress());
+
+  const PositionTokenFactory = await hre.ethers.getContractFactory("PositionToken");
+  const PositionToken = await upgrades.deployProxy(PositionTokenFactory, [config.Fundraise], {
+    kind: "uups",
+    initializer: "initialize",
+  });
+  await PositionToken.waitForDeployment();
+  console.log("PositionToken deployed to:", await PositionToken.getAddress());
+
+  await new Promise(resolve => setTimeout(resolve, 12000));
+
+  const PositionToken_impl_addr = await upgrades.erc1967.getImplementationAddress(
+    await PositionToken.getAddress()
+  );
+  console.log("PositionToken implementation deployed to:", PositionToken_impl_addr);
+
+  config.PositionToken = await PositionToken.getAddress();
+  config.PositionToken_impl = PositionToken_impl_addr;
+  await writeJsonFile(filePath, config);
+
+  // Receipt tokens are enabled per project with Fundraise.setReceiptTokens
+  const fundraise = await ethers.getContractAt("Fundraise", config.Fundraise);
+  if ((await fundraise.owner()).toLowerCase() === (await signer.getAddress()).toLowerCase()) {
+    await (await fundraise.setPositionToken(config.PositionToken)).wait();
+    console.log("✅ Fundraise.positionToken updated");
+  } else {
+    console.log("⚠️ Signer is not Fundraise owner, call setPositionToken from the owner");
+  }
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+  process.exit(1);
+});
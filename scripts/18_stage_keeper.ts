@@ -0,0 +1,239 @@
+import dotenv from "dotenv";
+import { ethers } from "hardhat";
+import { Interface } from "ethers";
+import fs from "fs";
+import path from "path";
+import { readJsonFile, writeJsonFile } from "./helpers";
+import { Stage } from "./stage";
+import { dueTransition, DueTransition } from "./keeper";
+import { decodeBatchError } from "./batch";
+import { Role } from "./roles";
+
+dotenv.config();
+
+/**
+ * Number of projects to read in a single Multicall batch.
+ */
+const READ_BATCH_SIZE: number = 500;
+
+/**
+ * Maximum number of calls in one Fundraise.batch transaction.
+ */
+const MAX_CALLS_PER_BATCH: number = 50;
+
+/**
+ * Only simulate calls, nothing is sent.
+ */
+const DRY_RUN: boolean = process.env.DRY_RUN === "true";
+
+/**
+ * Path of the JSON report.
+ */
+const REPORT_PATH: string = process.env.KEEPER_REPORT || "./keeper-report.json";
+
+type ActionStatus = "sent" | "failed" | "dry-run" | "skipped";
+
+interface KeeperAction extends DueTransition {
+    projectId: number;
+    from: Stage;
+    status?: ActionStatus;
+    txHash?: string;
+    error?: string;
+}
+
+/**
+ * Revert reason of failed call if it can be decoded.
+ */
+function errorMessage(error: any): string {
+    return error?.reason ?? error?.shortMessage ?? error?.message ?? String(error);
+}
+
+/**
+ * Entrypoint of the stage keeper: scans all projects and advances those with a due stage transition.
+ */
+async function main() {
+    const net = await ethers.provider.getNetwork();
+    const filePath = `./scripts/config/${net.chainId}-config.json`;
+    const config = await readJsonFile(filePath);
+
+    if (!config.Fundraise) {
+        throw new Error("Fundraise address not found in config");
+    }
+    if (!config.multicall3) {
+        throw new Error("multicall3 address not found in config");
+    }
+
+    console.log("\n" + "=".repeat(80));
+    console.log(`🌐 Network: ${net.name} (chainId: ${net.chainId})`);
+    console.log(`📍 Fundraise: ${config.Fundraise}`);
+    console.log(`🧪 Dry run: ${DRY_RUN}`);
+    console.log("=".repeat(80) + "\n");
+
+    const [signer] = await ethers.getSigners();
+    const signerAddress = await signer.getAddress();
+    console.log(`👤 Signer: ${signerAddress}\n`);
+
+    const fundraise = await ethers.getContractAt("Fundraise", config.Fundraise, signer);
+    const fundraiseInterface = fundraise.interface;
+
+    const multicall3Abi = JSON.parse(
+        fs.readFileSync(path.join(__dirname, "../abis.others/Multicall3.json"), "utf8")
+    );
+    const multicall3 = new ethers.Contract(config.multicall3, multicall3Abi, signer);
+
+    const managerRegistry = await ethers.getContractAt("ManagerRegistry", await fundraise.managerRegistry());
+    // moveProjectStage needs PROJECT_ADMIN_ROLE
+    const isProjectAdmin = await managerRegistry.hasRole(Role.ProjectAdmin, signerAddress);
+    if (!isProjectAdmin) {
+        console.log("⚠️  Signer is not a project admin, only permissionless calls will be sent\n");
+    }
+
+    // Transitions are checked against block time, same as the contract does
+    const block = await ethers.provider.getBlock("latest");
+    const now = BigInt(block!.timestamp);
+    const projectCount = Number(await fundraise.projectCount());
+
+    // Read all projects in batches using Multicall3
+    const actions: KeeperAction[] = [];
+    const readBatches = Math.ceil(projectCount / READ_BATCH_SIZE);
+    console.log(`📚 Reading ${projectCount} projects in ${readBatches} batches\n`);
+
+    for (let batchIndex = 0; batchIndex < readBatches; batchIndex++) {
+        const start = batchIndex * READ_BATCH_SIZE;
+        const end = Math.min(start + READ_BATCH_SIZE, projectCount);
+
+        const readCalls = [];
+        for (let projectId = start; projectId < end; projectId++) {
+            readCalls.push({
+                target: config.Fundraise,
+                allowFailure: false,
+                callData: fundraiseInterface.encodeFunctionData("projects", [projectId]),
+            });
+        }
+        const results = await multicall3.aggregate3.staticCall(readCalls, { blockTag: block!.number });
+
+        for (let i = 0; i < results.length; i++) {
+            const project = fundraiseInterface.decodeFunctionResult("projects", results[i].returnData);
+            const stage = Number(project.innerStruct.stage) as Stage;
+            const transition = dueTransition(
+                {
+                    stage,
+                    startAt: project.startAt,
+                    openStageEndAt: project.openStageEndAt,
+                    preFundDuration: project.preFundDuration,
+                    softCap: project.softCap,
+                    hardCap: project.hardCap,
+                    totalInvested: project.totalInvested,
+                },
+                now
+            );
+            if (transition) {
+                actions.push({ projectId: start + i, from: stage, ...transition });
+            }
+        }
+    }
+
+    console.log(`🔍 Due transitions: ${actions.length}\n`);
+    for (const action of actions) {
+        console.log(
+            `   Project ${action.projectId}: ${Stage[action.from]} → ${Stage[action.to]} (${action.call}, ${action.reason})`
+        );
+    }
+    console.log();
+
+    if (!isProjectAdmin) {
+        for (const action of actions.filter(action => action.managerOnly)) {
+            action.status = "skipped";
+            action.error = "Signer is not a project admin";
+        }
+    }
+    const sendable = actions.filter(action => isProjectAdmin || !action.managerOnly);
+
+    // Calls are sent in Fundraise.batch, it keeps msg.sender for manager checks and reports every item
+    for (let start = 0; start < sendable.length; start += MAX_CALLS_PER_BATCH) {
+        const batch = sendable.slice(start, start + MAX_CALLS_PER_BATCH);
+        const calls = batch.map(action =>
+            (fundraiseInterface as Interface).encodeFunctionData(action.call, [action.projectId])
+        );
+
+        try {
+            const [success, results] = await fundraise.batch.staticCall(calls);
+            if (DRY_RUN) {
+                batch.forEach((action, i) => {
+                    action.status = success[i] ? "dry-run" : "failed";
+                    if (!success[i]) action.error = decodeBatchError(results[i]);
+                });
+                continue;
+            }
+
+            const tx = await fundraise.batch(calls);
+            console.log(`📤 Batch of ${batch.length} calls: ${tx.hash}`);
+            const receipt = await tx.wait();
+            console.log(`   ✅ Confirmed in block ${receipt?.blockNumber}, gas used: ${receipt?.gasUsed}`);
+
+            const failed = new Map<number, string>();
+            for (const log of receipt!.logs) {
+                const event = fundraiseInterface.parseLog(log);
+                if (event?.name === "BatchItemFailed") {
+                    failed.set(Number(event.args.index), decodeBatchError(event.args.reason));
+                }
+            }
+            batch.forEach((action, i) => {
+                action.txHash = tx.hash;
+                action.status = failed.has(i) ? "failed" : "sent";
+                action.error = failed.get(i);
+            });
+        } catch (error: any) {
+            console.error(`   ❌ Batch failed:`, errorMessage(error));
+            for (const action of batch) {
+                action.status = "failed";
+                action.error = errorMessage(error);
+            }
+        }
+    }
+
+    const report = {
+        network: net.name,
+        chainId: Number(net.chainId),
+        fundraise: config.Fundraise,
+        signer: signerAddress,
+        isProjectAdmin,
+        dryRun: DRY_RUN,
+        blockNumber: block!.number,
+        timestamp: Number(now),
+        projectCount,
+        actions: actions.map(action => ({
+            projectId: action.projectId,
+            from: Stage[action.from],
+            to: Stage[action.to],
+            call: action.call,
+            managerOnly: action.managerOnly,
+            reason: action.reason,
+            status: action.status,
+            txHash: action.txHash,
+            error: action.error,
+        })),
+        summary: {
+            due: actions.length,
+            sent: actions.filter(action => action.status === "sent").length,
+            dryRun: actions.filter(action => action.status === "dry-run").length,
+            failed: actions.filter(action => action.status === "failed").length,
+            skipped: actions.filter(action => action.status === "skipped").length,
+        },
+    };
+
+    console.log("\n" + "=".repeat(80));
+    console.log(`📊 Summary: ${JSON.stringify(report.summary)}`);
+    console.log(`📝 Report: ${REPORT_PATH}`);
+    console.log("=".repeat(80) + "\n");
+    await writeJsonFile(REPORT_PATH, report);
+
+    if (report.summary.failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error("\n❌ Critical error:", error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,170 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import { ethers } from "hardhat";
+import { getAddress, Interface } from "ethers";
+import { readJsonFile, writeJsonFile } from "./helpers";
+import { MANAGER_ROLES, Role, RoleName } from "./roles";
+dotenv.config();
+
+/**
+ * Migrate legacy ManagerRegistry managers to roles
+ *
+ * Script:
+ * 1. Finds managers from ManagerUpdated events (from FROM_BLOCK) and MANAGERS_ADDRESSES,
+ *    keeps those which are still flagged
+ * 2. Maps every manager to MANAGER_ROLES (all roles a manager had access to by default),
+ *    ROLE_MAPPING_FILE ({ "<address>": ["ProjectAdmin", ...] }) overrides roles per address
+ * 3. Sends grantRoles when signer is the owner, otherwise outputs calldata for Safe.
+ *    Before ManagerRegistry upgrade only calldata is output, for the upgrade batch (see README)
+ *
+ * Usage:
+ *   FROM_BLOCK=<ManagerRegistry deploy block> DRY_RUN=true \
+ *   npx hardhat run scripts/19_migrate_manager_roles.ts --network base
+ */
+
+// ManagerUpdated is not in ManagerRegistry ABI anymore
+const LEGACY_ABI = new Interface(["event ManagerUpdated(address manager, bool status)"]);
+
+const LOG_BLOCK_RANGE = Number(process.env.LOG_BLOCK_RANGE || 10000);
+
+function parseRoles(value: string): RoleName[] {
+  const roles = value
+    .split(",")
+    .map(role => role.trim())
+    .filter(Boolean);
+  for (const role of roles) {
+    if (!(role in Role)) {
+      throw new Error(`Unknown role ${role}, expected one of ${Object.keys(Role).join(", ")}`);
+    }
+  }
+  return roles as RoleName[];
+}
+
+async function main() {
+  const dryRun = process.env.DRY_RUN === "true";
+  const defaultRoles = process.env.MANAGER_ROLES
+    ? parseRoles(process.env.MANAGER_ROLES)
+    : MANAGER_ROLES;
+  const mapping: Record<string, RoleName[]> = {};
+  if (process.env.ROLE_MAPPING_FILE) {
+    const file = JSON.parse(fs.readFileSync(process.env.ROLE_MAPPING_FILE, "utf8"));
+    for (const [address, roles] of Object.entries(file)) {
+      mapping[getAddress(address)] = parseRoles((roles as string[]).join(","));
+    }
+  }
+
+  const net = await ethers.provider.getNetwork();
+  console.log("\nNetwork name:", net.name, "\n");
+
+  const filePath = `./scripts/config/${net.chainId}-config.json`;
+  const config = await readJsonFile(filePath);
+  if (!config.ManagerRegistry) {
+    throw new Error("ManagerRegistry not found in config. Please deploy it first.");
+  }
+
+  const [signer] = await ethers.getSigners();
+  const signerAddress = await signer.getAddress();
+  const managerRegistry = await ethers.getContractAt(
+    "ManagerRegistry",
+    config.ManagerRegistry,
+    signer
+  );
+  const owner = await managerRegistry.owner();
+  console.log("ManagerRegistry address:", config.ManagerRegistry);
+  console.log("Owner:", owner);
+  console.log("Signer:", signerAddress);
+
+  // Legacy ManagerRegistry has no roles yet, grants are prepared for the upgrade batch
+  const upgraded = await managerRegistry.hasRole(Role.ProjectAdmin, signerAddress).then(
+    () => true,
+    () => false
+  );
+  if (!upgraded) {
+    console.log("⚠️ ManagerRegistry is not upgraded yet, grantRoles is prepared for the upgrade batch");
+  }
+
+  // Collect candidates from events, the legacy flag is the source of truth
+  const candidates = new Set<string>(
+    (process.env.MANAGERS_ADDRESSES || "")
+      .split(",")
+      .map(address => address.trim())
+      .filter(Boolean)
+      .map(address => getAddress(address))
+  );
+  const topic = LEGACY_ABI.getEvent("ManagerUpdated")!.topicHash;
+  const latest = await ethers.provider.getBlockNumber();
+  for (let from = Number(process.env.FROM_BLOCK || 0); from <= latest; from += LOG_BLOCK_RANGE) {
+    const logs = await ethers.provider.getLogs({
+      address: config.ManagerRegistry,
+      topics: [topic],
+      fromBlock: from,
+      toBlock: Math.min(from + LOG_BLOCK_RANGE - 1, latest),
+    });
+    for (const log of logs) {
+      candidates.add(getAddress(LEGACY_ABI.parseLog(log)!.args.manager));
+    }
+  }
+
+  const managers = [];
+  for (const address of candidates) {
+    if (await managerRegistry.managers(address)) managers.push(address);
+  }
+  console.log(`\nLegacy managers: ${managers.length} of ${candidates.size} candidates\n`);
+
+  const roles: string[] = [];
+  const accounts: string[] = [];
+  const plan = [];
+  for (const manager of managers) {
+    const managerRoles = mapping[manager] ?? defaultRoles;
+    const missing: RoleName[] = [];
+    for (const role of managerRoles) {
+      if (!upgraded || !(await managerRegistry.hasRole(Role[role], manager))) missing.push(role);
+    }
+    console.log(
+      `  ${manager}: ${managerRoles.join(", ")}${missing.length ? "" : " (already granted)"}`
+    );
+    for (const role of missing) {
+      roles.push(Role[role]);
+      accounts.push(manager);
+    }
+    plan.push({ manager, roles: managerRoles, missing });
+  }
+
+  const report: Record<string, unknown> = {
+    network: net.name,
+    chainId: Number(net.chainId),
+    managerRegistry: config.ManagerRegistry,
+    owner,
+    plan,
+    grants: roles.length,
+  };
+
+  if (roles.length === 0) {
+    console.log("\n✅ Nothing to grant");
+  } else if (dryRun) {
+    console.log(`\n🧪 Dry run, ${roles.length} grants are not sent`);
+  } else if (upgraded && owner.toLowerCase() === signerAddress.toLowerCase()) {
+    const tx = await managerRegistry.grantRoles(roles, accounts);
+    console.log("\nTransaction hash:", tx.hash);
+    await tx.wait();
+    report.txHash = tx.hash;
+    console.log(`✅ Granted ${roles.length} roles`);
+  } else {
+    const data = managerRegistry.interface.encodeFunctionData("grantRoles", [roles, accounts]);
+    console.log("\n📤 Signer is not the owner, submit this call in Safe Transaction Builder:");
+    console.log(`  To:    ${config.ManagerRegistry}`);
+    console.log("  Value: 0");
+    console.log(`  Data:  ${data}`);
+    report.safeTransaction = { to: config.ManagerRegistry, value: "0", data };
+  }
+
+  const reportPath = process.env.MIGRATION_REPORT || `./role-migration-${net.chainId}.json`;
+  await writeJsonFile(reportPath, report);
+  console.log(`\n📝 Report: ${reportPath}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+  process.exit(1);
+});
@@ -0,0 +1,82 @@
+import dotenv from "dotenv";
+import hre, { ethers } from "hardhat";
+import { upgrades } from "hardhat";
+import { readJsonFile, writeJsonFile } from "./helpers";
+import { selector, TIMELOCKED_FUNCTIONS } from "./timelock";
+dotenv.config();
+
+/**
+ * Deploy AdminTimelock and mark sensitive owner functions as timelocked
+ *
+ * TIMELOCK_DELAY - delay in seconds (default 2 days)
+ * TIMELOCK_OWNER - owner of the timelock, usually the Safe (default signer)
+ *
+ * Ownership of Fundraise, RewardSystem and ManagerRegistry is transferred to the timelock
+ * separately, by their current owner.
+ */
+async function main() {
+  const net = await ethers.provider.getNetwork();
+  console.log("\nNetwork name:", net.name, "\n");
+  let filePath = `./scripts/config/${net.chainId}-config.json`;
+  let config = await readJsonFile(filePath);
+
+  console.log("\nDeploying AdminTimelock contract");
+
+  const [signer] = await ethers.getSigners();
+  const signerAddress = await signer.getAddress();
+  console.log("Signer:", signerAddress);
+
+  const delay = Number(process.env.TIMELOCK_DELAY || 2 * 24 * 60 * 60);
+  const owner = process.env.TIMELOCK_OWNER || signerAddress;
+  console.log("Delay:", delay, "seconds");
+  console.log("Owner:", owner);
+
+  const AdminTimelockFactory = await hre.ethers.getContractFactory("AdminTimelock");
+  // Deployed owned by signer to configure timelocked functions, then handed over
+  const AdminTimelock = await upgrades.deployProxy(AdminTimelockFactory, [delay, signerAddress], {
+    kind: "uups",
+    initializer: "initialize",
+  });
+  await AdminTimelock.waitForDeployment();
+  const timelockAddress = await AdminTimelock.getAddress();
+  console.log("AdminTimelock deployed to:", timelockAddress);
+
+  await new Promise(resolve => setTimeout(resolve, 12000));
+
+  const AdminTimelock_impl_addr = await upgrades.erc1967.getImplementationAddress(timelockAddress);
+  console.log("AdminTimelock implementation deployed to:", AdminTimelock_impl_addr);
+
+  config.AdminTimelock = timelockAddress;
+  config.AdminTimelock_impl = AdminTimelock_impl_addr;
+  await writeJsonFile(filePath, config);
+
+  const timelock = await ethers.getContractAt("AdminTimelock", timelockAddress, signer);
+  for (const [name, functions] of Object.entries(TIMELOCKED_FUNCTIONS)) {
+    if (!config[name]) {
+      console.log(`⚠️ ${name} not found in config, skipped`);
+      continue;
+    }
+    await (await timelock.setTimelocked(config[name], functions.map(selector), true)).wait();
+    console.log(`✅ ${name}: ${functions.join(", ")} timelocked`);
+  }
+
+  if (owner.toLowerCase() !== signerAddress.toLowerCase()) {
+    await (await timelock.transferOwnership(owner)).wait();
+    console.log("✅ AdminTimelock ownership transferred to", owner);
+  }
+
+  console.log("\n📝 Next steps: from the current owner of each contract call");
+  for (const name of Object.keys(TIMELOCKED_FUNCTIONS)) {
+    if (config[name]) {
+      console.log(`   ${name}(${config[name]}).transferOwnership(${timelockAddress})`);
+    }
+  }
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+  process.exit(1);
+});
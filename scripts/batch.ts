@@ -0,0 +1,131 @@
+// Project lists for Fundraise.batch, used by scripts/tools/fundraise_batch.ts. Does not import hardhat.
+import fs from "fs";
+import path from "path";
+import { AbiCoder, dataSlice, ZeroHash } from "ethers";
+import { buildWhitelistTree } from "./whitelist";
+
+/** Fundraise function called for every row */
+export enum BatchAction {
+  /** createProject, then setTicketLimits for rows with minTicket or maxPerInvestor */
+  Create = "create",
+  /** moveProjectStage */
+  Move = "move",
+  /** setWhitelist */
+  Whitelist = "whitelist",
+  /** cancelProject */
+  Cancel = "cancel",
+}
+
+/** Row of the project list, CSV header or JSON keys are column names */
+export type BatchRow = Record<string, string>;
+
+export interface BatchItemResult {
+  /** Row index in the file */
+  row: number;
+  success: boolean;
+  projectId?: string;
+  error?: string;
+}
+
+/**
+ * Parses CSV with a header line. Values may be quoted, quotes inside quoted values are doubled.
+ */
+export function parseCsv(content: string): BatchRow[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== "");
+  if (lines.length === 0) return [];
+
+  const parseLine = (line: string): string[] => {
+    const values: string[] = [];
+    let value = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          value += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        values.push(value.trim());
+        value = "";
+      } else {
+        value += char;
+      }
+    }
+    values.push(value.trim());
+    return values;
+  };
+
+  const header = parseLine(lines[0]);
+  return lines.slice(1).map(line => {
+    const values = parseLine(line);
+    return Object.fromEntries(header.map((column, i) => [column, values[i] ?? ""]));
+  });
+}
+
+/**
+ * Reads rows from .csv or .json (array of objects) file
+ */
+export function readBatchRows(filePath: string): BatchRow[] {
+  const content = fs.readFileSync(filePath, "utf8");
+  if (path.extname(filePath).toLowerCase() === ".csv") {
+    return parseCsv(content);
+  }
+
+  const rows = JSON.parse(content);
+  if (!Array.isArray(rows)) {
+    throw new Error(`${filePath} must contain an array of projects`);
+  }
+  return rows.map(row =>
+    Object.fromEntries(Object.entries(row).map(([column, value]) => [column, value === null ? "" : String(value)]))
+  );
+}
+
+/**
+ * Required column value
+ */
+export function column(row: BatchRow, name: string): string {
+  const value = row[name];
+  if (value === undefined || value === "") {
+    throw new Error(`Missing ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Unix time in seconds or a date string, e.g. "2025-01-31T12:00:00Z"
+ */
+export function toTimestamp(value: string): bigint {
+  if (/^\d+$/.test(value)) return BigInt(value);
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return BigInt(Math.floor(time / 1000));
+}
+
+/**
+ * whitelistRoot column, or root of addresses in whitelist column separated by spaces or ";".
+ * Zero root when both are empty.
+ */
+export function whitelistRoot(row: BatchRow): string {
+  if (row.whitelistRoot) return row.whitelistRoot;
+  const addresses = (row.whitelist ?? "").split(/[\s;]+/).filter(Boolean);
+  return addresses.length ? buildWhitelistTree(addresses).getHexRoot() : ZeroHash;
+}
+
+/**
+ * Revert reason of failed batch item, raw data when it isn't Error(string)
+ */
+export function decodeBatchError(reason: string): string {
+  if (reason.startsWith("0x08c379a0")) {
+    return AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(reason, 4))[0];
+  }
+  return reason === "0x" ? "Reverted without reason" : reason;
+}
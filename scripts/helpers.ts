@@ -2,15 +2,9 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import MerkleTree from "merkletreejs";
 import { ethers, upgrades } from "hardhat";
+import { buildWhitelistTree } from "./whitelist";
 
-export enum Stage {
-  ComingSoon = 0,
-  Open = 1,
-  Canceled = 2,
-  PreFunded = 3,
-  Funded = 4,
-  Repaid = 5,
-}
+export { Stage } from "./stage";
 
 async function fileExists(filePath: string): Promise<boolean> {
   try {
@@ -50,19 +44,8 @@ export async function writeJsonFile(filePath: string, data: any): Promise<void>
   }
 }
 
-export const hashAddress = (address: string): Buffer => {
-  address = address.toLowerCase().replace(/^0x/, "");
-  return Buffer.from(ethers.getBytes(ethers.keccak256("0x" + address)));
-};
+export { hashAddress, getWhitelistProof } from "./whitelist";
 
 export async function createMerkleTree(whitelist: string[]): Promise<MerkleTree> {
-  const leafNodes: Buffer[] = whitelist.map(hashAddress);
-  const merkleTree = new MerkleTree(leafNodes, ethers.keccak256, { sortPairs: true });
-  // whitelist.forEach((address, index) => {
-  //   const hashedAddress = hashAddress(address);
-  // //   console.log(`Proof for ${address}: ${merkleTree.getHexProof(hashedAddress)}`);
-
-  // });
-
-  return merkleTree;
+  return buildWhitelistTree(whitelist);
 }
@@ -0,0 +1,68 @@
+// Stage transitions due for Fundraise projects, used by scripts/18_stage_keeper.ts. Does not import hardhat.
+import { Stage } from "./stage";
+
+/** Fundraise function which performs the transition */
+export enum KeeperCall {
+  MoveProjectStage = "moveProjectStage",
+  CancelProject = "cancelProject",
+}
+
+/** Fields of Fundraise.projects used to find due transition */
+export interface ProjectTimeline {
+  stage: Stage;
+  startAt: bigint;
+  openStageEndAt: bigint;
+  preFundDuration: bigint;
+  softCap: bigint;
+  hardCap: bigint;
+  totalInvested: bigint;
+}
+
+export interface DueTransition {
+  call: KeeperCall;
+  /** Stage after all due transitions */
+  to: Stage;
+  /** Only project admins (PROJECT_ADMIN_ROLE) can send the call, otherwise anyone can */
+  managerOnly: boolean;
+  reason: string;
+}
+
+/** Soft cap rule of Fundraise */
+export function softCapReached(project: ProjectTimeline): boolean {
+  return project.totalInvested >= project.softCap;
+}
+
+/**
+ * Transitions which are due at `now` (block timestamp), same rules as Fundraise._updateStage.
+ * Project which is late for several transitions gets all of them in one call, e.g. ComingSoon project past
+ * openStageEndAt without soft cap is opened and cancelled.
+ */
+export function dueTransition(project: ProjectTimeline, now: bigint): DueTransition | undefined {
+  let stage = project.stage;
+  const reasons: string[] = [];
+
+  if (stage === Stage.ComingSoon && now >= project.startAt) {
+    stage = Stage.Open;
+    reasons.push("startAt passed");
+  }
+  if (stage === Stage.Open) {
+    if (project.totalInvested >= project.hardCap) {
+      stage = Stage.PreFunded;
+      reasons.push("hardCap reached");
+    } else if (now > project.openStageEndAt) {
+      stage = softCapReached(project) ? Stage.PreFunded : Stage.Canceled;
+      reasons.push(`openStageEndAt passed, softCap ${stage === Stage.PreFunded ? "reached" : "not reached"}`);
+    }
+  }
+  if (stage === Stage.PreFunded && now > project.openStageEndAt + project.preFundDuration) {
+    stage = Stage.Canceled;
+    reasons.push("preFundDuration passed, funds not transferred to borrower");
+  }
+
+  if (stage === project.stage) return undefined;
+  // Fundraise cancels due project for anyone, other transitions are sent by managers
+  if (stage === Stage.Canceled) {
+    return { call: KeeperCall.CancelProject, to: stage, managerOnly: false, reason: reasons.join(", ") };
+  }
+  return { call: KeeperCall.MoveProjectStage, to: stage, managerOnly: true, reason: reasons.join(", ") };
+}
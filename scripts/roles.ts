@@ -0,0 +1,32 @@
+// ManagerRegistry roles. Does not import hardhat, so off-chain services can use it.
+import { id, ZeroHash } from "ethers";
+
+export const Role = {
+  DefaultAdmin: ZeroHash,
+  ProjectAdmin: id("PROJECT_ADMIN_ROLE"),
+  RepaymentOperator: id("REPAYMENT_OPERATOR_ROLE"),
+  RewardOperator: id("REWARD_OPERATOR_ROLE"),
+  SignerAdmin: id("SIGNER_ADMIN_ROLE"),
+  Guardian: id("GUARDIAN_ROLE"),
+} as const;
+
+export type RoleName = keyof typeof Role;
+
+/** Roles covering everything a legacy manager could call in Fundraise and RewardSystem */
+export const MANAGER_ROLES: RoleName[] = [
+  "ProjectAdmin",
+  "RepaymentOperator",
+  "RewardOperator",
+  "SignerAdmin",
+];
+
+/**
+ * Arguments of ManagerRegistry.grantRoles giving every role to every account
+ */
+export function roleGrants(
+  accounts: string[],
+  roles: RoleName[] = MANAGER_ROLES
+): [string[], string[]] {
+  const grants = accounts.flatMap(account => roles.map(role => [Role[role], account]));
+  return [grants.map(([role]) => role), grants.map(([, account]) => account)];
+}
@@ -0,0 +1,117 @@
+// Repayment schedule generator for Fundraise.setRepaymentSchedule. Does not import hardhat.
+
+export const BASIS_POINTS = 1_000_000n;
+export const DAY = 24 * 3600;
+export const YEAR = 365 * DAY;
+
+/** Same values as Fundraise.InterestModel */
+export enum InterestModel {
+  /** interestRate of principal for the whole term */
+  Flat = 0,
+  /** interestRate is APR, accrued over the term */
+  Accrued = 1,
+}
+
+export enum ScheduleType {
+  /** Principal and interest in one payment at maturity */
+  Bullet = "bullet",
+  /** Equal payments, interest part decreases over time */
+  Annuity = "annuity",
+  /** Equal interest payments, principal is paid with the last one */
+  InterestOnly = "interestOnly",
+}
+
+export interface ScheduleParams {
+  type: ScheduleType;
+  /** Loan amount in token units, usually project totalInvested */
+  principal: bigint;
+  /** Investor interest, Fundraise rate (1% = 10000). APR for Accrued model */
+  interestRate: bigint;
+  /** Flat by default */
+  interestModel?: InterestModel;
+  /** Schedule start, usually project fundedTime */
+  startAt: number | bigint;
+  /** Number of periods in the term */
+  periods: number;
+  /** Period length in seconds, 30 days by default */
+  periodDuration?: number;
+}
+
+/** Same layout as Fundraise.Installment */
+export interface Installment {
+  dueAt: bigint;
+  principal: bigint;
+  interest: bigint;
+}
+
+/**
+ * Splits `total` proportionally to `weights`, rounding remainder goes to the last part
+ */
+function split(total: bigint, weights: bigint[]): bigint[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0n);
+  const parts = weights.map(weight => (total * weight) / sum);
+  parts[parts.length - 1] += total - parts.reduce((acc, part) => acc + part, 0n);
+  return parts;
+}
+
+/**
+ * Builds installments whose total equals principal plus interest of the project interest model,
+ * so a project becomes Repaid exactly with the last installment. Accrued interest is counted up to
+ * the last due date, so it matches Fundraise when maturity is set to that date.
+ *
+ * Annuity uses add-on interest split by the rule of 78: every payment is equal, interest part
+ * of period k is proportional to (periods - k).
+ */
+export function generateRepaymentSchedule(params: ScheduleParams): Installment[] {
+  const { type, principal, interestRate, periods } = params;
+  const periodDuration = BigInt(params.periodDuration ?? 30 * DAY);
+  const startAt = BigInt(params.startAt);
+
+  if (!Number.isInteger(periods) || periods <= 0) {
+    throw new RangeError("periods must be a positive integer");
+  }
+  if (principal <= 0n || interestRate < 0n || periodDuration <= 0n) {
+    throw new RangeError("principal and periodDuration must be positive, interestRate must not be negative");
+  }
+
+  const term = periodDuration * BigInt(periods);
+  const totalInterest =
+    params.interestModel === InterestModel.Accrued
+      ? (principal * interestRate * term) / (BASIS_POINTS * BigInt(YEAR))
+      : (principal * interestRate) / BASIS_POINTS;
+  const dueAt = (period: number) => startAt + periodDuration * BigInt(period + 1);
+
+  switch (type) {
+    case ScheduleType.Bullet:
+      return [{ dueAt: dueAt(periods - 1), principal, interest: totalInterest }];
+
+    case ScheduleType.InterestOnly: {
+      const interest = split(totalInterest, Array(periods).fill(1n));
+      return interest.map((amount, period) => ({
+        dueAt: dueAt(period),
+        principal: period === periods - 1 ? principal : 0n,
+        interest: amount,
+      }));
+    }
+
+    case ScheduleType.Annuity: {
+      const payments = split(principal + totalInterest, Array(periods).fill(1n));
+      const interest = split(totalInterest, payments.map((_, period) => BigInt(periods - period)));
+      // Rounding can leave interest above payment for tiny loans, keep principal non-negative
+      let carry = 0n;
+      return payments.map((payment, period) => {
+        const periodInterest = interest[period] + carry;
+        carry = periodInterest > payment ? periodInterest - payment : 0n;
+        const paidInterest = periodInterest - carry;
+        return { dueAt: dueAt(period), principal: payment - paidInterest, interest: paidInterest };
+      });
+    }
+
+    default:
+      throw new Error(`Unknown schedule type: ${type}`);
+  }
+}
+
+export function scheduleTotal(installments: Installment[]): bigint {
+  return installments.reduce((acc, installment) => acc + installment.principal + installment.interest, 0n);
+}
@@ -0,0 +1,59 @@
+import { BigNumberish, Signer, TypedDataDomain, TypedDataEncoder } from "ethers";
+
+// EIP-712 invest authorizations for Fundraise.investUpdate.
+// Does not import hardhat, so backend and frontend can use it as is.
+
+export const FUNDRAISE_DOMAIN_NAME = "Fundraise";
+export const FUNDRAISE_DOMAIN_VERSION = "1";
+
+export const INVEST_AUTHORIZATION_TYPES = {
+  InvestAuthorization: [
+    { name: "investor", type: "address" },
+    { name: "projectId", type: "uint256" },
+    { name: "amount", type: "uint256" },
+    { name: "rootHash", type: "bytes32" },
+    { name: "inviter", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface InvestAuthorization {
+  investor: string;
+  projectId: BigNumberish;
+  amount: BigNumberish;
+  rootHash: string;
+  inviter: string;
+  nonce: BigNumberish;
+  deadline: BigNumberish;
+}
+
+export function getFundraiseDomain(chainId: BigNumberish, fundraiseAddress: string): TypedDataDomain {
+  return {
+    name: FUNDRAISE_DOMAIN_NAME,
+    version: FUNDRAISE_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: fundraiseAddress,
+  };
+}
+
+/**
+ * Digest which Fundraise recovers the trusted signer from.
+ */
+export function hashInvestAuthorization(
+  domain: TypedDataDomain,
+  authorization: InvestAuthorization
+): string {
+  return TypedDataEncoder.hash(domain, INVEST_AUTHORIZATION_TYPES, authorization);
+}
+
+/**
+ * Signs authorization with trusted signer key. Result is passed as `_sig` to investUpdate.
+ */
+export async function signInvestAuthorization(
+  signer: Signer,
+  domain: TypedDataDomain,
+  authorization: InvestAuthorization
+): Promise<string> {
+  return signer.signTypedData(domain, INVEST_AUTHORIZATION_TYPES, authorization);
+}
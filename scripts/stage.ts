@@ -0,0 +1,11 @@
+// Fundraise.Stage values. Does not import hardhat, so off-chain services can use it.
+export enum Stage {
+  ComingSoon = 0,
+  Open = 1,
+  Canceled = 2,
+  PreFunded = 3,
+  Funded = 4,
+  Repaid = 5,
+  Defaulted = 6,
+  Recovered = 7,
+}
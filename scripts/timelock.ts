@@ -0,0 +1,27 @@
+// AdminTimelock defaults. Does not import hardhat, so off-chain services can use it.
+import { id } from "ethers";
+
+const OWNERSHIP = ["transferOwnership(address)", "upgradeToAndCall(address,bytes)"];
+
+/** Owner functions which have to be queued in AdminTimelock, per contract of the config */
+export const TIMELOCKED_FUNCTIONS: Record<string, string[]> = {
+  Fundraise: [
+    "setTreasury(address)",
+    "setRewardSystem(address)",
+    "setManagerRegistry(address)",
+    "setPositionToken(address)",
+    "setDefaultGracePeriod(uint256)",
+    ...OWNERSHIP,
+  ],
+  RewardSystem: [
+    "updateContracts(address,address,address)",
+    "updateUniswapRouterAddress(address)",
+    "withdraw(address,uint256,address)",
+    ...OWNERSHIP,
+  ],
+  ManagerRegistry: ["setContractAddresses(address,address,address)", ...OWNERSHIP],
+};
+
+export function selector(signature: string): string {
+  return id(signature).slice(0, 10);
+}
@@ -0,0 +1,181 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import { ethers } from "hardhat";
+import { Interface, ZeroHash } from "ethers";
+import { readJsonFile } from "../helpers";
+dotenv.config();
+
+/**
+ * AdminTimelock operations
+ *
+ * TIMELOCK_COMMAND:
+ *   list    - pending operations with eta and status (default)
+ *   queue   - CONTRACT=<config name> FUNCTION=<name> ARGS='<json array>' [SALT=<bytes32>]
+ *   execute - OPERATION_ID=<id> of a queued operation
+ *   cancel  - OPERATION_ID=<id>
+ *
+ * queue, execute and cancel output data for Transaction Builder in Safe (the timelock owner)
+ * and save it to a file, the same way as 11_prepare_upgrade_for_multisig.ts.
+ *
+ * Usage:
+ *   CONTRACT=Fundraise FUNCTION=setTreasury ARGS='["0x..."]' TIMELOCK_COMMAND=queue \
+ *   npx hardhat run scripts/tools/admin-timelock.ts --network base
+ */
+
+type TimelockCommand = "list" | "queue" | "execute" | "cancel";
+
+/** Contracts of the config which can be owned by the timelock */
+const CONTRACTS = ["Fundraise", "RewardSystem", "ManagerRegistry", "AdminTimelock"];
+
+const LOG_BLOCK_RANGE = Number(process.env.LOG_BLOCK_RANGE || 10000);
+
+async function main() {
+  const command = (process.env.TIMELOCK_COMMAND || "list") as TimelockCommand;
+  if (!["list", "queue", "execute", "cancel"].includes(command)) {
+    throw new Error("TIMELOCK_COMMAND must be one of list, queue, execute, cancel");
+  }
+
+  const net = await ethers.provider.getNetwork();
+  console.log("\nNetwork name:", net.name, "\n");
+
+  const config = await readJsonFile(`./scripts/config/${net.chainId}-config.json`);
+  if (!config.AdminTimelock) {
+    throw new Error("AdminTimelock not found in config. Please deploy it first.");
+  }
+
+  const timelock = await ethers.getContractAt("AdminTimelock", config.AdminTimelock);
+  const owner = await timelock.owner();
+  const delay = await timelock.delay();
+  const gracePeriod = await timelock.GRACE_PERIOD();
+  console.log("AdminTimelock address:", config.AdminTimelock);
+  console.log("Owner:", owner);
+  console.log(`Delay: ${delay} seconds\n`);
+
+  // Target address => name and interface, to decode queued calls
+  const targets: Record<string, { name: string; iface: Interface }> = {};
+  for (const name of CONTRACTS) {
+    if (config[name]) {
+      const factory = await ethers.getContractFactory(name);
+      targets[config[name].toLowerCase()] = { name, iface: factory.interface as Interface };
+    }
+  }
+  const describe = (target: string, data: string) => {
+    const known = targets[target.toLowerCase()];
+    const call = known?.iface.parseTransaction({ data });
+    if (!known || !call) return `${target} ${data}`;
+    const args = call.args.map(arg => arg.toString()).join(", ");
+    return `${known.name}.${call.name}(${args})`;
+  };
+
+  // Queued operations still pending on chain, executed and cancelled ones have eta reset
+  const pending = async () => {
+    const operations = [];
+    const latest = await ethers.provider.getBlockNumber();
+    const filter = timelock.filters.OperationQueued();
+    for (let from = Number(process.env.FROM_BLOCK || 0); from <= latest; from += LOG_BLOCK_RANGE) {
+      const events = await timelock.queryFilter(
+        filter,
+        from,
+        Math.min(from + LOG_BLOCK_RANGE - 1, latest)
+      );
+      for (const event of events) {
+        const { id, target, data, salt, eta } = event.args;
+        if ((await timelock.operationEta(id)) === eta) {
+          operations.push({ id, target, data, salt, eta });
+        }
+      }
+    }
+    return operations;
+  };
+
+  if (command === "list") {
+    const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+    const operations = await pending();
+    console.log(`Pending operations: ${operations.length}\n`);
+    for (const operation of operations) {
+      const status =
+        now < operation.eta ? "waiting" : now <= operation.eta + gracePeriod ? "ready" : "expired";
+      const eta = new Date(Number(operation.eta) * 1000).toISOString();
+      console.log(`  ${operation.id}`);
+      console.log(`    ${describe(operation.target, operation.data)}`);
+      console.log(`    eta: ${eta} (${status}), salt: ${operation.salt}\n`);
+    }
+    return;
+  }
+
+  let data: string;
+  let summary: string;
+  if (command === "queue") {
+    const name = process.env.CONTRACT;
+    const fn = process.env.FUNCTION;
+    if (!name || !config[name] || !fn) {
+      throw new Error("CONTRACT (name in config) and FUNCTION are required to queue");
+    }
+    const args = JSON.parse(process.env.ARGS || "[]");
+    const salt = process.env.SALT || ZeroHash;
+    const target = config[name];
+    const call = targets[target.toLowerCase()].iface.encodeFunctionData(fn, args);
+    const id = await timelock.operationId(target, call, salt);
+    if ((await timelock.operationEta(id)) !== 0n) {
+      throw new Error(`Operation ${id} already queued, use another SALT`);
+    }
+    data = timelock.interface.encodeFunctionData("queue", [target, call, salt]);
+    summary = `queue ${describe(target, call)}, id ${id}`;
+  } else {
+    const id = process.env.OPERATION_ID;
+    if (!id) {
+      throw new Error(`OPERATION_ID is required to ${command}`);
+    }
+    const operation = (await pending()).find(op => op.id === id);
+    if (!operation) {
+      throw new Error(`Operation ${id} is not pending`);
+    }
+    data =
+      command === "execute"
+        ? timelock.interface.encodeFunctionData("execute", [
+            operation.target,
+            operation.data,
+            operation.salt,
+          ])
+        : timelock.interface.encodeFunctionData("cancel", [id]);
+    summary = `${command} ${describe(operation.target, operation.data)}, id ${id}`;
+    if (command === "execute") {
+      const eta = new Date(Number(operation.eta) * 1000).toISOString();
+      console.log(`Executable from ${eta}`);
+    }
+  }
+
+  console.log(`📤 ${summary}`);
+  console.log("\nSubmit this call in Safe Transaction Builder:");
+  console.log(`  To:    ${config.AdminTimelock}`);
+  console.log("  Value: 0");
+  console.log(`  Data:  ${data}`);
+
+  const fileName = `timelock-${command}-${Date.now()}.json`;
+  fs.writeFileSync(
+    fileName,
+    JSON.stringify(
+      {
+        network: net.name,
+        chainId: net.chainId.toString(),
+        timelock: config.AdminTimelock,
+        owner,
+        command,
+        summary,
+        to: config.AdminTimelock,
+        value: "0",
+        data,
+        timestamp: new Date().toISOString(),
+      },
+      null,
+      2
+    )
+  );
+  console.log(`\n💾 Data saved to file: ${fileName}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+  process.exit(1);
+});
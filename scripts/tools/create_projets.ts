@@ -43,6 +43,7 @@ async function main() {
   // Constants
   const PLATFORM_PERCENT = parseUnits("3", 4); // 3%
   const INVESTOR_INTEREST_RATE = parseUnits("20", 4); // 20%
+  const MIN_TICKET = parseUnits("100", 6); // 100 USDC, 0 - no limit
   const PROJECTS_TO_CREATE = 40;
 
   // Get current block timestamp
@@ -91,6 +92,7 @@ async function main() {
     };
 
     const projectHash = projectIndex + 1; // Unique hash for each project
+    const maxPerInvestor = parseUnits((hardCapAmount / 4).toString(), 6); // one investor takes up to 25% of hardCap
 
     try {
       const tx = await fundraise.connect(signer).createProject(
@@ -101,10 +103,13 @@ async function main() {
       nonce++;
       console.log(`[${i + 1}/${PROJECTS_TO_CREATE}] Creating project ${projectIndex}...`);
       console.log(`  Transaction hash: ${tx.hash}`);
-    //   await tx.wait();
-    await new Promise((r)=>setTimeout(r,1000))
+      // Limits are set after the project exists, otherwise gas estimation reverts
+      await tx.wait();
+      await fundraise.connect(signer).setTicketLimits(projectIndex, MIN_TICKET, maxPerInvestor, { nonce: nonce });
+      nonce++;
       console.log(`  ✅ Project ${projectIndex} created successfully`);
       console.log(`  SoftCap: ${softCapAmount} USDC, HardCap: ${hardCapAmount} USDC`);
+      console.log(`  Tickets: ${ethers.formatUnits(MIN_TICKET, 6)} - ${ethers.formatUnits(maxPerInvestor, 6)} USDC per investor`);
       console.log(`  StartAt: ${new Date(Number(projectData.startAt) * 1000).toISOString()}`);
       console.log("");
     } catch (error: any) {
@@ -0,0 +1,243 @@
+import dotenv from "dotenv";
+import { ethers } from "hardhat";
+import { parseUnits } from "ethers";
+import { readJsonFile, writeJsonFile } from "../helpers";
+import { Stage } from "../stage";
+import {
+  BatchAction,
+  BatchItemResult,
+  BatchRow,
+  column,
+  decodeBatchError,
+  readBatchRows,
+  toTimestamp,
+  whitelistRoot,
+} from "../batch";
+dotenv.config();
+
+// Percents of the file, e.g. 20 or 2.5, to Fundraise rate (1% = 10000)
+const PERCENT_DECIMALS = 4;
+
+interface PendingItem {
+  result: BatchItemResult;
+  data: string;
+  /** Ticket limits of created project */
+  limits?: [bigint, bigint];
+}
+
+async function main() {
+  const action = process.env.BATCH_ACTION as BatchAction;
+  const file = process.env.BATCH_FILE;
+  const dryRun = process.env.DRY_RUN === "true";
+  const batchSize = Number(process.env.BATCH_SIZE || 20);
+  const reportPath = process.env.BATCH_REPORT || "./batch-report.json";
+
+  if (!Object.values(BatchAction).includes(action)) {
+    throw new Error(`BATCH_ACTION must be one of ${Object.values(BatchAction).join(", ")}`);
+  }
+  if (!file) {
+    throw new Error("BATCH_FILE is not set");
+  }
+
+  const net = await ethers.provider.getNetwork();
+  console.log(`\nNetwork name: ${net.name}\n`);
+
+  const filePath = `./scripts/config/${net.chainId}-config.json`;
+  const config = await readJsonFile(filePath);
+  if (!config.Fundraise) {
+    throw new Error("Fundraise address not found in config");
+  }
+
+  const [signer] = await ethers.getSigners();
+  console.log("Signer:", await signer.getAddress());
+  console.log(`Action: ${action}, file: ${file}, dry run: ${dryRun}`);
+
+  const fundraise = await ethers.getContractAt("Fundraise", config.Fundraise, signer);
+  const decimals = new Map<string, bigint>();
+  const getDecimals = async (token: string) => {
+    if (!decimals.has(token)) {
+      const metadata = await ethers.getContractAt("contracts/interfaces/IERC20Metadata.sol:IERC20Metadata", token);
+      decimals.set(token, await metadata.decimals());
+    }
+    return Number(decimals.get(token));
+  };
+
+  const encode = async (row: BatchRow): Promise<Omit<PendingItem, "result">> => {
+    switch (action) {
+      case BatchAction.Create: {
+        const loanToken = row.loanToken || config.usdc || config.testUsdt;
+        const tokenDecimals = await getDecimals(loanToken);
+        const project = {
+          softCap: parseUnits(column(row, "softCap"), tokenDecimals),
+          hardCap: parseUnits(column(row, "hardCap"), tokenDecimals),
+          totalInvested: 0,
+          startAt: toTimestamp(column(row, "startAt")),
+          preFundDuration: BigInt(column(row, "preFundDuration")),
+          investorInterestRate: parseUnits(column(row, "investorInterestRate"), PERCENT_DECIMALS),
+          openStageEndAt: toTimestamp(column(row, "openStageEndAt")),
+          innerStruct: {
+            borrower: column(row, "borrower"),
+            loanToken,
+            platformInterestRate: parseUnits(column(row, "platformInterestRate"), PERCENT_DECIMALS),
+            totalRepaid: 0,
+            fundedTime: 0,
+            stage: Stage.ComingSoon,
+          },
+        };
+        const minTicket = parseUnits(row.minTicket || "0", tokenDecimals);
+        const maxPerInvestor = parseUnits(row.maxPerInvestor || "0", tokenDecimals);
+        return {
+          data: fundraise.interface.encodeFunctionData("createProject", [
+            project,
+            whitelistRoot(row),
+            BigInt(column(row, "projectHash")),
+          ]),
+          limits: minTicket > 0n || maxPerInvestor > 0n ? [minTicket, maxPerInvestor] : undefined,
+        };
+      }
+      case BatchAction.Move:
+        return {
+          data: fundraise.interface.encodeFunctionData("moveProjectStage", [column(row, "projectId")]),
+        };
+      case BatchAction.Whitelist:
+        return {
+          data: fundraise.interface.encodeFunctionData("setWhitelist", [
+            whitelistRoot(row),
+            column(row, "projectId"),
+          ]),
+        };
+      case BatchAction.Cancel:
+        return {
+          data: fundraise.interface.encodeFunctionData("cancelProject", [column(row, "projectId")]),
+        };
+    }
+  };
+
+  type BatchItem = {
+    data: string;
+    onResult: (success: boolean, error?: string, projectId?: string) => void;
+  };
+  const createSelector = fundraise.interface.getFunction("createProject").selector;
+
+  /**
+   * Sends items in Fundraise.batch transactions, or only simulates them in dry run.
+   * Project id is passed to onResult for succeeded createProject calls.
+   */
+  const sendBatches = async (items: BatchItem[]) => {
+    for (let start = 0; start < items.length; start += batchSize) {
+      const chunk = items.slice(start, start + batchSize);
+      const calls = chunk.map(item => item.data);
+      const [success, results] = await fundraise.batch.staticCall(calls);
+      console.log(`Batch ${start / batchSize + 1}: ${success.filter(Boolean).length}/${chunk.length} calls succeed`);
+
+      if (dryRun) {
+        chunk.forEach((item, i) => {
+          if (!success[i]) return item.onResult(false, decodeBatchError(results[i]));
+          const isCreate = item.data.startsWith(createSelector);
+          const projectId = isCreate
+            ? fundraise.interface.decodeFunctionResult("createProject", results[i])[0].toString()
+            : undefined;
+          item.onResult(true, undefined, projectId);
+        });
+        continue;
+      }
+
+      const tx = await fundraise.batch(calls);
+      console.log(`  Transaction hash: ${tx.hash}`);
+      const receipt = await tx.wait();
+      const events = receipt!.logs
+        .map(log => fundraise.interface.parseLog(log))
+        .filter(event => event !== null);
+      const failed = new Map(
+        events
+          .filter(event => event.name === "BatchItemFailed")
+          .map(event => [Number(event.args.index), event.args.reason as string])
+      );
+      // Created projects follow order of succeeded createProject calls
+      const created = events
+        .filter(event => event.name === "ProjectCreated")
+        .map(event => event.args.projectId.toString());
+
+      chunk.forEach((item, i) => {
+        if (failed.has(i)) return item.onResult(false, decodeBatchError(failed.get(i)!));
+        item.onResult(true, undefined, item.data.startsWith(createSelector) ? created.shift() : undefined);
+      });
+    }
+  };
+
+  const rows = readBatchRows(file);
+  console.log(`Loaded ${rows.length} rows`);
+
+  const results: BatchItemResult[] = [];
+  const pending: PendingItem[] = [];
+  for (let row = 0; row < rows.length; row++) {
+    const result: BatchItemResult = { row, success: false, projectId: rows[row].projectId || undefined };
+    results.push(result);
+    try {
+      pending.push({ result, ...(await encode(rows[row])) });
+    } catch (error: any) {
+      result.error = error.message;
+    }
+  }
+
+  await sendBatches(
+    pending.map(item => ({
+      data: item.data,
+      onResult: (success, error, projectId) => {
+        item.result.success = success;
+        item.result.error = error;
+        if (projectId !== undefined) item.result.projectId = projectId;
+      },
+    }))
+  );
+
+  // Ticket limits need project id, so they are set with the next batch
+  const limits = pending.filter(item => item.result.success && item.limits && item.result.projectId !== undefined);
+  if (limits.length && !dryRun) {
+    console.log(`Setting ticket limits of ${limits.length} projects`);
+    await sendBatches(
+      limits.map(item => ({
+        data: fundraise.interface.encodeFunctionData("setTicketLimits", [
+          item.result.projectId!,
+          ...item.limits!,
+        ]),
+        onResult: (success, error) => {
+          if (!success) item.result.error = `Ticket limits: ${error}`;
+        },
+      }))
+    );
+  }
+
+  for (const result of results) {
+    const project = result.projectId === undefined ? "" : ` project ${result.projectId}`;
+    const error = result.error ? `: ${result.error}` : "";
+    console.log(`  ${result.success ? "✅" : "❌"} row ${result.row}${project}${error}`);
+  }
+
+  const report = {
+    network: net.name,
+    chainId: Number(net.chainId),
+    fundraise: config.Fundraise,
+    action,
+    file,
+    dryRun,
+    results,
+    summary: {
+      total: results.length,
+      succeeded: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length,
+    },
+  };
+  console.log(`Summary: ${JSON.stringify(report.summary)}, report: ${reportPath}`);
+  await writeJsonFile(reportPath, report);
+
+  if (report.summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+  process.exit(1);
+});
@@ -2,6 +2,7 @@ import fs from "fs";
 import dotenv from "dotenv";
 import hre, { ethers } from "hardhat";
 import { readJsonFile } from "../helpers";
+import { MANAGER_ROLES, Role, roleGrants, RoleName } from "../roles";
 dotenv.config();
 
 async function main() {
@@ -38,25 +39,33 @@ async function main() {
   // Connect to contract
   const ManagerRegistry = await ethers.getContractAt("ManagerRegistry", config.ManagerRegistry);
 
-  // Create array of statuses (all true)
-  const statuses = new Array(managersAddresses.length).fill(true);
+  // Roles to grant, e.g. "ProjectAdmin,RepaymentOperator", all manager roles by default
+  const roles = process.env.MANAGER_ROLES
+    ? (process.env.MANAGER_ROLES.split(",").map(role => role.trim()) as RoleName[])
+    : MANAGER_ROLES;
+  const unknown = roles.filter(role => !(role in Role));
+  if (unknown.length) {
+    throw new Error(`Unknown roles: ${unknown.join(", ")}`);
+  }
 
-  console.log("Adding managers to ManagerRegistry...");
+  console.log(`Granting ${roles.join(", ")} in ManagerRegistry...`);
 
   const nonce = await ethers.provider.getTransactionCount(await signer.getAddress());
   console.log("Nonce:", nonce);
 
-  // Add managers in batch
-  const tx = await ManagerRegistry.setManagerStatusBatch(managersAddresses, statuses, { nonce });
+  // Grant roles in batch
+  const tx = await ManagerRegistry.grantRoles(...roleGrants(managersAddresses, roles), { nonce });
   console.log("Transaction hash:", tx.hash);
 
   await tx.wait();
-  console.log("Managers added successfully!");
+  console.log("Roles granted successfully!");
 
-  // Check that managers are added
+  // Check that roles are granted
   for (const address of managersAddresses) {
-    const isManager = await ManagerRegistry.isManager(address);
-    console.log(`Manager ${address}: ${isManager ? "✓" : "✗"}`);
+    for (const role of roles) {
+      const hasRole = await ManagerRegistry.hasRole(Role[role], address);
+      console.log(`${role} ${address}: ${hasRole ? "✓" : "✗"}`);
+    }
   }
 }
 
@@ -0,0 +1,206 @@
+import dotenv from "dotenv";
+import { ethers } from "hardhat";
+import { getAddress, id } from "ethers";
+import { readJsonFile, writeJsonFile } from "../helpers";
+import { Role, RoleName } from "../roles";
+dotenv.config();
+
+/**
+ * Access-control audit of a deployment
+ *
+ * Prints owners, contract wiring, role members, pools, claim addresses and pause state, and
+ * compares them with the `access` section of scripts/config/<chainId>-config.json:
+ *
+ *   "access": {
+ *     "owner": "<Safe>",                        // owner of the contracts, or of AdminTimelock when deployed
+ *     "roles": { "ProjectAdmin": ["0x..."] },   // every listed role is compared, others are printed
+ *     "pools": ["0x..."],
+ *     "trustedSigner": "0x..."
+ *   }
+ *
+ * Exits with code 1 on any mismatch. AUDIT_REPORT=<path> also writes the state as JSON.
+ *
+ * Usage: npx hardhat run scripts/tools/manager-registry_audit.ts --network base
+ */
+
+const PAGE_SIZE = 100;
+
+/** Pausable actions of ManagerRegistry, value is the action id preimage */
+const ACTIONS = ["INVEST", "CLAIM", "REWARD_CLAIM", "BUYBACK"];
+
+let mismatches = 0;
+
+function same(a?: string, b?: string) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function check(label: string, actual: string, expected?: string) {
+  if (!expected) {
+    console.log(`  ·  ${label}: ${actual}`);
+  } else if (same(actual, expected)) {
+    console.log(`  ✅ ${label}: ${actual}`);
+  } else {
+    mismatches++;
+    console.log(`  ❌ ${label}: ${actual}, expected ${expected}`);
+  }
+}
+
+function checkList(label: string, actual: string[], expected?: string[]) {
+  console.log(`  ${label}: ${actual.length ? actual.join(", ") : "none"}`);
+  if (!expected) return;
+  const missing = expected.filter(address => !actual.some(item => same(item, address)));
+  const unexpected = actual.filter(address => !expected.some(item => same(item, address)));
+  for (const address of missing) {
+    mismatches++;
+    console.log(`    ❌ missing ${address}`);
+  }
+  for (const address of unexpected) {
+    mismatches++;
+    console.log(`    ❌ unexpected ${address}`);
+  }
+  if (!missing.length && !unexpected.length) console.log("    ✅ as expected");
+}
+
+async function readPages(count: bigint, page: (offset: number) => Promise<string[]>) {
+  const items: string[] = [];
+  for (let offset = 0; offset < Number(count); offset += PAGE_SIZE) {
+    items.push(...(await page(offset)));
+  }
+  return items;
+}
+
+async function main() {
+  const net = await ethers.provider.getNetwork();
+  console.log("\nNetwork name:", net.name, "\n");
+
+  const config = await readJsonFile(`./scripts/config/${net.chainId}-config.json`);
+  if (!config.ManagerRegistry) {
+    throw new Error("ManagerRegistry not found in config. Please deploy it first.");
+  }
+  const access = config.access ?? {};
+  if (!config.access) {
+    console.log("⚠️ No access section in config, state is only printed\n");
+  }
+
+  const managerRegistry = await ethers.getContractAt("ManagerRegistry", config.ManagerRegistry);
+  const fundraise = config.Fundraise && (await ethers.getContractAt("Fundraise", config.Fundraise));
+  const rewardSystem =
+    config.RewardSystem && (await ethers.getContractAt("RewardSystem", config.RewardSystem));
+  const report: Record<string, any> = { network: net.name, chainId: Number(net.chainId) };
+
+  // Owners: protocol contracts are owned by AdminTimelock when it is deployed
+  console.log("Owners:");
+  report.owners = {};
+  const timelocked = ["Fundraise", "RewardSystem", "ManagerRegistry"];
+  for (const [name, key] of [
+    ["ManagerRegistry", "ManagerRegistry"],
+    ["Fundraise", "Fundraise"],
+    ["RewardSystem", "RewardSystem"],
+    ["Treasury", "Treasury"],
+    ["Token", "token"],
+    ["PositionToken", "PositionToken"],
+    ["AdminTimelock", "AdminTimelock"],
+  ]) {
+    if (!config[key]) continue;
+    const owner = await (await ethers.getContractAt(name, config[key])).owner();
+    const expected =
+      config.AdminTimelock && timelocked.includes(name) ? config.AdminTimelock : access.owner;
+    check(name, owner, expected);
+    report.owners[name] = owner;
+  }
+
+  console.log("\nWiring:");
+  check(
+    "ManagerRegistry.fundraiseAddress",
+    await managerRegistry.fundraiseAddress(),
+    config.Fundraise
+  );
+  check(
+    "ManagerRegistry.rewardSystemAddress",
+    await managerRegistry.rewardSystemAddress(),
+    config.RewardSystem
+  );
+  check(
+    "ManagerRegistry.treasuryAddress",
+    await managerRegistry.treasuryAddress(),
+    config.Treasury
+  );
+  if (fundraise) {
+    check("Fundraise.managerRegistry", await fundraise.managerRegistry(), config.ManagerRegistry);
+    check("Fundraise.treasury", await fundraise.treasury(), config.Treasury);
+    check("Fundraise.rewardSystem", await fundraise.rewardSystem(), config.RewardSystem);
+    check("Fundraise.positionToken", await fundraise.positionToken(), config.PositionToken);
+    check("Fundraise.trustedSigner", await fundraise.trustedSigner(), access.trustedSigner);
+  }
+  if (rewardSystem) {
+    check(
+      "RewardSystem.managerRegistry",
+      await rewardSystem.managerRegistry(),
+      config.ManagerRegistry
+    );
+    check("RewardSystem.token", await rewardSystem.token(), config.token);
+    check("RewardSystem.usdc", await rewardSystem.usdc(), config.usdc);
+    check("RewardSystem.uniswapRouter", await rewardSystem.uniswapRouter(), config.uniswapV2Router);
+  }
+  if (config.token) {
+    const token = await ethers.getContractAt("Token", config.token);
+    check("Token.managerRegistry", await token.managerRegistry(), config.ManagerRegistry);
+  }
+
+  console.log("\nRoles:");
+  report.roles = {};
+  for (const role of Object.keys(Role) as RoleName[]) {
+    const members = await readPages(await managerRegistry.getRoleMemberCount(Role[role]), offset =>
+      managerRegistry.getRoleMembers(Role[role], offset, PAGE_SIZE)
+    );
+    checkList(role, members, access.roles?.[role]);
+    report.roles[role] = members;
+  }
+
+  console.log("\nPools:");
+  report.pools = await readPages(await managerRegistry.getPoolCount(), offset =>
+    managerRegistry.getPools(offset, PAGE_SIZE)
+  );
+  checkList("Pools", report.pools, access.pools);
+
+  console.log("\nClaim addresses:");
+  report.claimAddresses = {};
+  const claimCount = Number(await managerRegistry.getClaimAddressCount());
+  for (let offset = 0; offset < claimCount; offset += PAGE_SIZE) {
+    const [investors, claimAddresses] = await managerRegistry.getClaimAddresses(offset, PAGE_SIZE);
+    investors.forEach((investor, i) => {
+      console.log(`  ${investor} => ${claimAddresses[i]}`);
+      report.claimAddresses[getAddress(investor)] = claimAddresses[i];
+    });
+  }
+  if (!claimCount) console.log("  none");
+  console.log(
+    `  Cooldown of changes by investors: ${await managerRegistry.claimAddressCooldown()}s`
+  );
+
+  console.log("\nPaused actions:");
+  report.paused = [];
+  for (const action of ACTIONS) {
+    if (await managerRegistry.isPaused(id(action))) report.paused.push(action);
+  }
+  console.log(`  ${report.paused.length ? report.paused.join(", ") : "none"}`);
+
+  report.mismatches = mismatches;
+  if (process.env.AUDIT_REPORT) {
+    await writeJsonFile(process.env.AUDIT_REPORT, report);
+    console.log(`\n📝 Report: ${process.env.AUDIT_REPORT}`);
+  }
+
+  if (mismatches) {
+    console.log(`\n❌ ${mismatches} mismatches with config`);
+    process.exitCode = 1;
+  } else {
+    console.log("\n✅ Access control matches config");
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+import dotenv from "dotenv";
+import { ethers } from "hardhat";
+import { id } from "ethers";
+import { readJsonFile } from "../helpers";
+import { Role } from "../roles";
+dotenv.config();
+
+/** Pausable actions of ManagerRegistry, value is the action id preimage */
+const ACTIONS = ["INVEST", "CLAIM", "REWARD_CLAIM", "BUYBACK"];
+
+type PauseCommand = "status" | "pause" | "unpause";
+
+async function main() {
+  const command = (process.env.PAUSE_COMMAND || "status") as PauseCommand;
+  if (!["status", "pause", "unpause"].includes(command)) {
+    throw new Error("PAUSE_COMMAND must be one of status, pause, unpause");
+  }
+
+  // Comma separated, e.g. "invest,claim", or "all" for the emergency stop
+  const targets = (process.env.PAUSE_ACTIONS || "all")
+    .split(",")
+    .map(action => action.trim().toUpperCase())
+    .filter(Boolean);
+  const actions = targets.includes("ALL") ? ACTIONS : targets;
+  const unknown = actions.filter(action => !ACTIONS.includes(action));
+  if (unknown.length) {
+    throw new Error(`Unknown actions: ${unknown.join(", ")}, expected ${ACTIONS.join(", ")} or ALL`);
+  }
+
+  const net = await ethers.provider.getNetwork();
+  console.log("\nNetwork name:", net.name, "\n");
+
+  const config = await readJsonFile(`./scripts/config/${net.chainId}-config.json`);
+  if (!config.ManagerRegistry) {
+    throw new Error("ManagerRegistry not found in config. Please deploy it first.");
+  }
+
+  const [signer] = await ethers.getSigners();
+  const signerAddress = await signer.getAddress();
+  const managerRegistry = await ethers.getContractAt("ManagerRegistry", config.ManagerRegistry, signer);
+  const owner = await managerRegistry.owner();
+  const isOwner = owner.toLowerCase() === signerAddress.toLowerCase();
+  const isGuardian = await managerRegistry.hasRole(Role.Guardian, signerAddress);
+
+  console.log("ManagerRegistry address:", config.ManagerRegistry);
+  console.log("Owner:", owner);
+  console.log(`Signer: ${signerAddress} (owner: ${isOwner}, guardian: ${isGuardian})\n`);
+
+  const report = async () => {
+    for (const action of ACTIONS) {
+      const paused = await managerRegistry.isPaused(id(action));
+      console.log(`  ${paused ? "⏸️ " : "▶️ "} ${action.padEnd(12)} ${paused ? "paused" : "active"}`);
+    }
+    if (config.RewardSystem) {
+      const rewardSystem = await ethers.getContractAt("RewardSystem", config.RewardSystem);
+      console.log(`\nPending buyback: ${ethers.formatEther(await rewardSystem.pendingBuybackAmount())} tokens`);
+    }
+  };
+
+  console.log("Pause state:");
+  await report();
+  if (command === "status") {
+    return;
+  }
+
+  const actionIds = actions.map(action => id(action));
+  const allowed = command === "pause" ? isOwner || isGuardian : isOwner;
+  if (!allowed) {
+    // Owner is usually a multisig, print the call to submit there
+    const data =
+      command === "pause"
+        ? managerRegistry.interface.encodeFunctionData("pause", [actionIds])
+        : managerRegistry.interface.encodeFunctionData("unpause", [actionIds]);
+    console.log(`\nSigner can't ${command}, submit this call from the owner:`);
+    console.log(`  to:   ${config.ManagerRegistry}`);
+    console.log(`  data: ${data}`);
+    return;
+  }
+
+  console.log(`\n${command === "pause" ? "Pausing" : "Unpausing"}: ${actions.join(", ")}`);
+  const tx = await managerRegistry[command](actionIds);
+  console.log("Transaction hash:", tx.hash);
+  await tx.wait();
+
+  console.log("\nPause state:");
+  await report();
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+import MerkleTree from "merkletreejs";
+import { getBytes, keccak256 } from "ethers";
+
+// Whitelist encoding shared by scripts, tests and frontend.
+// Does not import hardhat, so it can be bundled outside of the hardhat runtime.
+
+export interface WhitelistProof {
+  root: string;
+  proof: string[];
+}
+
+/**
+ * Leaf is keccak256 of the raw 20 address bytes,
+ * same as keccak256(abi.encodePacked(msg.sender)) in Fundraise.
+ */
+export const hashAddress = (address: string): Buffer => {
+  address = address.toLowerCase().replace(/^0x/, "");
+  return Buffer.from(getBytes(keccak256("0x" + address)));
+};
+
+export function buildWhitelistTree(whitelist: string[]): MerkleTree {
+  const leafNodes: Buffer[] = whitelist.map(hashAddress);
+  return new MerkleTree(leafNodes, keccak256, { sortPairs: true });
+}
+
+/**
+ * Builds root and proof for investor. Throws if investor is not in whitelist.
+ */
+export function getWhitelistProof(whitelist: string[], investor: string): WhitelistProof {
+  const isListed = whitelist.some(address => address.toLowerCase() === investor.toLowerCase());
+  if (!isListed) {
+    throw new Error(`Address ${investor} is not in whitelist`);
+  }
+
+  const tree = buildWhitelistTree(whitelist);
+  return {
+    root: tree.getHexRoot(),
+    proof: tree.getHexProof(hashAddress(investor)),
+  };
+}
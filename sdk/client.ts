@@ -0,0 +1,499 @@
+import fs from "fs";
+import path from "path";
+import { BigNumberish, ContractRunner, ContractTransactionResponse, Signer, ZeroHash } from "ethers";
+import {
+  Fundraise,
+  Fundraise__factory,
+  IERC20Metadata__factory,
+  ManagerRegistry,
+  ManagerRegistry__factory,
+  RewardSystem,
+  RewardSystem__factory,
+  Token,
+  Token__factory,
+  Treasury,
+  Treasury__factory,
+} from "../typechain-types";
+import { Stage } from "../scripts/stage";
+import { buildWhitelistTree } from "../scripts/whitelist";
+import { Installment, InterestModel } from "../scripts/schedule";
+import { InvalidInputError, NotAuthorizedError, NothingToClaimError, ProjectNotFoundError, withErrors } from "./errors";
+import { fromUnits, percentToRate, rateToPercent, toUnits } from "./units";
+import { signPermit } from "./permit";
+import {
+  Amount,
+  ClaimRewardsResult,
+  CreateProjectParams,
+  EightLendsAddresses,
+  Portfolio,
+  PortfolioPosition,
+  ProjectSummary,
+  RepaymentStatus,
+  SignedInvestAuthorization,
+  Timestamp,
+} from "./types";
+
+const PORTFOLIO_BATCH_SIZE = 50;
+/** Seconds a permit signed by the client is valid */
+const PERMIT_DEADLINE = 3600;
+
+function toSeconds(value: Timestamp): bigint {
+  return value instanceof Date ? BigInt(Math.floor(value.getTime() / 1000)) : BigInt(value);
+}
+
+/**
+ * High level client for Fundraise, RewardSystem, ManagerRegistry, Treasury and Token.
+ * Write methods need a Signer as runner, reverts are rethrown as errors from ./errors.
+ */
+export class EightLendsClient {
+  readonly fundraise: Fundraise;
+  readonly rewardSystem: RewardSystem;
+  readonly managerRegistry: ManagerRegistry;
+  readonly treasury: Treasury;
+  readonly token: Token;
+
+  private readonly decimals = new Map<string, number>();
+
+  constructor(
+    private readonly runner: ContractRunner,
+    readonly addresses: EightLendsAddresses
+  ) {
+    this.fundraise = Fundraise__factory.connect(addresses.Fundraise, runner);
+    this.rewardSystem = RewardSystem__factory.connect(addresses.RewardSystem, runner);
+    this.managerRegistry = ManagerRegistry__factory.connect(addresses.ManagerRegistry, runner);
+    this.treasury = Treasury__factory.connect(addresses.Treasury, runner);
+    this.token = Token__factory.connect(addresses.token, runner);
+  }
+
+  /**
+   * Client with addresses from scripts/config/<chainId>-config.json
+   */
+  static async fromConfig(runner: ContractRunner, configDir = path.join(__dirname, "../scripts/config")) {
+    if (!runner.provider) {
+      throw new InvalidInputError("Runner is not connected to a provider");
+    }
+    const { chainId } = await runner.provider.getNetwork();
+    const config = JSON.parse(fs.readFileSync(path.join(configDir, `${chainId}-config.json`), "utf8"));
+    return new EightLendsClient(runner, config);
+  }
+
+  /**
+   * Creates project, caller needs PROJECT_ADMIN_ROLE. Amounts are converted with loan token
+   * decimals.
+   * Accrued interest model, ticket limits and fee split are set with separate transactions.
+   */
+  async createProject(params: CreateProjectParams): Promise<bigint> {
+    const decimals = await this.getDecimals(params.loanToken);
+    const softCap = toUnits(params.softCap, decimals);
+    const hardCap = toUnits(params.hardCap, decimals);
+    if (softCap > hardCap) {
+      throw new InvalidInputError("softCap is greater than hardCap");
+    }
+    const minTicket = params.minTicket === undefined ? 0n : toUnits(params.minTicket, decimals);
+    const maxPerInvestor = params.maxPerInvestor === undefined ? 0n : toUnits(params.maxPerInvestor, decimals);
+    if (maxPerInvestor > 0n && maxPerInvestor < minTicket) {
+      throw new InvalidInputError("maxPerInvestor is less than minTicket");
+    }
+
+    const feeSplit = params.feeSplit && {
+      ...params.feeSplit,
+      originatorShare: percentToRate(params.feeSplit.originatorShare),
+      insuranceShare: percentToRate(params.feeSplit.insuranceShare),
+    };
+    if (feeSplit && feeSplit.originatorShare + feeSplit.insuranceShare > percentToRate(100)) {
+      throw new InvalidInputError("Fee shares exceed 100%");
+    }
+
+    let whitelistRoot = params.whitelistRoot ?? ZeroHash;
+    if (!params.whitelistRoot && params.whitelist?.length) {
+      whitelistRoot = buildWhitelistTree(params.whitelist).getHexRoot();
+    }
+
+    const project: Fundraise.ProjectStruct = {
+      softCap,
+      hardCap,
+      totalInvested: 0,
+      startAt: toSeconds(params.startAt),
+      preFundDuration: params.preFundDuration,
+      investorInterestRate: percentToRate(params.investorInterestRate),
+      openStageEndAt: toSeconds(params.openStageEndAt),
+      innerStruct: {
+        borrower: params.borrower,
+        loanToken: params.loanToken,
+        platformInterestRate: percentToRate(params.platformInterestRate),
+        totalRepaid: 0,
+        fundedTime: 0,
+        stage: Stage.ComingSoon,
+      },
+    };
+
+    const receipt = await this.send(fundraise =>
+      fundraise.createProject(project, whitelistRoot, params.projectHash)
+    );
+    const created = receipt.logs
+      .map(log => this.fundraise.interface.parseLog(log))
+      .find(event => event?.name === "ProjectCreated");
+    if (!created) {
+      throw new Error(`ProjectCreated event not found in ${receipt.hash}`);
+    }
+    const projectId: bigint = created.args.projectId;
+
+    const interestModel = params.interestModel ?? InterestModel.Flat;
+    if (interestModel !== InterestModel.Flat || params.maturity !== undefined) {
+      const maturity = params.maturity === undefined ? 0n : toSeconds(params.maturity);
+      await this.send(fundraise => fundraise.setInterestTerms(projectId, interestModel, maturity));
+    }
+    if (minTicket > 0n || maxPerInvestor > 0n) {
+      await this.send(fundraise => fundraise.setTicketLimits(projectId, minTicket, maxPerInvestor));
+    }
+    if (feeSplit) {
+      await this.send(fundraise => fundraise.setFeeSplit(projectId, feeSplit));
+    }
+    return projectId;
+  }
+
+  /**
+   * Invests with an authorization signed by Fundraise.trustedSigner.
+   * Approves loan token first when allowance is not enough.
+   */
+  async invest(authorization: SignedInvestAuthorization, options: { approve?: boolean } = {}) {
+    const signer = this.requireSigner();
+    const summary = await this.getProjectSummary(authorization.projectId);
+    const amount = BigInt(authorization.amount);
+
+    if (options.approve ?? true) {
+      const loanToken = IERC20Metadata__factory.connect(summary.loanToken, signer);
+      const allowance = await loanToken.allowance(await signer.getAddress(), this.addresses.Fundraise);
+      if (allowance < amount) {
+        await withErrors(async () => (await loanToken.approve(this.addresses.Fundraise, amount)).wait());
+      }
+    }
+
+    return this.send(fundraise =>
+      fundraise.investUpdate(
+        authorization.projectId,
+        amount,
+        authorization.rootHash,
+        authorization.nonce,
+        authorization.deadline,
+        authorization.signature,
+        authorization.inviter,
+        authorization.proof
+      )
+    );
+  }
+
+  /**
+   * Invests with an authorization signed by Fundraise.trustedSigner and EIP-2612 permit of the signer
+   * instead of approve transaction. Loan token has to support permit.
+   */
+  async investWithPermit(authorization: SignedInvestAuthorization, options: { permitDeadline?: BigNumberish } = {}) {
+    const signer = this.requireSigner();
+    const summary = await this.getProjectSummary(authorization.projectId);
+    const amount = BigInt(authorization.amount);
+    const permit = await signPermit(
+      signer,
+      summary.loanToken,
+      this.addresses.Fundraise,
+      amount,
+      options.permitDeadline ?? (await this.defaultPermitDeadline())
+    );
+
+    return this.send(fundraise =>
+      fundraise.investWithPermit(
+        authorization.projectId,
+        amount,
+        authorization.rootHash,
+        authorization.nonce,
+        authorization.deadline,
+        authorization.signature,
+        authorization.inviter,
+        authorization.proof,
+        permit
+      )
+    );
+  }
+
+  /**
+   * Repays funded project, anyone can pay on behalf of the borrower. Amount is converted with loan token
+   * decimals and sent as is: the contract takes only the outstanding amount, which for Accrued interest is
+   * counted in the block of the repayment. With `permit` the allowance is set by EIP-2612 permit, otherwise
+   * loan token is approved first when allowance is not enough.
+   */
+  async repay(
+    projectId: BigNumberish,
+    amount: Amount,
+    options: { permit?: boolean; permitDeadline?: BigNumberish } = {}
+  ) {
+    const signer = this.requireSigner();
+    const summary = await this.getProjectSummary(projectId);
+    const value = toUnits(amount, await this.getDecimals(summary.loanToken));
+
+    if (options.permit) {
+      const permit = await signPermit(
+        signer,
+        summary.loanToken,
+        this.addresses.Fundraise,
+        value,
+        options.permitDeadline ?? (await this.defaultPermitDeadline())
+      );
+      return this.send(fundraise => fundraise.makeRepaymentWithPermit(projectId, value, permit));
+    }
+
+    const loanToken = IERC20Metadata__factory.connect(summary.loanToken, signer);
+    const allowance = await loanToken.allowance(await signer.getAddress(), this.addresses.Fundraise);
+    if (allowance < value) {
+      await withErrors(async () => (await loanToken.approve(this.addresses.Fundraise, value)).wait());
+    }
+    return this.send(fundraise => fundraise.makeRepayment(projectId, value));
+  }
+
+  /**
+   * Claims repaid funds. Investor defaults to the signer, repayment operators can claim for
+   * other investors.
+   */
+  async claim(projectId: BigNumberish, investor?: string) {
+    const account = investor ?? (await this.requireSigner().getAddress());
+    return this.send(fundraise => fundraise.claim(projectId, account));
+  }
+
+  /**
+   * Refunds investors of a cancelled project, anyone can send it. PreFunded project is cancelled
+   * first when its preFundDuration has passed. Investors without investment are skipped.
+   */
+  async refundInvestors(projectId: BigNumberish, investors: string[]) {
+    return this.send(fundraise => fundraise.refundInvestors(projectId, investors));
+  }
+
+  /**
+   * Moves part of the signer's position to another address, amount is converted with loan token decimals.
+   * Claimed amount and reward vesting move proportionally.
+   */
+  async transferPosition(projectId: BigNumberish, to: string, amount: Amount) {
+    if (BigInt(projectId) >= (await this.fundraise.projectCount())) {
+      throw new ProjectNotFoundError("Project not found");
+    }
+    const { innerStruct } = await this.fundraise.projects(projectId);
+    const decimals = await this.getDecimals(innerStruct.loanToken);
+    return this.send(fundraise => fundraise.transferPosition(projectId, to, toUnits(amount, decimals)));
+  }
+
+  /**
+   * Claims referral USDC and unlocked vesting tokens of the signer, whichever is available
+   */
+  async claimRewards(projectId: BigNumberish): Promise<ClaimRewardsResult> {
+    const account = await this.requireSigner().getAddress();
+    const rewards = await this.rewardSystem.getProjectRewards(account, projectId);
+    if (!rewards.isActivated || (rewards.totalUSDC === 0n && rewards.claimableTokens === 0n)) {
+      throw new NothingToClaimError("No rewards to claim");
+    }
+
+    const result: ClaimRewardsResult = { usdcClaimed: false, tokensClaimed: false };
+    if (rewards.totalUSDC > 0n) {
+      await this.sendReward(rewardSystem => rewardSystem.claimUSDCForProject(projectId));
+      result.usdcClaimed = true;
+    }
+    if (rewards.claimableTokens > 0n) {
+      await this.sendReward(rewardSystem => rewardSystem.claimTokensForProject(projectId));
+      result.tokensClaimed = true;
+    }
+    return result;
+  }
+
+  /**
+   * Proposes address receiving payouts of the signer. The new address accepts it with
+   * acceptClaimAddress, payouts go there after ManagerRegistry.claimAddressCooldown.
+   */
+  async proposeClaimAddress(claimAddress: string) {
+    return this.sendRegistry(managerRegistry => managerRegistry.proposeClaimAddress(claimAddress));
+  }
+
+  /**
+   * Accepts claim address proposed by investor, the signer is the new claim address
+   */
+  async acceptClaimAddress(investor: string) {
+    return this.sendRegistry(managerRegistry => managerRegistry.acceptClaimAddress(investor));
+  }
+
+  /**
+   * Sets installments, e.g. from generateRepaymentSchedule. Caller needs REPAYMENT_OPERATOR_ROLE.
+   */
+  async setRepaymentSchedule(projectId: BigNumberish, installments: Installment[]) {
+    return this.send(fundraise => fundraise.setRepaymentSchedule(projectId, installments));
+  }
+
+  async getRepaymentStatus(projectId: BigNumberish): Promise<RepaymentStatus> {
+    const [schedule, next, overdue, daysLate] = await Promise.all([
+      this.fundraise.getRepaymentSchedule(projectId),
+      this.fundraise.nextDueInstallment(projectId),
+      this.fundraise.overdueAmount(projectId),
+      this.fundraise.daysLate(projectId),
+    ]);
+    const isRepaid = next.index === BigInt(schedule.length);
+
+    return {
+      schedule: schedule.map(({ dueAt, principal, interest }) => ({ dueAt, principal, interest })),
+      nextDueIndex: isRepaid ? undefined : Number(next.index),
+      nextDueAt: isRepaid ? undefined : next.dueAt,
+      amountDue: next.amountDue,
+      overdue,
+      daysLate: Number(daysLate),
+    };
+  }
+
+  async getProjectSummary(projectId: BigNumberish): Promise<ProjectSummary> {
+    const id = BigInt(projectId);
+    if (id >= (await this.fundraise.projectCount())) {
+      throw new ProjectNotFoundError("Project not found");
+    }
+
+    const [project, isOpen, receiptTokens, terms, limits, accruedInterest] = await Promise.all([
+      this.fundraise.projects(id),
+      this.fundraise.openProjects(id),
+      this.fundraise.receiptTokens(id),
+      this.fundraise.interestTerms(id),
+      this.fundraise.ticketLimits(id),
+      this.fundraise.accruedInterest(id),
+    ]);
+    const { innerStruct } = project;
+    const decimals = await this.getDecimals(innerStruct.loanToken);
+    const expectedRepayment = project.totalInvested + accruedInterest;
+    const stage = Number(innerStruct.stage) as Stage;
+
+    return {
+      id,
+      borrower: innerStruct.borrower,
+      loanToken: innerStruct.loanToken,
+      decimals,
+      stage,
+      stageName: Stage[stage],
+      isOpen,
+      receiptTokens,
+      softCap: project.softCap,
+      hardCap: project.hardCap,
+      minTicket: limits.minTicket,
+      maxPerInvestor: limits.maxPerInvestor,
+      totalInvested: project.totalInvested,
+      totalRepaid: innerStruct.totalRepaid,
+      expectedRepayment,
+      interestModel: Number(terms.model) as InterestModel,
+      maturity: terms.maturity,
+      accruedInterest,
+      investorInterestRate: rateToPercent(project.investorInterestRate),
+      platformInterestRate: rateToPercent(innerStruct.platformInterestRate),
+      startAt: project.startAt,
+      openStageEndAt: project.openStageEndAt,
+      preFundDuration: project.preFundDuration,
+      fundedTime: innerStruct.fundedTime,
+      formatted: {
+        softCap: fromUnits(project.softCap, decimals),
+        hardCap: fromUnits(project.hardCap, decimals),
+        minTicket: fromUnits(limits.minTicket, decimals),
+        maxPerInvestor: fromUnits(limits.maxPerInvestor, decimals),
+        totalInvested: fromUnits(project.totalInvested, decimals),
+        totalRepaid: fromUnits(innerStruct.totalRepaid, decimals),
+        expectedRepayment: fromUnits(expectedRepayment, decimals),
+        accruedInterest: fromUnits(accruedInterest, decimals),
+      },
+    };
+  }
+
+  /**
+   * Investments, claims and rewards of the address over all projects
+   */
+  async getPortfolio(address: string): Promise<Portfolio> {
+    const projectCount = await this.fundraise.projectCount();
+    const positions: PortfolioPosition[] = [];
+
+    for (let from = 0n; from < projectCount; from += BigInt(PORTFOLIO_BATCH_SIZE)) {
+      const ids: bigint[] = [];
+      for (let id = from; id < projectCount && id < from + BigInt(PORTFOLIO_BATCH_SIZE); id++) {
+        ids.push(id);
+      }
+      const batch = await Promise.all(ids.map(id => this.getPosition(address, id)));
+      positions.push(...batch.filter((position): position is PortfolioPosition => position !== undefined));
+    }
+
+    return { address, positions };
+  }
+
+  private async getPosition(address: string, projectId: bigint): Promise<PortfolioPosition | undefined> {
+    const [info, rewards] = await Promise.all([
+      this.fundraise.investorInfo(address, projectId),
+      this.rewardSystem.getProjectRewards(address, projectId),
+    ]);
+    const hasRewards = rewards.totalUSDC > 0n || rewards.totalTokens > 0n;
+    if (info.investedAmount === 0n && info.totalClaimed === 0n && !hasRewards) {
+      return undefined;
+    }
+
+    const [project, claimable] = await Promise.all([
+      this.fundraise.projects(projectId),
+      this.fundraise.availableToClaim(projectId, address),
+    ]);
+    const loanToken = project.innerStruct.loanToken;
+    const decimals = await this.getDecimals(loanToken);
+
+    return {
+      projectId,
+      stage: Number(project.innerStruct.stage) as Stage,
+      loanToken,
+      decimals,
+      invested: info.investedAmount,
+      claimed: info.totalClaimed,
+      claimable,
+      rewards: {
+        activated: rewards.isActivated,
+        usdc: rewards.totalUSDC,
+        tokens: rewards.totalTokens,
+        tokensClaimed: rewards.claimedTokens,
+        tokensClaimable: rewards.claimableTokens,
+      },
+      formatted: {
+        invested: fromUnits(info.investedAmount, decimals),
+        claimed: fromUnits(info.totalClaimed, decimals),
+        claimable: fromUnits(claimable, decimals),
+      },
+    };
+  }
+
+  private async getDecimals(token: string): Promise<number> {
+    const key = token.toLowerCase();
+    let decimals = this.decimals.get(key);
+    if (decimals === undefined) {
+      decimals = Number(await IERC20Metadata__factory.connect(token, this.runner).decimals());
+      this.decimals.set(key, decimals);
+    }
+    return decimals;
+  }
+
+  /**
+   * One hour after the latest block, block time can differ from local time on test networks
+   */
+  private async defaultPermitDeadline(): Promise<bigint> {
+    const block = await this.requireSigner().provider!.getBlock("latest");
+    return BigInt(block!.timestamp + PERMIT_DEADLINE);
+  }
+
+  private requireSigner(): Signer {
+    if (!this.runner || typeof (this.runner as Signer).getAddress !== "function") {
+      throw new NotAuthorizedError("Client is read-only, connect it with a Signer");
+    }
+    return this.runner as Signer;
+  }
+
+  private async send(call: (fundraise: Fundraise) => Promise<ContractTransactionResponse>) {
+    this.requireSigner();
+    return withErrors(async () => (await (await call(this.fundraise)).wait())!);
+  }
+
+  private async sendRegistry(call: (managerRegistry: ManagerRegistry) => Promise<ContractTransactionResponse>) {
+    this.requireSigner();
+    return withErrors(async () => (await (await call(this.managerRegistry)).wait())!);
+  }
+
+  private async sendReward(call: (rewardSystem: RewardSystem) => Promise<ContractTransactionResponse>) {
+    this.requireSigner();
+    return withErrors(async () => (await (await call(this.rewardSystem)).wait())!);
+  }
+}
@@ -0,0 +1,180 @@
+import { Interface, isCallException } from "ethers";
+import { IERC20Errors__factory } from "../typechain-types";
+
+/**
+ * Base class of all SDK errors. `reason` is the contract revert string or custom error name.
+ */
+export class EightLendsError extends Error {
+  constructor(
+    message: string,
+    public readonly reason?: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+/** Caller has no role / is not borrower or investor, or signature is not from trusted signer */
+export class NotAuthorizedError extends EightLendsError {}
+
+/** Invest authorization is expired, reused or malformed */
+export class InvalidAuthorizationError extends EightLendsError {}
+
+/** Investor is not in the project whitelist */
+export class NotWhitelistedError extends EightLendsError {}
+
+export class ProjectNotFoundError extends EightLendsError {}
+
+/** Action is not allowed at current project stage */
+export class InvalidStageError extends EightLendsError {}
+
+/** Investment breaks project limits */
+export class InvestmentLimitError extends EightLendsError {}
+
+/** There is no investment or rewards to claim or withdraw */
+export class NothingToClaimError extends EightLendsError {}
+
+/** Not enough balance or allowance */
+export class InsufficientFundsError extends EightLendsError {}
+
+export class InvalidInputError extends EightLendsError {}
+
+/** Action is paused by a guardian in ManagerRegistry */
+export class PausedError extends EightLendsError {}
+
+/** Revert which is not mapped to a specific error */
+export class ContractRevertError extends EightLendsError {}
+
+type ErrorClass = new (message: string, reason?: string, cause?: unknown) => EightLendsError;
+
+/**
+ * Revert strings and custom errors of the protocol contracts
+ */
+export const REVERT_ERRORS: Record<string, ErrorClass> = {
+  "Missing role": NotAuthorizedError,
+  "Not a manager": NotAuthorizedError,
+  "ManagerRegistry: Not a role admin": NotAuthorizedError,
+  "Not a fundraise": NotAuthorizedError,
+  "Not a trusted signer": NotAuthorizedError,
+  "Transfer not approved": NotAuthorizedError,
+  "Not a position token": NotAuthorizedError,
+  "ManagerRegistry: Not a guardian": NotAuthorizedError,
+  "ManagerRegistry: Not a project admin": NotAuthorizedError,
+  "Claim address change disabled": NotAuthorizedError,
+  "Nothing to accept": NotAuthorizedError,
+  OwnableUnauthorizedAccount: NotAuthorizedError,
+
+  "Signature expired": InvalidAuthorizationError,
+  "Incorrect nonce": InvalidAuthorizationError,
+  "invalid signature length": InvalidAuthorizationError,
+  "Permit failed": InvalidAuthorizationError,
+
+  "Not whitelisted": NotWhitelistedError,
+
+  "Project does not exist": ProjectNotFoundError,
+  "Project doesn't exist": ProjectNotFoundError,
+  "Project not found": ProjectNotFoundError,
+
+  "Project is closed yet": InvalidStageError,
+  "Project isn't Funded stage": InvalidStageError,
+  "Project not canceled": InvalidStageError,
+  "Invalid stage for claiming": InvalidStageError,
+  "Invalid stage for cancellation": InvalidStageError,
+  "Not funded enough": InvalidStageError,
+  "Project rewards not activated": InvalidStageError,
+  "Rewards already activated": InvalidStageError,
+  "Invalid stage for schedule": InvalidStageError,
+  "Can't update funded project": InvalidStageError,
+  "Project isn't Defaulted stage": InvalidStageError,
+  "Grace period not passed": InvalidStageError,
+  "Invalid stage for transfer": InvalidStageError,
+  "Project has investments": InvalidStageError,
+
+  "Investment exceeds hardcap": InvestmentLimitError,
+  "Investment below min ticket": InvestmentLimitError,
+  "Investment exceeds investor limit": InvestmentLimitError,
+  "Cannot invest in your own project": InvestmentLimitError,
+  "Inviter cannot be the same as the investor": InvestmentLimitError,
+
+  "No investment found": NothingToClaimError,
+  "No investment to withdraw": NothingToClaimError,
+  "No USDC rewards for this project": NothingToClaimError,
+  "No token rewards for this project": NothingToClaimError,
+  "No tokens to claim": NothingToClaimError,
+  "Not enough tokens to claim": NothingToClaimError,
+
+  ERC20InsufficientBalance: InsufficientFundsError,
+  ERC20InsufficientAllowance: InsufficientFundsError,
+
+  "Invalid address": InvalidInputError,
+  "Invalid user address": InvalidInputError,
+  "Invalid amount": InvalidInputError,
+  "Invalid recipient": InvalidInputError,
+  "Position token not set": InvalidInputError,
+  "Wrong ticket limits": InvalidInputError,
+  "Loan token not accepted": InvalidInputError,
+  "Invalid price path": InvalidInputError,
+  "Empty arrays": InvalidInputError,
+  "Users and amounts length mismatch": InvalidInputError,
+  "Users and projectIds length mismatch": InvalidInputError,
+  "Empty schedule": InvalidInputError,
+  "Due dates not sorted": InvalidInputError,
+  "Maturity is for accrued interest": InvalidInputError,
+  "Fee shares exceed 100%": InvalidInputError,
+  "Zero fee recipient": InvalidInputError,
+  "ManagerRegistry: Length mismatch": InvalidInputError,
+  "Invalid claim address": InvalidInputError,
+  "No pending claim address": InvalidInputError,
+
+  Paused: PausedError,
+};
+
+const erc20Errors: Interface = IERC20Errors__factory.createInterface();
+
+// Hardhat network and some nodes return reverts as plain JSON-RPC errors
+const REVERT_MESSAGE = /reverted with (?:reason string '(.*)'|custom error '(\w+)\()/;
+
+function getRevertReason(error: any): string | undefined {
+  if (!isCallException(error)) {
+    const match = typeof error?.message === "string" ? REVERT_MESSAGE.exec(error.message) : null;
+    return match ? match[1] ?? match[2] : undefined;
+  }
+  if (error.reason) {
+    return error.reason;
+  }
+  if (error.revert) {
+    return error.revert.name === "Error" ? String(error.revert.args[0]) : error.revert.name;
+  }
+  if (error.data) {
+    const parsed = erc20Errors.parseError(error.data);
+    if (parsed) return parsed.name;
+  }
+  return undefined;
+}
+
+/**
+ * Converts ethers call exception into a typed SDK error. Other errors are returned as is.
+ */
+export function toEightLendsError(error: unknown): unknown {
+  if (error instanceof EightLendsError) {
+    return error;
+  }
+  const reason = getRevertReason(error);
+  if (reason === undefined) {
+    return error;
+  }
+  const ErrorType = REVERT_ERRORS[reason] ?? ContractRevertError;
+  return new ErrorType(reason, reason, error);
+}
+
+/**
+ * Runs contract call and rethrows reverts as typed errors
+ */
+export async function withErrors<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw toEightLendsError(error);
+  }
+}
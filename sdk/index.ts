@@ -0,0 +1,8 @@
+export { EightLendsClient } from "./client";
+export * from "./errors";
+export * from "./types";
+export * from "./units";
+export * from "./permit";
+export { Stage } from "../scripts/stage";
+export { generateRepaymentSchedule, InterestModel, scheduleTotal, ScheduleType } from "../scripts/schedule";
+export type { Installment, ScheduleParams } from "../scripts/schedule";
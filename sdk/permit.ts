@@ -0,0 +1,77 @@
+import { BigNumberish, Contract, Signature, Signer, TypedDataDomain, TypedDataEncoder } from "ethers";
+import { IERC20Metadata__factory, IERC20Permit__factory, IERC5267__factory } from "../typechain-types";
+import { InvalidInputError } from "./errors";
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const VERSION_ABI = ["function version() view returns (string)"];
+
+/**
+ * Fundraise.PermitSignature, passed to investWithPermit and makeRepaymentWithPermit
+ */
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * EIP-712 domain of a permit token. Read with ERC-5267 eip712Domain when the token has it,
+ * otherwise built from name() and version() (or "1") and checked against DOMAIN_SEPARATOR().
+ */
+export async function getPermitDomain(signer: Signer, token: string): Promise<TypedDataDomain> {
+  try {
+    const domain = await IERC5267__factory.connect(token, signer).eip712Domain();
+    return {
+      name: domain.name,
+      version: domain.version,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    };
+  } catch {
+    // Token without ERC-5267, e.g. USDC
+  }
+
+  const { chainId } = await signer.provider!.getNetwork();
+  const name = await IERC20Metadata__factory.connect(token, signer).name();
+  let version = "1";
+  try {
+    version = await new Contract(token, VERSION_ABI, signer).version();
+  } catch {
+    // version() is optional
+  }
+  const domain = { name, version, chainId, verifyingContract: token };
+  const separator = await IERC20Permit__factory.connect(token, signer).DOMAIN_SEPARATOR();
+  if (TypedDataEncoder.hashDomain(domain) !== separator) {
+    throw new InvalidInputError(`Unknown permit domain of token ${token}`);
+  }
+  return domain;
+}
+
+/**
+ * Signs EIP-2612 permit of `value` tokens of the signer to `spender`
+ */
+export async function signPermit(
+  signer: Signer,
+  token: string,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish
+): Promise<PermitSignature> {
+  const owner = await signer.getAddress();
+  const nonce = await IERC20Permit__factory.connect(token, signer).nonces(owner);
+  const domain = await getPermitDomain(signer, token);
+  const signature = Signature.from(
+    await signer.signTypedData(domain, PERMIT_TYPES, { owner, spender, value, nonce, deadline })
+  );
+  return { deadline: BigInt(deadline), v: signature.v, r: signature.r, s: signature.s };
+}
@@ -0,0 +1,169 @@
+import { BigNumberish } from "ethers";
+import { Stage } from "../scripts/stage";
+import { Installment, InterestModel } from "../scripts/schedule";
+
+/** Token amount, numbers and strings are human readable ("1000.5"), bigints are raw units */
+export type Amount = number | string | bigint;
+
+/** Unix time in seconds or a Date */
+export type Timestamp = number | bigint | Date;
+
+/**
+ * Addresses of the protocol contracts, same keys as scripts/config/<chainId>-config.json
+ */
+export interface EightLendsAddresses {
+  Fundraise: string;
+  RewardSystem: string;
+  ManagerRegistry: string;
+  Treasury: string;
+  token: string;
+}
+
+export interface CreateProjectParams {
+  borrower: string;
+  loanToken: string;
+  softCap: Amount;
+  hardCap: Amount;
+  /** Minimal total investment of an investor, no limit by default */
+  minTicket?: Amount;
+  /** Maximal total investment of an investor, no limit by default */
+  maxPerInvestor?: Amount;
+  startAt: Timestamp;
+  openStageEndAt: Timestamp;
+  /** Seconds after openStageEndAt while the project can still be funded */
+  preFundDuration: number | bigint;
+  /** Percent, e.g. 20 for 20%. APR for Accrued interest model */
+  investorInterestRate: number | string;
+  /** Percent, e.g. 3 for 3% */
+  platformInterestRate: number | string;
+  /** Flat by default */
+  interestModel?: InterestModel;
+  /** End of interest accrual for Accrued model */
+  maturity?: Timestamp;
+  /** Split of platform fee, whole fee goes to treasury by default */
+  feeSplit?: FeeSplitParams;
+  /** Investor addresses, root is built with scripts/whitelist. Ignored when whitelistRoot is set */
+  whitelist?: string[];
+  whitelistRoot?: string;
+  projectHash: BigNumberish;
+}
+
+/**
+ * Fundraise.FeeSplit with shares in percents of the platform fee, treasury gets the rest
+ */
+export interface FeeSplitParams {
+  /** Partner who sourced the deal */
+  originator: string;
+  originatorShare: number | string;
+  /** Insurance / reserve pot */
+  insurance: string;
+  insuranceShare: number | string;
+}
+
+/**
+ * Signed arguments of Fundraise.investUpdate, e.g. response of the trusted signer service
+ */
+export interface SignedInvestAuthorization {
+  projectId: BigNumberish;
+  amount: BigNumberish;
+  rootHash: string;
+  nonce: BigNumberish;
+  deadline: BigNumberish;
+  signature: string;
+  inviter: string;
+  proof: string[];
+}
+
+export interface ProjectSummary {
+  id: bigint;
+  borrower: string;
+  loanToken: string;
+  decimals: number;
+  stage: Stage;
+  stageName: string;
+  isOpen: boolean;
+  /** Positions are minted as PositionToken receipts, token id is project id */
+  receiptTokens: boolean;
+  softCap: bigint;
+  hardCap: bigint;
+  /** 0 - no limit */
+  minTicket: bigint;
+  /** 0 - no limit */
+  maxPerInvestor: bigint;
+  totalInvested: bigint;
+  totalRepaid: bigint;
+  /** totalInvested plus investor interest, project is Repaid when totalRepaid reaches it */
+  expectedRepayment: bigint;
+  interestModel: InterestModel;
+  /** 0 when Accrued interest has no maturity */
+  maturity: bigint;
+  /** Investor interest for now, constant for Flat model */
+  accruedInterest: bigint;
+  /** Percent, APR for Accrued model */
+  investorInterestRate: number;
+  /** Percent */
+  platformInterestRate: number;
+  startAt: bigint;
+  openStageEndAt: bigint;
+  preFundDuration: bigint;
+  fundedTime: bigint;
+  /** Amounts above in token units */
+  formatted: {
+    softCap: string;
+    hardCap: string;
+    minTicket: string;
+    maxPerInvestor: string;
+    totalInvested: string;
+    totalRepaid: string;
+    expectedRepayment: string;
+    accruedInterest: string;
+  };
+}
+
+export interface PortfolioRewards {
+  activated: boolean;
+  /** Unclaimed referral USDC */
+  usdc: bigint;
+  /** Total vesting tokens */
+  tokens: bigint;
+  tokensClaimed: bigint;
+  tokensClaimable: bigint;
+}
+
+export interface PortfolioPosition {
+  projectId: bigint;
+  stage: Stage;
+  loanToken: string;
+  decimals: number;
+  invested: bigint;
+  claimed: bigint;
+  claimable: bigint;
+  rewards: PortfolioRewards;
+  formatted: {
+    invested: string;
+    claimed: string;
+    claimable: string;
+  };
+}
+
+export interface Portfolio {
+  address: string;
+  positions: PortfolioPosition[];
+}
+
+export interface RepaymentStatus {
+  schedule: Installment[];
+  /** Index of the first unpaid installment, undefined when schedule is repaid or not set */
+  nextDueIndex?: number;
+  nextDueAt?: bigint;
+  /** Unpaid part of the next installment */
+  amountDue: bigint;
+  /** Unpaid amount of installments past due date */
+  overdue: bigint;
+  daysLate: number;
+}
+
+export interface ClaimRewardsResult {
+  usdcClaimed: boolean;
+  tokensClaimed: boolean;
+}
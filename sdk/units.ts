@@ -0,0 +1,38 @@
+import { BigNumberish, formatUnits, parseUnits } from "ethers";
+
+/** Fundraise and RewardSystem BASIS_POINTS, 1% = 10000 */
+export const BASIS_POINTS = 1_000_000n;
+
+const PERCENT_DECIMALS = 4;
+
+/**
+ * Percent to contract rate, e.g. 20 or "2.5" => 200000 or 25000
+ */
+export function percentToRate(percent: number | string): bigint {
+  const rate = parseUnits(percent.toString(), PERCENT_DECIMALS);
+  if (rate < 0n) {
+    throw new RangeError(`Negative percent: ${percent}`);
+  }
+  return rate;
+}
+
+/**
+ * Contract rate to percent, e.g. 200000 => 20
+ */
+export function rateToPercent(rate: BigNumberish): number {
+  return Number(formatUnits(rate, PERCENT_DECIMALS));
+}
+
+/**
+ * Human readable token amount to raw units. Bigints are treated as raw units already.
+ */
+export function toUnits(amount: number | string | bigint, decimals: number): bigint {
+  if (typeof amount === "bigint") {
+    return amount;
+  }
+  return parseUnits(amount.toString(), decimals);
+}
+
+export function fromUnits(amount: BigNumberish, decimals: number): string {
+  return formatUnits(amount, decimals);
+}
@@ -0,0 +1,66 @@
+import http from "http";
+import { InvestSignerService, SignerServiceError } from "./service";
+
+const MAX_BODY_SIZE = 16 * 1024;
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    const onData = (chunk: Buffer) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        // Stop reading, the socket is still needed to send 413
+        req.off("data", onData);
+        req.pause();
+        reject(new SignerServiceError(413, "Request body too large"));
+      }
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * HTTP API of the signer service:
+ *   GET  /health
+ *   POST /invest-authorizations { investor, projectId, amount, inviter? }
+ */
+export function createSignerServer(service: InvestSignerService): http.Server {
+  return http.createServer(async (req, res) => {
+    try {
+      if (req.method === "GET" && req.url === "/health") {
+        return sendJson(res, 200, { status: "ok" });
+      }
+
+      if (req.method === "POST" && req.url === "/invest-authorizations") {
+        let request;
+        try {
+          request = JSON.parse(await readBody(req));
+        } catch (error) {
+          if (error instanceof SignerServiceError) throw error;
+          throw new SignerServiceError(400, "Invalid JSON body");
+        }
+        return sendJson(res, 200, await service.authorize(request));
+      }
+
+      sendJson(res, 404, { error: "Not found" });
+    } catch (error) {
+      if (error instanceof SignerServiceError) {
+        // Body is left unread, close the connection once the response is written
+        if (!req.complete) {
+          res.setHeader("Connection", "close");
+          res.once("finish", () => req.destroy());
+        }
+        return sendJson(res, error.status, { error: error.message });
+      }
+      console.error("❌ Signer service error:", error);
+      sendJson(res, 500, { error: "Internal error" });
+    }
+  });
+}
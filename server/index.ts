@@ -0,0 +1,79 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import { JsonRpcProvider, Wallet } from "ethers";
+import { PrismaClient } from "@prisma/client";
+import { Fundraise__factory } from "../typechain-types";
+import { createSignerServer } from "./app";
+import { InvestSignerService } from "./service";
+import { PrismaSignerStore } from "./prisma-store";
+
+dotenv.config();
+
+/**
+ * Trusted signer service for Fundraise.investUpdate
+ *
+ * Env:
+ *   RPC_URL                      - node url (e.g. http://127.0.0.1:8545 for local hardhat node)
+ *   TRUSTED_SIGNER_PRIVATE_KEY   - key of Fundraise.trustedSigner
+ *   DATABASE_URL                 - postgres url for prisma
+ *   SIGNER_SERVICE_PORT          - http port, 3001 by default
+ *   SIGNATURE_TTL                - signature lifetime in seconds, 900 by default
+ *
+ * Fundraise address is read from scripts/config/<chainId>-config.json
+ *
+ * Usage: npx ts-node server/index.ts
+ */
+async function main() {
+  if (!process.env.RPC_URL) {
+    throw new Error("RPC_URL not found in env");
+  }
+  if (!process.env.TRUSTED_SIGNER_PRIVATE_KEY) {
+    throw new Error("Trusted signer private key not found in env");
+  }
+
+  const provider = new JsonRpcProvider(process.env.RPC_URL);
+  const net = await provider.getNetwork();
+  const config = JSON.parse(
+    fs.readFileSync(path.join(__dirname, `../scripts/config/${net.chainId}-config.json`), "utf8")
+  );
+  if (!config.Fundraise) {
+    throw new Error("Fundraise address not found in config");
+  }
+
+  const signer = new Wallet(process.env.TRUSTED_SIGNER_PRIVATE_KEY, provider);
+  const fundraise = Fundraise__factory.connect(config.Fundraise, provider);
+
+  const trustedSigner = await fundraise.trustedSigner();
+  if (trustedSigner.toLowerCase() !== signer.address.toLowerCase()) {
+    throw new Error(`Key is not a trusted signer. Fundraise expects ${trustedSigner}, got ${signer.address}`);
+  }
+
+  const prisma = new PrismaClient();
+  const service = new InvestSignerService(fundraise, signer, new PrismaSignerStore(prisma), {
+    signatureTtl: Number(process.env.SIGNATURE_TTL || 15 * 60),
+  });
+
+  const port = Number(process.env.SIGNER_SERVICE_PORT || 3001);
+  const server = createSignerServer(service);
+  server.listen(port, () => {
+    console.log(`🌐 Network: ${net.name} (chainId: ${net.chainId})`);
+    console.log(`📍 Fundraise: ${config.Fundraise}`);
+    console.log(`👤 Trusted signer: ${signer.address}`);
+    console.log(`✅ Signer service listening on port ${port}`);
+  });
+
+  const shutdown = async () => {
+    server.close();
+    await prisma.$disconnect();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+import { PrismaClient } from "@prisma/client";
+import { IssuedAuthorization, SignerStore } from "./store";
+
+/**
+ * Postgres store, schema is in prisma/schema.prisma
+ */
+export class PrismaSignerStore implements SignerStore {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async getWhitelist(projectId: bigint): Promise<string[]> {
+    const entries = await this.prisma.whitelistEntry.findMany({
+      where: { projectId: Number(projectId) },
+      orderBy: { id: "asc" },
+    });
+    return entries.map(entry => entry.address.toLowerCase());
+  }
+
+  async logAuthorization(authorization: IssuedAuthorization): Promise<void> {
+    await this.prisma.investAuthorizationLog.create({
+      data: {
+        projectId: Number(authorization.projectId),
+        investor: authorization.investor.toLowerCase(),
+        inviter: authorization.inviter.toLowerCase(),
+        amount: authorization.amount.toString(),
+        rootHash: authorization.rootHash,
+        nonce: authorization.nonce.toString(),
+        deadline: new Date(Number(authorization.deadline) * 1000),
+        signature: authorization.signature,
+      },
+    });
+  }
+}
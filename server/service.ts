@@ -0,0 +1,207 @@
+import { Signer, ZeroAddress, getAddress, isAddress } from "ethers";
+import { Fundraise, ManagerRegistry__factory } from "../typechain-types";
+import { Stage } from "../scripts/stage";
+import { buildWhitelistTree, getWhitelistProof } from "../scripts/whitelist";
+import { getFundraiseDomain, InvestAuthorization, signInvestAuthorization } from "../scripts/signer";
+import { SignerStore } from "./store";
+
+export interface InvestRequest {
+  investor: string;
+  projectId: string | number | bigint;
+  amount: string | number | bigint;
+  inviter?: string;
+}
+
+/**
+ * Arguments for Fundraise.investUpdate, bigints are serialized as strings
+ */
+export interface InvestAuthorizationResponse {
+  investor: string;
+  projectId: string;
+  amount: string;
+  rootHash: string;
+  nonce: string;
+  deadline: string;
+  signature: string;
+  inviter: string;
+  proof: string[];
+}
+
+export class SignerServiceError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "SignerServiceError";
+  }
+}
+
+export interface SignerServiceOptions {
+  /** Signature lifetime in seconds */
+  signatureTtl: number;
+}
+
+const DEFAULT_OPTIONS: SignerServiceOptions = {
+  signatureTtl: 15 * 60,
+};
+
+/**
+ * Checks invest request against Fundraise state and local whitelist,
+ * then signs InvestAuthorization with trusted signer key.
+ */
+export class InvestSignerService {
+  private readonly options: SignerServiceOptions;
+
+  constructor(
+    private readonly fundraise: Fundraise,
+    private readonly signer: Signer,
+    private readonly store: SignerStore,
+    options: Partial<SignerServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async authorize(request: InvestRequest): Promise<InvestAuthorizationResponse> {
+    const { investor, inviter, projectId, amount } = this.parseRequest(request);
+
+    const project = await this.fundraise.projects(projectId);
+    if (project.softCap === 0n && project.hardCap === 0n) {
+      throw new SignerServiceError(404, "Project not found");
+    }
+
+    const provider = this.signer.provider;
+    if (!provider) {
+      throw new SignerServiceError(503, "Trusted signer is not connected to a provider");
+    }
+    const block = await provider.getBlock("latest");
+    if (!block) {
+      throw new SignerServiceError(503, "Failed to get latest block");
+    }
+    const now = BigInt(block.timestamp);
+
+    const managerRegistry = ManagerRegistry__factory.connect(await this.fundraise.managerRegistry(), provider);
+    if (await managerRegistry.isPaused(await managerRegistry.INVEST())) {
+      throw new SignerServiceError(409, "Investments are paused");
+    }
+
+    const stage = Number(project.innerStruct.stage);
+    const isOpen = stage === Stage.Open || (stage === Stage.ComingSoon && now >= project.startAt);
+    if (!isOpen || now > project.openStageEndAt) {
+      throw new SignerServiceError(409, "Project is not open for investments");
+    }
+    if (project.innerStruct.borrower.toLowerCase() === investor.toLowerCase()) {
+      throw new SignerServiceError(400, "Cannot invest in your own project");
+    }
+    if (project.totalInvested + amount > project.hardCap) {
+      throw new SignerServiceError(400, "Investment exceeds hardcap");
+    }
+    await this.checkTicketLimits(projectId, investor, amount);
+
+    const { rootHash, proof } = await this.getWhitelistData(projectId, investor);
+
+    const authorization: InvestAuthorization = {
+      investor,
+      projectId,
+      amount,
+      rootHash,
+      inviter,
+      nonce: await this.fundraise.investorNonces(investor),
+      deadline: now + BigInt(this.options.signatureTtl),
+    };
+
+    const { chainId } = await provider.getNetwork();
+    const domain = getFundraiseDomain(chainId, await this.fundraise.getAddress());
+    const signature = await signInvestAuthorization(this.signer, domain, authorization);
+
+    await this.store.logAuthorization({
+      projectId,
+      investor,
+      inviter,
+      amount,
+      rootHash,
+      nonce: BigInt(authorization.nonce),
+      deadline: BigInt(authorization.deadline),
+      signature,
+    });
+
+    return {
+      investor,
+      projectId: projectId.toString(),
+      amount: amount.toString(),
+      rootHash,
+      nonce: authorization.nonce.toString(),
+      deadline: authorization.deadline.toString(),
+      signature,
+      inviter,
+      proof,
+    };
+  }
+
+  private parseRequest(request: InvestRequest) {
+    if (!request.investor || !isAddress(request.investor)) {
+      throw new SignerServiceError(400, "Invalid investor address");
+    }
+    const inviter = request.inviter || ZeroAddress;
+    if (!isAddress(inviter)) {
+      throw new SignerServiceError(400, "Invalid inviter address");
+    }
+    if (inviter.toLowerCase() === request.investor.toLowerCase()) {
+      throw new SignerServiceError(400, "Inviter cannot be the same as the investor");
+    }
+
+    let projectId: bigint;
+    let amount: bigint;
+    try {
+      projectId = BigInt(request.projectId);
+      amount = BigInt(request.amount);
+    } catch {
+      throw new SignerServiceError(400, "Invalid project id or amount");
+    }
+    if (projectId < 0n || amount <= 0n) {
+      throw new SignerServiceError(400, "Invalid project id or amount");
+    }
+
+    return { investor: getAddress(request.investor), inviter: getAddress(inviter), projectId, amount };
+  }
+
+  /** Same limits of investor total as Fundraise ticketLimits, 0 is no limit */
+  private async checkTicketLimits(projectId: bigint, investor: string, amount: bigint) {
+    const [minTicket, maxPerInvestor] = await this.fundraise.ticketLimits(projectId);
+    const { investedAmount } = await this.fundraise.investorInfo(investor, projectId);
+    const investorTotal = investedAmount + amount;
+    if (investorTotal < minTicket) {
+      throw new SignerServiceError(400, "Investment below min ticket");
+    }
+    if (maxPerInvestor !== 0n && investorTotal > maxPerInvestor) {
+      throw new SignerServiceError(400, "Investment exceeds investor limit");
+    }
+  }
+
+  /**
+   * Root is always rebuilt from the local whitelist, because investUpdate overwrites the on-chain root.
+   * Open projects keep the on-chain root when local whitelist is empty.
+   */
+  private async getWhitelistData(projectId: bigint, investor: string) {
+    const whitelist = await this.store.getWhitelist(projectId);
+    const isListed = whitelist.includes(investor.toLowerCase());
+
+    if (await this.fundraise.openProjects(projectId)) {
+      if (isListed) {
+        const { root, proof } = getWhitelistProof(whitelist, investor);
+        return { rootHash: root, proof };
+      }
+      const rootHash =
+        whitelist.length > 0
+          ? buildWhitelistTree(whitelist).getHexRoot()
+          : await this.fundraise.whitelistRoots(projectId);
+      return { rootHash, proof: [] };
+    }
+
+    if (!isListed) {
+      throw new SignerServiceError(403, "Investor is not whitelisted");
+    }
+    const { root, proof } = getWhitelistProof(whitelist, investor);
+    return { rootHash: root, proof };
+  }
+}
@@ -0,0 +1,41 @@
+// Storage used by the signer service: project whitelists and log of issued authorizations.
+
+export interface IssuedAuthorization {
+  projectId: bigint;
+  investor: string;
+  inviter: string;
+  amount: bigint;
+  rootHash: string;
+  nonce: bigint;
+  deadline: bigint;
+  signature: string;
+}
+
+export interface SignerStore {
+  /** Lowercase addresses allowed to invest into project */
+  getWhitelist(projectId: bigint): Promise<string[]>;
+  logAuthorization(authorization: IssuedAuthorization): Promise<void>;
+}
+
+/**
+ * In-memory store, for local runs against hardhat node and tests.
+ */
+export class MemorySignerStore implements SignerStore {
+  private whitelists = new Map<string, Set<string>>();
+  public readonly issued: IssuedAuthorization[] = [];
+
+  addToWhitelist(projectId: bigint, addresses: string[]) {
+    const key = projectId.toString();
+    const whitelist = this.whitelists.get(key) ?? new Set<string>();
+    addresses.forEach(address => whitelist.add(address.toLowerCase()));
+    this.whitelists.set(key, whitelist);
+  }
+
+  async getWhitelist(projectId: bigint): Promise<string[]> {
+    return Array.from(this.whitelists.get(projectId.toString()) ?? []);
+  }
+
+  async logAuthorization(authorization: IssuedAuthorization): Promise<void> {
+    this.issued.push(authorization);
+  }
+}
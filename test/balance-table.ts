@@ -13,6 +13,9 @@ export interface BalanceEntry {
     borrower: BalanceData;
     inviter: BalanceData;
     treasury: BalanceData;
+    /** Fee split recipients of Fundraise */
+    originator: BalanceData;
+    insurance: BalanceData;
     fundraise: BalanceData;
     rewardSystem: BalanceData;
   };
@@ -21,6 +24,15 @@ export interface BalanceEntry {
   tokenSupply: string;
 }
 
+export interface FeeSplitEntry {
+  projectId: bigint;
+  /** Treasury, Originator or Insurance */
+  leg: string;
+  recipient: string;
+  amount: bigint;
+  decimals: number;
+}
+
 export class BalanceTable {
   private balanceHistory: BalanceEntry[] = [];
 
@@ -132,6 +144,15 @@ export class BalanceTable {
     this.balanceHistory.length = 0;
   }
 
+  /**
+   * Address balances in column order
+   */
+  private addressBalances(entry: BalanceEntry | null): BalanceData[] {
+    if (!entry) return [];
+    const { investor, borrower, inviter, treasury, originator, insurance, fundraise, rewardSystem } = entry.balances;
+    return [investor, borrower, inviter, treasury, originator, insurance, fundraise, rewardSystem];
+  }
+
   /**
    * Displays the cumulative balance tracking table
    */
@@ -140,22 +161,27 @@ export class BalanceTable {
 
     const OPERATION_WIDTH = 45;
     const BALANCE_WIDTH = 22;
+    const COLUMNS = ["INVESTOR", "BORROWER", "INVITER", "TREASURY", "ORIGINATOR", "INSURANCE", "FUNDRAISE", "REWARDS", "POOL", "PRICE", "SUPPLY"];
+    const border = (left: string, middle: string, right: string) =>
+      left + ["─".repeat(OPERATION_WIDTH), ...COLUMNS.map(() => "─".repeat(BALANCE_WIDTH))].join(middle) + right;
 
     // Create the table header
     console.log(`\n📊 BALANCE TRACKING (${this.balanceHistory.length} operations):`);
-    console.log("┌" + "─".repeat(OPERATION_WIDTH) + "┬" + "─".repeat(BALANCE_WIDTH) + "┬" + "─".repeat(BALANCE_WIDTH) + "┬" + "─".repeat(BALANCE_WIDTH) + "┬" + "─".repeat(BALANCE_WIDTH) + "┬" + "─".repeat(BALANCE_WIDTH) + "┬" + "─".repeat(BALANCE_WIDTH) + "┬" + "─".repeat(BALANCE_WIDTH) + "┬" + "─".repeat(BALANCE_WIDTH) + "┬" + "─".repeat(BALANCE_WIDTH) + "┐");
-    console.log("│" + this.pad("OPERATION", OPERATION_WIDTH) + "│" + this.pad("INVESTOR", BALANCE_WIDTH) + "│" + this.pad("BORROWER", BALANCE_WIDTH) + "│" + this.pad("INVITER", BALANCE_WIDTH) + "│" + this.pad("TREASURY", BALANCE_WIDTH) + "│" + this.pad("FUNDRAISE", BALANCE_WIDTH) + "│" + this.pad("REWARDS", BALANCE_WIDTH) + "│" + this.pad("POOL", BALANCE_WIDTH) + "│" + this.pad("PRICE", BALANCE_WIDTH) + "│" + this.pad("SUPPLY", BALANCE_WIDTH) + "│");
-    console.log("├" + "─".repeat(OPERATION_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┤");
+    console.log(border("┌", "┬", "┐"));
+    console.log("│" + this.pad("OPERATION", OPERATION_WIDTH) + "│" + COLUMNS.map(column => this.pad(column, BALANCE_WIDTH)).join("│") + "│");
+    console.log(border("├", "┼", "┤"));
 
     // Display each operation
     for (let opIndex = 0; opIndex < this.balanceHistory.length; opIndex++) {
       const entry = this.balanceHistory[opIndex];
       const operationLines = this.wrapText(entry.operation, OPERATION_WIDTH);
       const maxLines = Math.max(operationLines.length, 2);
-      const addresses = [entry.balances.investor, entry.balances.borrower, entry.balances.inviter, entry.balances.treasury, entry.balances.fundraise, entry.balances.rewardSystem];
+      const addresses = this.addressBalances(entry);
       const poolData = entry.pool;
       const priceData = entry.price;
       const tokenSupply = entry.tokenSupply;
+      const prevEntry = opIndex > 0 ? this.balanceHistory[opIndex - 1] : null;
+      const prevBalances = this.addressBalances(prevEntry);
       
       for (let i = 0; i < maxLines; i++) {
         let line = "│";
@@ -169,12 +195,8 @@ export class BalanceTable {
         
         // Balance columns
         if (i === 0) {
-          // Get previous entry once for all calculations
-          const prevEntry = opIndex > 0 ? this.balanceHistory[opIndex - 1] : null;
-          
           // First line shows USDC balances
           addresses.forEach((addr, addrIndex) => {
-            const prevBalances = prevEntry ? [prevEntry.balances.investor, prevEntry.balances.borrower, prevEntry.balances.inviter, prevEntry.balances.treasury, prevEntry.balances.fundraise, prevEntry.balances.rewardSystem] : [];
             const prevUsdc = prevBalances[addrIndex] ? prevBalances[addrIndex].usdc : "0";
             
             line += "│" + this.pad(this.formatBalanceWithChange(addr.usdc, prevUsdc, "USDC"), BALANCE_WIDTH);
@@ -202,15 +224,12 @@ export class BalanceTable {
         } else if (i === 1) {
           // Second line shows Token balances
           addresses.forEach((addr, addrIndex) => {
-            const prevEntry = opIndex > 0 ? this.balanceHistory[opIndex - 1] : null;
-            const prevBalances = prevEntry ? [prevEntry.balances.investor, prevEntry.balances.borrower, prevEntry.balances.inviter, prevEntry.balances.treasury, prevEntry.balances.fundraise, prevEntry.balances.rewardSystem] : [];
             const prevToken = prevBalances[addrIndex] ? prevBalances[addrIndex].token : "0";
             
             line += "│" + this.pad(this.formatBalanceWithChange(addr.token, prevToken, "Token"), BALANCE_WIDTH);
           });
           
           // Add POOL Token balance
-          const prevEntry = opIndex > 0 ? this.balanceHistory[opIndex - 1] : null;
           const prevPoolToken = prevEntry ? prevEntry.pool.token : "0";
           line += "│" + this.pad(this.formatBalanceWithChange(poolData.token, prevPoolToken, "Token"), BALANCE_WIDTH);
           
@@ -218,15 +237,10 @@ export class BalanceTable {
           line += "│" + " ".repeat(BALANCE_WIDTH);
           line += "│" + " ".repeat(BALANCE_WIDTH);
         } else {
-          // Additional lines for operation name (empty balance columns)
-          addresses.forEach(() => {
+          // Additional lines for operation name (empty balance, POOL, PRICE and SUPPLY columns)
+          COLUMNS.forEach(() => {
             line += "│" + " ".repeat(BALANCE_WIDTH);
           });
-          
-          // Add empty POOL, PRICE and SUPPLY columns
-          line += "│" + " ".repeat(BALANCE_WIDTH);
-          line += "│" + " ".repeat(BALANCE_WIDTH);
-          line += "│" + " ".repeat(BALANCE_WIDTH);
         }
           
         line += "│";
@@ -234,17 +248,34 @@ export class BalanceTable {
         
         // Add separator line after USDC line (if there are more operation lines)
         if (i === 0 && operationLines.length > 1) {
-          console.log("├" + "─".repeat(OPERATION_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┤");
+          console.log(border("├", "┼", "┤"));
         }
       }
       
       // Add separator between operations (except after the last one)
       if (opIndex < this.balanceHistory.length - 1) {
-        console.log("├" + "─".repeat(OPERATION_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┼" + "─".repeat(BALANCE_WIDTH) + "┤");
+        console.log(border("├", "┼", "┤"));
       }
     }
 
-    console.log("└" + "─".repeat(OPERATION_WIDTH) + "┴" + "─".repeat(BALANCE_WIDTH) + "┴" + "─".repeat(BALANCE_WIDTH) + "┴" + "─".repeat(BALANCE_WIDTH) + "┴" + "─".repeat(BALANCE_WIDTH) + "┴" + "─".repeat(BALANCE_WIDTH) + "┴" + "─".repeat(BALANCE_WIDTH) + "┴" + "─".repeat(BALANCE_WIDTH) + "┴" + "─".repeat(BALANCE_WIDTH) + "┴" + "─".repeat(BALANCE_WIDTH) + "┘");
+    console.log(border("└", "┴", "┘"));
+  }
+
+  /**
+   * Platform fee legs of funded projects, from Fundraise PlatformFeePaid events
+   */
+  displayFeeSplits(fees: FeeSplitEntry[]): void {
+    if (fees.length === 0) return;
+
+    console.log(`\n🧾 PLATFORM FEE SPLITS (${fees.length} payments):`);
+    console.log("┌" + ["─".repeat(10), "─".repeat(12), "─".repeat(44), "─".repeat(18)].join("┬") + "┐");
+    console.log("│" + [this.pad("PROJECT", 10), this.pad("LEG", 12), this.pad("RECIPIENT", 44), this.pad("AMOUNT", 18)].join("│") + "│");
+    console.log("├" + ["─".repeat(10), "─".repeat(12), "─".repeat(44), "─".repeat(18)].join("┼") + "┤");
+    for (const fee of fees) {
+      const amount = `USDC ${this.formatNumber(formatUnits(fee.amount, fee.decimals), 2)}`;
+      console.log("│" + [this.pad(fee.projectId.toString(), 10), this.pad(fee.leg, 12), this.pad(fee.recipient, 44), this.pad(amount, 18)].join("│") + "│");
+    }
+    console.log("└" + ["─".repeat(10), "─".repeat(12), "─".repeat(44), "─".repeat(18)].join("┴") + "┘");
   }
 
   /**
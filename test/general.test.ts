@@ -8,15 +8,24 @@ import {
   MockERC20,
   Token,
   RewardSystem,
+  PositionToken,
+  MockStablecoin,
   IUniswapV2Router02,
   IUniswapV2Pair,
 } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { createMerkleTree, hashAddress, Stage } from "../scripts/helpers";
-import { formatEther, formatUnits, parseEther, parseUnits, Wallet } from "ethers";
+import { BigNumberish, formatEther, formatUnits, parseEther, parseUnits, Wallet } from "ethers";
+import { getFundraiseDomain, InvestAuthorization, signInvestAuthorization } from "../scripts/signer";
 import MerkleTree from "merkletreejs";
-import { BalanceTable, BalanceEntry } from "./balance-table";
+import { BalanceTable, BalanceEntry, FeeSplitEntry } from "./balance-table";
+import { generateRepaymentSchedule, InterestModel, ScheduleType, scheduleTotal } from "../scripts/schedule";
+import { dueTransition, KeeperCall } from "../scripts/keeper";
+import { PermitSignature, signPermit } from "../sdk/permit";
+import { Role, roleGrants } from "../scripts/roles";
+import { selector, TIMELOCKED_FUNCTIONS } from "../scripts/timelock";
 
 
 
@@ -37,6 +46,8 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
   let investor: HardhatEthersSigner;
   let backend: HardhatEthersSigner;
   let inviter: HardhatEthersSigner;
+  let originator: HardhatEthersSigner;
+  let insurance: HardhatEthersSigner;
 
   // 📋 Contracts
   let rewardSystem: RewardSystem;
@@ -85,18 +96,38 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
     }
   }
 
+  /**
+   * Signs EIP-712 invest authorization by backend (trusted signer)
+   * @param account - Investor who will call investUpdate
+   */
+  async function signInvest(
+    account: HardhatEthersSigner,
+    projectId: BigNumberish,
+    amount: BigNumberish,
+    rootHash: string,
+    inviterAddress: string
+  ) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const authorization: InvestAuthorization = {
+      investor: account.address,
+      projectId,
+      amount,
+      rootHash,
+      inviter: inviterAddress,
+      nonce: await fundraise.investorNonces(account.address),
+      deadline: (await time.latest()) + 3600,
+    };
+    const domain = getFundraiseDomain(chainId, await fundraise.getAddress());
+    const signature = await signInvestAuthorization(backend, domain, authorization);
+    return { ...authorization, signature };
+  }
+
   async function invest(projectId: bigint, amount: bigint){
-    const rootHash1 = ethers.keccak256(ethers.toUtf8Bytes("test-root-1"));
-    const currentNonce1 = await fundraise.nonce();
-    const nonceForSignature1 = currentNonce1 + 1n;
-    const messageHash1 = ethers.solidityPackedKeccak256(
-      ["address", "uint256", "uint256", "bytes32", "uint256", "address"],
-      [await investor.getAddress(), projectId, amount, rootHash1, nonceForSignature1, await inviter.getAddress()]
-    );
-    const signature1 = await backend.signMessage(ethers.getBytes(messageHash1));
+    const rootHash1 = merkleTreeInvestOnly.getHexRoot();
+    const auth1 = await signInvest(investor, projectId, amount, rootHash1, inviter.address);
     await usdcToken.connect(investor).approve(await fundraise.getAddress(), amount);
 
-    await fundraise.connect(investor).investUpdate(projectId, amount, rootHash1, nonceForSignature1, signature1, inviter);
+    await fundraise.connect(investor).investUpdate(projectId, amount, rootHash1, auth1.nonce, auth1.deadline, auth1.signature, inviter, merkleTreeInvestOnly.getHexProof(hashAddress(await investor.getAddress())));
   }
 
   /**
@@ -124,6 +155,14 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
         usdc: formatUnits(await usdcToken.balanceOf(await treasury.getAddress()), 6),
         token: formatEther(await token.balanceOf(await treasury.getAddress()))
       },
+      originator: {
+        usdc: formatUnits(await usdcToken.balanceOf(originator.address), 6),
+        token: formatEther(await token.balanceOf(originator.address))
+      },
+      insurance: {
+        usdc: formatUnits(await usdcToken.balanceOf(insurance.address), 6),
+        token: formatEther(await token.balanceOf(insurance.address))
+      },
       fundraise: {
         usdc: formatUnits(await usdcToken.balanceOf(await fundraise.getAddress()), 6),
         token: formatEther(await token.balanceOf(await fundraise.getAddress()))
@@ -223,6 +262,7 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
       rewardSystem = deployResult.rewardSystem;
       router = deployResult.router;
       poolAddress = deployResult.poolAddress;
+      [originator, insurance] = (await ethers.getSigners()).slice(15, 17);
 
       // Mint USDC for testing
       // await usdcToken.mint(investor.address, ethers.parseUnits("10000", 6)); // 10k USDC    
@@ -270,28 +310,16 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
 
     it("💰 Investment in project should succeed", async function () {
         // Create signature for first investment
-        const rootHash1 = ethers.keccak256(ethers.toUtf8Bytes("test-root-1"));
-        const currentNonce1 = await fundraise.nonce();
-        const nonceForSignature1 = currentNonce1 + 1n;
-        const messageHash1 = ethers.solidityPackedKeccak256(
-          ["address", "uint256", "uint256", "bytes32", "uint256", "address"],
-          [await investor.getAddress(), 0, softCap/2n, rootHash1, nonceForSignature1, await inviter.getAddress()]
-        );
-        const signature1 = await backend.signMessage(ethers.getBytes(messageHash1));
+        const rootHash1 = merkleTreeInvestOnly.getHexRoot();
+        const auth1 = await signInvest(investor, 0, softCap/2n, rootHash1, inviter.address);
         
-        await fundraise.connect(investor).investUpdate(0, softCap/2n, rootHash1, nonceForSignature1, signature1, inviter);
+        await fundraise.connect(investor).investUpdate(0, softCap/2n, rootHash1, auth1.nonce, auth1.deadline, auth1.signature, inviter, investorProof);
         
         // Create signature for second investment
-        const rootHash2 = ethers.keccak256(ethers.toUtf8Bytes("test-root-2"));
-        const currentNonce2 = await fundraise.nonce();
-        const nonceForSignature2 = currentNonce2 + 1n;
-        const messageHash2 = ethers.solidityPackedKeccak256(
-          ["address", "uint256", "uint256", "bytes32", "uint256", "address"],
-          [await investor.getAddress(), 0, softCap/2n, rootHash2, nonceForSignature2, await inviter.getAddress()]
-        );
-        const signature2 = await backend.signMessage(ethers.getBytes(messageHash2));
+        const rootHash2 = merkleTreeInvestOnly.getHexRoot();
+        const auth2 = await signInvest(investor, 0, softCap/2n, rootHash2, inviter.address);
         
-        await fundraise.connect(investor).investUpdate(0, softCap/2n, rootHash2, nonceForSignature2, signature2, inviter);
+        await fundraise.connect(investor).investUpdate(0, softCap/2n, rootHash2, auth2.nonce, auth2.deadline, auth2.signature, inviter, investorProof);
         project = await fundraise.projects(0);
         expect(project.totalInvested).to.equal(softCap);
         expect(project.innerStruct.stage).to.equal(Stage.Open); // Open
@@ -300,6 +328,69 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
         await trackBalances(`Investment in project ${formatUnits(softCap, 6)} USDC`);
     });
 
+    it("🚫 Invest authorization cannot be replayed, expired or used on another deployment", async function () {
+        const amount = ethers.parseUnits("1000", 6);
+        const rootHash = merkleTreeInvestOnly.getHexRoot();
+        const { chainId } = await ethers.provider.getNetwork();
+        const currentNonce = await fundraise.investorNonces(investor.address);
+        expect(currentNonce).to.equal(2n);
+
+        const authorization: InvestAuthorization = {
+          investor: investor.address,
+          projectId: 0,
+          amount,
+          rootHash,
+          inviter: inviter.address,
+          nonce: currentNonce - 1n,
+          deadline: (await time.latest()) + 3600,
+        };
+        const domain = getFundraiseDomain(chainId, await fundraise.getAddress());
+
+        // already used nonce
+        let signature = await signInvestAuthorization(backend, domain, authorization);
+        await expect(
+          fundraise.connect(investor).investUpdate(0, amount, rootHash, authorization.nonce, authorization.deadline, signature, inviter, investorProof)
+        ).to.be.revertedWith("Incorrect nonce");
+
+        // expired deadline
+        authorization.nonce = currentNonce;
+        authorization.deadline = (await time.latest()) - 1;
+        signature = await signInvestAuthorization(backend, domain, authorization);
+        await expect(
+          fundraise.connect(investor).investUpdate(0, amount, rootHash, authorization.nonce, authorization.deadline, signature, inviter, investorProof)
+        ).to.be.revertedWith("Signature expired");
+
+        // signed for another Fundraise deployment
+        authorization.deadline = (await time.latest()) + 3600;
+        signature = await signInvestAuthorization(backend, getFundraiseDomain(chainId, ethers.ZeroAddress), authorization);
+        await expect(
+          fundraise.connect(investor).investUpdate(0, amount, rootHash, authorization.nonce, authorization.deadline, signature, inviter, investorProof)
+        ).to.be.revertedWith("Not a trusted signer");
+    });
+
+    it("🚫 Investment without whitelist proof should fail", async function () {
+        const amount = ethers.parseUnits("1000", 6);
+        const rootHash = merkleTreeInvestOnly.getHexRoot();
+        const auth = await signInvest(inviter, 0, amount, rootHash, ethers.ZeroAddress);
+
+        // inviter is not in the whitelist, investor's proof does not match inviter's leaf
+        await expect(
+          fundraise.connect(inviter).investUpdate(0, amount, rootHash, auth.nonce, auth.deadline, auth.signature, ethers.ZeroAddress, investorProof)
+        ).to.be.revertedWith("Not whitelisted");
+    });
+
+    it("🔓 Only manager can open project for everyone", async function () {
+        await expect(fundraise.connect(investor).setProjectOpen(0, true)).to.be.revertedWith("Missing role");
+        await expect(fundraise.connect(manager).setProjectOpen(await fundraise.projectCount(), true))
+          .to.be.revertedWith("Project does not exist");
+        await expect(fundraise.connect(manager).setProjectOpen(0, true))
+          .to.emit(fundraise, "ProjectOpenStatusSet")
+          .withArgs(0, true);
+        expect(await fundraise.openProjects(0)).to.be.true;
+        await fundraise.connect(manager).setProjectOpen(0, false);
+        expect(await fundraise.openProjects(0)).to.be.false;
+    });
+
     it("🔒 Rewards cannot be claimed before project activation", async function () {
       await expect(rewardSystem.connect(investor).claimUSDCForProject(0))
         .to.be.revertedWith("Project rewards not activated");
@@ -590,16 +681,10 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
       const proof2 = merkleTree2.getHexProof(hashAddress(await investor.getAddress()));
       
       // Create signature for investment
-      const rootHash2 = ethers.keccak256(ethers.toUtf8Bytes("test-root-project2"));
-      const currentNonce2 = await fundraise.nonce();
-      const nonceForSignature2 = currentNonce2 + 1n;
-      const messageHash2 = ethers.solidityPackedKeccak256(
-        ["address", "uint256", "uint256", "bytes32", "uint256", "address"],
-        [await investor.getAddress(), projectId2, ethers.parseUnits("5000", 6), rootHash2, nonceForSignature2, await inviter.getAddress()]
-      );
-      const signature2 = await backend.signMessage(ethers.getBytes(messageHash2));
+      const rootHash2 = merkleTree2.getHexRoot();
+      const auth2 = await signInvest(investor, projectId2, ethers.parseUnits("5000", 6), rootHash2, inviter.address);
       
-      await fundraise.connect(investor).investUpdate(projectId2, ethers.parseUnits("5000", 6), rootHash2, nonceForSignature2, signature2, inviter);
+      await fundraise.connect(investor).investUpdate(projectId2, ethers.parseUnits("5000", 6), rootHash2, auth2.nonce, auth2.deadline, auth2.signature, inviter, proof2);
       
       // Cancel project
       await fundraise.connect(manager).cancelProject(projectId2);
@@ -798,7 +883,7 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
       log("🔍 Updated project data:", updatedProject);
       
       await expect(fundraise.connect(investor).setProject(projectId, updatedProject))
-        .to.be.revertedWith("Not a manager");
+        .to.be.revertedWith("Missing role");
     });
 
     it.skip("🚫 Cannot update funded project", async () => {
@@ -842,16 +927,10 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
       const proof = merkleTreeInvestOnly.getHexProof(hashAddress(await investor.getAddress()));
       
       // Create signature for investment
-      const rootHash = ethers.keccak256(ethers.toUtf8Bytes("test-root-investment"));
-      const currentNonce = await fundraise.nonce();
-      const nonceForSignature = currentNonce + 1n;
-      const messageHash = ethers.solidityPackedKeccak256(
-        ["address", "uint256", "uint256", "bytes32", "uint256", "address"],
-        [await investor.getAddress(), projectId, investmentAmount, rootHash, nonceForSignature, inviter]
-      );
-      const signature = await backend.signMessage(ethers.getBytes(messageHash));
+      const rootHash = merkleTreeInvestOnly.getHexRoot();
+      const auth = await signInvest(investor, projectId, investmentAmount, rootHash, inviter.address);
       
-      await fundraise.connect(investor).investUpdate(projectId, investmentAmount, rootHash, nonceForSignature, signature, inviter);
+      await fundraise.connect(investor).investUpdate(projectId, investmentAmount, rootHash, auth.nonce, auth.deadline, auth.signature, inviter, proof);
       
       const currentProject = await fundraise.projects(projectId);
       log("🔍 Project stage:", currentProject.innerStruct.stage.toString());
@@ -898,16 +977,10 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
       const proof = merkleTreeInvestOnly.getHexProof(hashAddress(await investor.getAddress()));
       
       // Create signature for investment
-      const rootHash = ethers.keccak256(ethers.toUtf8Bytes("test-root-platform-rate"));
-      const currentNonce = await fundraise.nonce();
-      const nonceForSignature = currentNonce + 1n;
-      const messageHash = ethers.solidityPackedKeccak256(
-        ["address", "uint256", "uint256", "bytes32", "uint256", "address"],
-        [await investor.getAddress(), projectId, investmentAmount, rootHash, nonceForSignature, inviter]
-      );
-      const signature = await backend.signMessage(ethers.getBytes(messageHash));
+      const rootHash = merkleTreeInvestOnly.getHexRoot();
+      const auth = await signInvest(investor, projectId, investmentAmount, rootHash, inviter.address);
       
-      await fundraise.connect(investor).investUpdate(projectId, investmentAmount, rootHash, nonceForSignature, signature, inviter);
+      await fundraise.connect(investor).investUpdate(projectId, investmentAmount, rootHash, auth.nonce, auth.deadline, auth.signature, inviter, proof);
       
       const currentProject = await fundraise.projects(projectId);
       log("🔍 Project stage:", currentProject.innerStruct.stage.toString());
@@ -950,16 +1023,10 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
       const proof = merkleTreeInvestOnly.getHexProof(hashAddress(await investor.getAddress()));
       
       // Create signature for investment
-      const rootHash = ethers.keccak256(ethers.toUtf8Bytes("test-root-investor-rate"));
-      const currentNonce = await fundraise.nonce();
-      const nonceForSignature = currentNonce + 1n;
-      const messageHash = ethers.solidityPackedKeccak256(
-        ["address", "uint256", "uint256", "bytes32", "uint256", "address"],
-        [await investor.getAddress(), projectId, investmentAmount, rootHash, nonceForSignature, inviter]
-      );
-      const signature = await backend.signMessage(ethers.getBytes(messageHash));
+      const rootHash = merkleTreeInvestOnly.getHexRoot();
+      const auth = await signInvest(investor, projectId, investmentAmount, rootHash, inviter.address);
       
-      await fundraise.connect(investor).investUpdate(projectId, investmentAmount, rootHash, nonceForSignature, signature, inviter);
+      await fundraise.connect(investor).investUpdate(projectId, investmentAmount, rootHash, auth.nonce, auth.deadline, auth.signature, inviter, proof);
       
       const currentProject = await fundraise.projects(projectId);
       log("🔍 Project stage:", currentProject.innerStruct.stage.toString());
@@ -1034,16 +1101,10 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
       const burnTestProof = burnTestMerkleTree.getHexProof(hashAddress(await investor.getAddress()));
       
       // Create signature for investment
-      const burnTestRootHash = ethers.keccak256(ethers.toUtf8Bytes("test-root-burn"));
-      const burnTestCurrentNonce = await fundraise.nonce();
-      const burnTestNonceForSignature = burnTestCurrentNonce + 1n;
-      const burnTestMessageHash = ethers.solidityPackedKeccak256(
-        ["address", "uint256", "uint256", "bytes32", "uint256", "address"],
-        [await investor.getAddress(), burnTestProjectId, burnTestInvestmentAmount, burnTestRootHash, burnTestNonceForSignature, inviter]
-      );
-      const burnTestSignature = await backend.signMessage(ethers.getBytes(burnTestMessageHash));
+      const burnTestRootHash = burnTestMerkleTree.getHexRoot();
+      const burnTestAuth = await signInvest(investor, burnTestProjectId, burnTestInvestmentAmount, burnTestRootHash, inviter.address);
       
-      await fundraise.connect(investor).investUpdate(burnTestProjectId, burnTestInvestmentAmount, burnTestRootHash, burnTestNonceForSignature, burnTestSignature, inviter);
+      await fundraise.connect(investor).investUpdate(burnTestProjectId, burnTestInvestmentAmount, burnTestRootHash, burnTestAuth.nonce, burnTestAuth.deadline, burnTestAuth.signature, inviter, burnTestProof);
       
       // Get token balance before burning
       const totalSupplyBeforeBurn = await token.totalSupply();
@@ -1107,16 +1168,10 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
       const largeBurnTestProof = largeBurnTestMerkleTree.getHexProof(hashAddress(await investor.getAddress()));
       
       // Create signature for investment
-      const largeBurnTestRootHash = ethers.keccak256(ethers.toUtf8Bytes("test-root-large-burn"));
-      const largeBurnTestCurrentNonce = await fundraise.nonce();
-      const largeBurnTestNonceForSignature = largeBurnTestCurrentNonce + 1n;
-      const largeBurnTestMessageHash = ethers.solidityPackedKeccak256(
-        ["address", "uint256", "uint256", "bytes32", "uint256", "address"],
-        [await investor.getAddress(), largeBurnTestProjectId, largeInvestmentAmount, largeBurnTestRootHash, largeBurnTestNonceForSignature, inviter]
-      );
-      const largeBurnTestSignature = await backend.signMessage(ethers.getBytes(largeBurnTestMessageHash));
+      const largeBurnTestRootHash = largeBurnTestMerkleTree.getHexRoot();
+      const largeBurnTestAuth = await signInvest(investor, largeBurnTestProjectId, largeInvestmentAmount, largeBurnTestRootHash, inviter.address);
       
-      await fundraise.connect(investor).investUpdate(largeBurnTestProjectId, largeInvestmentAmount, largeBurnTestRootHash, largeBurnTestNonceForSignature, largeBurnTestSignature, inviter);
+      await fundraise.connect(investor).investUpdate(largeBurnTestProjectId, largeInvestmentAmount, largeBurnTestRootHash, largeBurnTestAuth.nonce, largeBurnTestAuth.deadline, largeBurnTestAuth.signature, inviter, largeBurnTestProof);
       
       const totalSupplyBeforeLargeBurn = await token.totalSupply();
 
@@ -1158,5 +1213,1434 @@ describe("🚀 8lends Protocol - General Flow Tests", function () {
     });
 
 
+    it("📅 Repayment schedule: next due, overdue amount and days late", async () => {
+      const scheduleProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const scheduleProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(scheduleProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+
+      const amount = ethers.parseUnits("1500", 6);
+      await usdcToken.mint(investor.address, amount);
+      await invest(scheduleProjectId, amount);
+      await fundraise.connect(manager).transferFundsToBorrower(scheduleProjectId);
+      const fundedProject = await fundraise.projects(scheduleProjectId);
+
+      const schedule = generateRepaymentSchedule({
+        type: ScheduleType.Annuity,
+        principal: fundedProject.totalInvested,
+        interestRate: fundedProject.investorInterestRate,
+        startAt: fundedProject.innerStruct.fundedTime,
+        periods: 3,
+      });
+      const expectedTotal = amount + (amount * INVESTOR_INTEREST_RATE) / await fundraise.BASIS_POINTS();
+      expect(scheduleTotal(schedule)).to.eq(expectedTotal);
+      expect(schedule[0].interest).to.be.greaterThan(schedule[2].interest);
+
+      await expect(fundraise.connect(investor).setRepaymentSchedule(scheduleProjectId, schedule))
+        .to.be.revertedWith("Missing role");
+      await expect(fundraise.connect(manager).setRepaymentSchedule(scheduleProjectId, [schedule[1], schedule[0]]))
+        .to.be.revertedWith("Due dates not sorted");
+      await expect(fundraise.connect(manager).setRepaymentSchedule(scheduleProjectId, schedule))
+        .to.emit(fundraise, "RepaymentScheduleSet")
+        .withArgs(scheduleProjectId, 3, expectedTotal);
+
+      const firstPayment = schedule[0].principal + schedule[0].interest;
+      let next = await fundraise.nextDueInstallment(scheduleProjectId);
+      expect(next.index).to.eq(0);
+      expect(next.dueAt).to.eq(schedule[0].dueAt);
+      expect(next.amountDue).to.eq(firstPayment);
+      expect(await fundraise.overdueAmount(scheduleProjectId)).to.eq(0);
+      expect(await fundraise.daysLate(scheduleProjectId)).to.eq(0);
+
+      // 5 days after first due date
+      await time.increaseTo(schedule[0].dueAt + BigInt(5 * 24 * 3600));
+      expect(await fundraise.overdueAmount(scheduleProjectId)).to.eq(firstPayment);
+      expect(await fundraise.daysLate(scheduleProjectId)).to.eq(5);
+
+      // partial payment keeps first installment overdue
+      const partial = firstPayment / 2n;
+      await usdcToken.mint(borrower.address, firstPayment);
+      await usdcToken.connect(borrower).approve(await fundraise.getAddress(), firstPayment);
+      await fundraise.connect(borrower).makeRepayment(scheduleProjectId, partial);
+      expect(await fundraise.overdueAmount(scheduleProjectId)).to.eq(firstPayment - partial);
+      expect(await fundraise.daysLate(scheduleProjectId)).to.eq(5);
+
+      await fundraise.connect(borrower).makeRepayment(scheduleProjectId, firstPayment - partial);
+      next = await fundraise.nextDueInstallment(scheduleProjectId);
+      expect(next.index).to.eq(1);
+      expect(next.amountDue).to.eq(schedule[1].principal + schedule[1].interest);
+      expect(await fundraise.overdueAmount(scheduleProjectId)).to.eq(0);
+      expect(await fundraise.daysLate(scheduleProjectId)).to.eq(0);
+      expect(await fundraise.getRepaymentSchedule(scheduleProjectId)).to.have.lengthOf(3);
+    });
+
+    it("⚠️ Defaulted project: default after grace period and pro-rata recovery", async () => {
+      const defaultProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const defaultProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(defaultProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+
+      const amount = ethers.parseUnits("1000", 6);
+      await usdcToken.mint(investor.address, amount);
+      await invest(defaultProjectId, amount);
+      await fundraise.connect(manager).transferFundsToBorrower(defaultProjectId);
+      const fundedProject = await fundraise.projects(defaultProjectId);
+
+      const schedule = generateRepaymentSchedule({
+        type: ScheduleType.InterestOnly,
+        principal: fundedProject.totalInvested,
+        interestRate: fundedProject.investorInterestRate,
+        startAt: fundedProject.innerStruct.fundedTime,
+        periods: 2,
+      });
+      await fundraise.connect(manager).setRepaymentSchedule(defaultProjectId, schedule);
+
+      const gracePeriod = 15 * 24 * 3600;
+      await expect(fundraise.connect(manager).setDefaultGracePeriod(gracePeriod))
+        .to.be.revertedWithCustomError(fundraise, "OwnableUnauthorizedAccount");
+      await fundraise.connect(owner).setDefaultGracePeriod(gracePeriod);
+
+      // Installment is overdue, but grace period is not over
+      await time.increaseTo(schedule[0].dueAt + BigInt(gracePeriod) - 1n);
+      await expect(fundraise.connect(manager).declareDefault(defaultProjectId))
+        .to.be.revertedWith("Grace period not passed");
+      await expect(fundraise.connect(borrower).makeRecoveryPayment(defaultProjectId, 1))
+        .to.be.revertedWith("Project isn't Defaulted stage");
+
+      await time.increase(1);
+      await expect(fundraise.connect(investor).declareDefault(defaultProjectId))
+        .to.be.revertedWith("Missing role");
+      await expect(fundraise.connect(manager).declareDefault(defaultProjectId))
+        .to.emit(fundraise, "ProjectDefaulted")
+        .withArgs(defaultProjectId, schedule[0].interest)
+        .and.to.emit(fundraise, "ProjectStatusChanged")
+        .withArgs(defaultProjectId, Stage.Defaulted);
+
+      // Borrower can't repay as usual anymore, recovered funds are paid by manager
+      await expect(fundraise.connect(borrower).makeRepayment(defaultProjectId, 1))
+        .to.be.revertedWith("Project isn't Funded stage");
+
+      const recovered = amount / 2n;
+      await usdcToken.mint(manager.address, recovered);
+      await usdcToken.connect(manager).approve(await fundraise.getAddress(), recovered);
+      await expect(fundraise.connect(manager).makeRecoveryPayment(defaultProjectId, recovered))
+        .to.emit(fundraise, "RecoveryPayment")
+        .withArgs(defaultProjectId, recovered);
+
+      // Investor claims recovered funds with the same pro-rata math
+      expect(await fundraise.availableToClaim(defaultProjectId, investor.address)).to.eq(recovered);
+      const investorBalanceBefore = await usdcToken.balanceOf(investor.address);
+      await fundraise.connect(investor).claim(defaultProjectId, investor.address);
+      expect(await usdcToken.balanceOf(investor.address)).to.eq(investorBalanceBefore + recovered);
+
+      await expect(fundraise.connect(investor).finishRecovery(defaultProjectId))
+        .to.be.revertedWith("Missing role");
+      await expect(fundraise.connect(manager).finishRecovery(await fundraise.projectCount()))
+        .to.be.revertedWith("Project does not exist");
+      await expect(fundraise.connect(manager).finishRecovery(defaultProjectId))
+        .to.emit(fundraise, "ProjectStatusChanged")
+        .withArgs(defaultProjectId, Stage.Recovered);
+      expect((await fundraise.projects(defaultProjectId)).innerStruct.stage).to.eq(Stage.Recovered);
+
+      await expect(fundraise.connect(manager).makeRecoveryPayment(defaultProjectId, 1))
+        .to.be.revertedWith("Project isn't Defaulted stage");
+      await expect(fundraise.connect(manager).declareDefault(defaultProjectId))
+        .to.be.revertedWith("Project isn't Funded stage");
+    });
+
+    it("⚠️ Unscheduled default: project without repayment schedule is due at maturity, without maturity it can't default", async () => {
+      const amount = ethers.parseUnits("1000", 6);
+      const fundProject = async (maturity: bigint) => {
+        const projectId = await fundraise.projectCount();
+        await fundraise.connect(manager).createProject({
+          softCap: ethers.parseUnits("1000", 6),
+          hardCap: ethers.parseUnits("2000", 6),
+          totalInvested: 0,
+          startAt: await time.latest() - 10,
+          preFundDuration: 7 * 24 * 3600,
+          investorInterestRate: INVESTOR_INTEREST_RATE,
+          openStageEndAt: await time.latest() + 7 * 24 * 3600,
+          innerStruct: {
+            borrower: await borrower.getAddress(),
+            loanToken: await usdcToken.getAddress(),
+            platformInterestRate: PLATFORM_PERCENT,
+            totalRepaid: 0,
+            fundedTime: 0,
+            stage: 0
+          }
+        }, merkleTreeInvestOnly.getHexRoot(), 1);
+        if (maturity) await fundraise.connect(manager).setInterestTerms(projectId, InterestModel.Accrued, maturity);
+        await usdcToken.mint(investor.address, amount);
+        await invest(projectId, amount);
+        await fundraise.connect(manager).transferFundsToBorrower(projectId);
+        return projectId;
+      };
+      const gracePeriod = await fundraise.defaultGracePeriod();
+
+      // Neither schedule nor maturity: no term the borrower agreed to
+      const openEndedProjectId = await fundProject(0n);
+      await time.increase(2 * 365 * 24 * 3600);
+      await expect(fundraise.connect(manager).declareDefault(openEndedProjectId))
+        .to.be.revertedWith("No due date");
+
+      const maturity = BigInt(await time.latest()) + BigInt(90 * 24 * 3600);
+      const maturityProjectId = await fundProject(maturity);
+      await time.increaseTo(maturity + gracePeriod - 1n);
+      await expect(fundraise.connect(manager).declareDefault(maturityProjectId))
+        .to.be.revertedWith("Grace period not passed");
+
+      await time.increase(1);
+      await expect(fundraise.connect(manager).declareDefault(maturityProjectId))
+        .to.emit(fundraise, "ProjectStatusChanged")
+        .withArgs(maturityProjectId, Stage.Defaulted);
+      await expect(fundraise.connect(manager).declareDefault(await fundraise.projectCount()))
+        .to.be.revertedWith("Project does not exist");
+    });
+
+    it("📈 Accrued interest: APR accrues from funding until maturity or full repayment", async () => {
+      const accruedProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const accruedProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(accruedProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+
+      const YEAR = 365n * 24n * 3600n;
+      const maturity = BigInt(await time.latest()) + YEAR / 2n;
+      await expect(fundraise.connect(investor).setInterestTerms(accruedProjectId, InterestModel.Accrued, maturity))
+        .to.be.revertedWith("Missing role");
+      await expect(fundraise.connect(manager).setInterestTerms(accruedProjectId, InterestModel.Flat, maturity))
+        .to.be.revertedWith("Maturity is for accrued interest");
+      await expect(fundraise.connect(manager).setInterestTerms(accruedProjectId, InterestModel.Accrued, maturity))
+        .to.emit(fundraise, "InterestTermsSet")
+        .withArgs(accruedProjectId, InterestModel.Accrued, maturity);
+
+      const amount = ethers.parseUnits("1000", 6);
+      await usdcToken.mint(investor.address, amount);
+      await invest(accruedProjectId, amount);
+      await fundraise.connect(manager).transferFundsToBorrower(accruedProjectId);
+      const fundedTime = (await fundraise.projects(accruedProjectId)).innerStruct.fundedTime;
+      expect(await fundraise.accruedInterest(accruedProjectId)).to.eq(0);
+
+      await expect(fundraise.connect(manager).setInterestTerms(accruedProjectId, InterestModel.Flat, 0))
+        .to.be.revertedWith("Can't update funded project");
+
+      // 20% APR for a quarter of the year
+      await time.increaseTo(fundedTime + YEAR / 4n);
+      const quarterInterest = (amount * INVESTOR_INTEREST_RATE * (YEAR / 4n)) / (1_000_000n * YEAR);
+      expect(await fundraise.accruedInterest(accruedProjectId)).to.eq(quarterInterest);
+      expect(await fundraise.totalRepaymentAmount(accruedProjectId)).to.eq(amount + quarterInterest);
+
+      // Interest stops at maturity
+      await time.increaseTo(maturity + 30n * 24n * 3600n);
+      const maturityInterest = (amount * INVESTOR_INTEREST_RATE * (maturity - fundedTime)) / (1_000_000n * YEAR);
+      expect(await fundraise.accruedInterest(accruedProjectId)).to.eq(maturityInterest);
+
+      // Overpayment is capped by outstanding amount
+      const totalDue = amount + maturityInterest;
+      await usdcToken.mint(borrower.address, totalDue + 100n);
+      await usdcToken.connect(borrower).approve(await fundraise.getAddress(), totalDue + 100n);
+      const borrowerBalanceBefore = await usdcToken.balanceOf(borrower.address);
+      await expect(fundraise.connect(borrower).makeRepayment(accruedProjectId, totalDue + 100n))
+        .to.emit(fundraise, "PrincipalRepayment")
+        .withArgs(accruedProjectId, totalDue)
+        .and.to.emit(fundraise, "ProjectStatusChanged")
+        .withArgs(accruedProjectId, Stage.Repaid);
+      expect(await usdcToken.balanceOf(borrower.address)).to.eq(borrowerBalanceBefore - totalDue);
+
+      await time.increase(30 * 24 * 3600);
+      expect(await fundraise.accruedInterest(accruedProjectId)).to.eq(maturityInterest);
+      expect(await fundraise.availableToClaim(accruedProjectId, investor.address)).to.eq(totalDue);
+
+      // Flat projects keep interest independent of time
+      expect(await fundraise.accruedInterest(0)).to.eq(
+        ((await fundraise.projects(0)).totalInvested * INVESTOR_INTEREST_RATE) / 1_000_000n
+      );
+    });
+
+    it("🔁 Position transfer: approved part of investment moves claimed amount and vesting", async () => {
+      const transferProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const transferProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(transferProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+
+      const buyer = (await ethers.getSigners())[10];
+      const amount = ethers.parseUnits("1000", 6);
+      const part = amount / 4n;
+      await usdcToken.mint(investor.address, amount);
+      await invest(transferProjectId, amount);
+      await expect(fundraise.connect(investor).transferPosition(transferProjectId, buyer.address, part))
+        .to.be.revertedWith("Invalid stage for transfer");
+
+      await fundraise.connect(manager).transferFundsToBorrower(transferProjectId);
+      const totalDue = await fundraise.totalRepaymentAmount(transferProjectId);
+      await usdcToken.mint(borrower.address, totalDue);
+      await usdcToken.connect(borrower).approve(await fundraise.getAddress(), totalDue);
+      await fundraise.connect(borrower).makeRepayment(transferProjectId, totalDue / 2n);
+      await fundraise.connect(investor).claim(transferProjectId, investor.address);
+      const claimed = (await fundraise.investorInfo(investor.address, transferProjectId)).totalClaimed;
+
+      await expect(fundraise.connect(investor).transferPosition(transferProjectId, investor.address, part))
+        .to.be.revertedWith("Invalid recipient");
+      await expect(fundraise.connect(investor).transferPosition(transferProjectId, buyer.address, amount + 1n))
+        .to.be.revertedWith("Invalid amount");
+
+      await expect(fundraise.connect(investor).setTransferApprovalRequired(transferProjectId, true))
+        .to.be.revertedWith("Missing role");
+      const missingProjectId = await fundraise.projectCount();
+      await expect(fundraise.connect(manager).setTransferApprovalRequired(missingProjectId, true))
+        .to.be.revertedWith("Project does not exist");
+      await expect(fundraise.connect(manager).approvePositionTransfer(missingProjectId, investor.address, buyer.address, part))
+        .to.be.revertedWith("Project does not exist");
+      await fundraise.connect(manager).setTransferApprovalRequired(transferProjectId, true);
+      await expect(fundraise.connect(investor).transferPosition(transferProjectId, buyer.address, part))
+        .to.be.revertedWith("Transfer not approved");
+      await expect(fundraise.connect(manager).approvePositionTransfer(transferProjectId, investor.address, buyer.address, part))
+        .to.emit(fundraise, "PositionTransferApproved")
+        .withArgs(transferProjectId, investor.address, buyer.address, part);
+
+      const vestingBefore = await rewardSystem.getVestingInfoForProject(investor.address, transferProjectId);
+      await expect(fundraise.connect(investor).transferPosition(transferProjectId, buyer.address, part))
+        .to.emit(fundraise, "PositionTransferred")
+        .withArgs(transferProjectId, investor.address, buyer.address, part, claimed / 4n);
+      expect(await fundraise.approvedTransfers(transferProjectId, investor.address, buyer.address)).to.eq(0);
+
+      const buyerInfo = await fundraise.investorInfo(buyer.address, transferProjectId);
+      expect(buyerInfo.investedAmount).to.eq(part);
+      expect(buyerInfo.totalClaimed).to.eq(claimed / 4n);
+      const investorInfo = await fundraise.investorInfo(investor.address, transferProjectId);
+      expect(investorInfo.investedAmount).to.eq(amount - part);
+      expect(investorInfo.totalClaimed).to.eq(claimed - claimed / 4n);
+
+      // Reward vesting follows the position
+      const buyerVesting = await rewardSystem.getVestingInfoForProject(buyer.address, transferProjectId);
+      const investorVesting = await rewardSystem.getVestingInfoForProject(investor.address, transferProjectId);
+      expect(buyerVesting.totalAmount).to.eq(vestingBefore.totalAmount / 4n);
+      expect(investorVesting.totalAmount + buyerVesting.totalAmount).to.eq(vestingBefore.totalAmount);
+      expect(investorVesting.claimedAmount + buyerVesting.claimedAmount).to.eq(vestingBefore.claimedAmount);
+
+      // Remaining repayment is shared by the new holders
+      await fundraise.connect(borrower).makeRepayment(transferProjectId, totalDue - totalDue / 2n);
+      expect(await fundraise.availableToClaim(transferProjectId, buyer.address)).to.eq(totalDue / 4n - claimed / 4n);
+      expect(await fundraise.availableToClaim(transferProjectId, investor.address)).to.eq(
+        totalDue - totalDue / 4n - (claimed - claimed / 4n)
+      );
+    });
+
+    it("🎟️ Receipt tokens: ERC-1155 balance follows position and decides who claims", async () => {
+      const receiptProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const receiptProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(receiptProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+
+      const PositionTokenFactory = await ethers.getContractFactory("PositionToken", owner);
+      const positionToken = (await upgrades.deployProxy(PositionTokenFactory, [
+        await fundraise.getAddress(),
+      ])) as unknown as PositionToken;
+
+      await expect(fundraise.connect(manager).setReceiptTokens(receiptProjectId, true))
+        .to.be.revertedWith("Position token not set");
+      await expect(fundraise.connect(manager).setPositionToken(await positionToken.getAddress()))
+        .to.be.revertedWithCustomError(fundraise, "OwnableUnauthorizedAccount");
+      await fundraise.connect(owner).setPositionToken(await positionToken.getAddress());
+      await expect(fundraise.connect(manager).setReceiptTokens(receiptProjectId, true))
+        .to.emit(fundraise, "ReceiptTokensSet")
+        .withArgs(receiptProjectId, true);
+
+      const buyer = (await ethers.getSigners())[11];
+      const amount = ethers.parseUnits("1000", 6);
+      await usdcToken.mint(investor.address, amount);
+      await invest(receiptProjectId, amount);
+      expect(await positionToken.balanceOf(investor.address, receiptProjectId)).to.eq(amount);
+
+      await expect(positionToken.connect(investor).mint(investor.address, receiptProjectId, 1))
+        .to.be.revertedWith("Not a fundraise");
+      await expect(fundraise.connect(manager).setReceiptTokens(receiptProjectId, false))
+        .to.be.revertedWith("Project has investments");
+      await expect(
+        positionToken.connect(investor).safeTransferFrom(investor.address, buyer.address, receiptProjectId, 1, "0x")
+      ).to.be.revertedWith("Invalid stage for transfer");
+
+      await fundraise.connect(manager).transferFundsToBorrower(receiptProjectId);
+      const totalDue = await fundraise.totalRepaymentAmount(receiptProjectId);
+      await usdcToken.mint(borrower.address, totalDue);
+      await usdcToken.connect(borrower).approve(await fundraise.getAddress(), totalDue);
+      await fundraise.connect(borrower).makeRepayment(receiptProjectId, totalDue);
+
+      // Token transfer moves the position in Fundraise
+      await expect(
+        positionToken.connect(investor).safeTransferFrom(investor.address, buyer.address, receiptProjectId, amount / 2n, "0x")
+      )
+        .to.emit(fundraise, "PositionTransferred")
+        .withArgs(receiptProjectId, investor.address, buyer.address, amount / 2n, 0);
+      expect((await fundraise.investorInfo(buyer.address, receiptProjectId)).investedAmount).to.eq(amount / 2n);
+
+      // Fundraise transfer moves the tokens
+      await fundraise.connect(buyer).transferPosition(receiptProjectId, investor.address, amount / 4n);
+      expect(await positionToken.balanceOf(buyer.address, receiptProjectId)).to.eq(amount / 4n);
+      expect(await positionToken.balanceOf(investor.address, receiptProjectId)).to.eq(amount - amount / 4n);
+
+      // Holder of the tokens claims its share
+      await fundraise.connect(buyer).claim(receiptProjectId, buyer.address);
+      expect(await usdcToken.balanceOf(buyer.address)).to.eq(totalDue / 4n);
+      expect(await fundraise.availableToClaim(receiptProjectId, investor.address)).to.eq(totalDue - totalDue / 4n);
+
+      const uri = await positionToken.uri(receiptProjectId);
+      const metadata = JSON.parse(Buffer.from(uri.replace("data:application/json;base64,", ""), "base64").toString());
+      expect(metadata.name).to.eq(`8lends project #${receiptProjectId}`);
+      const attributes = Object.fromEntries(metadata.attributes.map((a: any) => [a.trait_type, a.value]));
+      expect(attributes["Project"]).to.eq(Number(receiptProjectId));
+      expect(attributes["Stage"]).to.eq(Stage.Repaid);
+      expect(attributes["Total invested"]).to.eq(Number(amount));
+      expect(attributes["Repayment progress"]).to.eq(100);
+    });
+
+    it("🎫 Ticket limits: min ticket and max per investor are checked against investor total", async () => {
+      const limitsProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const limitsProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(limitsProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+
+      const minTicket = ethers.parseUnits("100", 6);
+      const maxPerInvestor = ethers.parseUnits("1200", 6);
+      await expect(fundraise.connect(investor).setTicketLimits(limitsProjectId, minTicket, maxPerInvestor))
+        .to.be.revertedWith("Missing role");
+      await expect(fundraise.connect(manager).setTicketLimits(limitsProjectId, maxPerInvestor, minTicket))
+        .to.be.revertedWith("Wrong ticket limits");
+      await expect(fundraise.connect(manager).setTicketLimits(limitsProjectId, minTicket, maxPerInvestor))
+        .to.emit(fundraise, "TicketLimitsSet")
+        .withArgs(limitsProjectId, minTicket, maxPerInvestor);
+
+      const topUp = ethers.parseUnits("10", 6);
+      await usdcToken.mint(investor.address, maxPerInvestor + topUp);
+      await expect(invest(limitsProjectId, minTicket - 1n)).to.be.revertedWith("Investment below min ticket");
+      await invest(limitsProjectId, minTicket);
+
+      // Top-ups below min ticket are fine once investor total reaches it
+      await invest(limitsProjectId, topUp);
+      await expect(invest(limitsProjectId, maxPerInvestor - minTicket - topUp + 1n)).to.be.revertedWith(
+        "Investment exceeds investor limit"
+      );
+      await invest(limitsProjectId, maxPerInvestor - minTicket - topUp);
+      expect((await fundraise.investorInfo(investor.address, limitsProjectId)).investedAmount).to.eq(maxPerInvestor);
+
+      // Zero limits disable checks
+      await fundraise.connect(manager).setTicketLimits(limitsProjectId, 0, 0);
+      await invest(limitsProjectId, topUp);
+    });
+
+    it("💱 Multi-currency: loan token registry with own decimals and price path", async () => {
+      const StablecoinFactory = await ethers.getContractFactory("MockStablecoin", owner);
+      const dai = (await StablecoinFactory.deploy("TEST DAI Token", "DAI", 18)) as unknown as MockStablecoin;
+      const daiAddress = await dai.getAddress();
+      const usdcAddress = await usdcToken.getAddress();
+      const tokenAddress = await token.getAddress();
+
+      // DAI is priced through 1:1 DAI/USDC pool
+      const liquidityDAI = ethers.parseUnits("100000", 18);
+      const liquidityUSDC = ethers.parseUnits("100000", 6);
+      await dai.mint(owner.address, liquidityDAI);
+      await usdcToken.mint(owner.address, liquidityUSDC);
+      await dai.connect(owner).approve(await router.getAddress(), liquidityDAI);
+      await usdcToken.connect(owner).approve(await router.getAddress(), liquidityUSDC);
+      await router.connect(owner).addLiquidity(
+        daiAddress, usdcAddress, liquidityDAI, liquidityUSDC, 0, 0, owner.address, await time.latest() + 3600
+      );
+
+      const daiProjectData = {
+        softCap: ethers.parseUnits("1000", 18),
+        hardCap: ethers.parseUnits("2000", 18),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: daiAddress,
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      await expect(fundraise.connect(manager).createProject(daiProjectData, merkleTreeInvestOnly.getHexRoot(), 1))
+        .to.be.revertedWith("Loan token not accepted");
+
+      const pricePath = [daiAddress, usdcAddress, tokenAddress];
+      await expect(rewardSystem.connect(investor).setLoanToken(daiAddress, 18, pricePath))
+        .to.be.revertedWith("Missing role");
+      await expect(rewardSystem.connect(manager).setLoanToken(daiAddress, 18, [daiAddress, usdcAddress]))
+        .to.be.revertedWith("Invalid price path");
+      await expect(rewardSystem.connect(manager).setLoanToken(daiAddress, 18, pricePath))
+        .to.emit(rewardSystem, "LoanTokenSet")
+        .withArgs(daiAddress, true, 18, pricePath);
+      // USDC is accepted without registration
+      expect(await rewardSystem.isLoanTokenAccepted(usdcAddress)).to.eq(true);
+
+      const daiProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(daiProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+      await fundraise.connect(manager).setProjectOpen(daiProjectId, true);
+
+      // Welcome bonus threshold and referral USDC use the USDC value of 1000 DAI
+      const daiInvestor = (await ethers.getSigners())[12];
+      const amount = ethers.parseUnits("1000", 18);
+      await dai.mint(daiInvestor.address, amount);
+      await dai.connect(daiInvestor).approve(await fundraise.getAddress(), amount);
+      const expectedTokens = (await router.getAmountsOut((amount * 60000n) / 1_000_000n, pricePath))[2];
+      const welcomeBonus = await rewardSystem.welcomeBonusAmount();
+      const auth = await signInvest(daiInvestor, daiProjectId, amount, ethers.ZeroHash, inviter.address);
+      await expect(
+        fundraise.connect(daiInvestor).investUpdate(
+          daiProjectId, amount, ethers.ZeroHash, auth.nonce, auth.deadline, auth.signature, inviter.address, []
+        )
+      )
+        .to.emit(rewardSystem, "ReferralBonusRecorded")
+        .withArgs(inviter.address, ethers.parseUnits("60", 6), daiInvestor.address, daiProjectId)
+        .and.to.emit(rewardSystem, "WelcomeBonusRecorded")
+        .withArgs(daiInvestor.address, welcomeBonus);
+
+      const rewards = await rewardSystem.getProjectRewards(daiInvestor.address, daiProjectId);
+      expect(rewards.totalTokens).to.eq(expectedTokens);
+      expect(rewards.totalUSDC).to.eq(welcomeBonus);
+
+      await rewardSystem.connect(manager).removeLoanToken(daiAddress);
+      expect(await rewardSystem.isLoanTokenAccepted(daiAddress)).to.eq(false);
+      await expect(fundraise.connect(manager).createProject(daiProjectData, merkleTreeInvestOnly.getHexRoot(), 1))
+        .to.be.revertedWith("Loan token not accepted");
+    });
+
+    it("↩️ Refunds: expired PreFunded project is refunded in batches and its rewards are voided", async () => {
+      const refundProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("5000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const refundProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(refundProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+      await fundraise.connect(manager).setProjectOpen(refundProjectId, true);
+
+      const amount = ethers.parseUnits("1000", 6);
+      await usdcToken.mint(investor.address, amount);
+      await invest(refundProjectId, amount);
+
+      const [,,,,,,,,,,,,, otherInvestor, keeper] = await ethers.getSigners();
+      await usdcToken.mint(otherInvestor.address, amount);
+      await usdcToken.connect(otherInvestor).approve(await fundraise.getAddress(), amount);
+      const auth = await signInvest(otherInvestor, refundProjectId, amount, ethers.ZeroHash, ethers.ZeroAddress);
+      await fundraise.connect(otherInvestor).investUpdate(
+        refundProjectId, amount, ethers.ZeroHash, auth.nonce, auth.deadline, auth.signature, ethers.ZeroAddress, []
+      );
+      expect((await rewardSystem.projectReferrals(inviter.address, refundProjectId)).totalRewardsUSDC).to.be.gt(0);
+      expect(await rewardSystem.rewardTokensAmount(refundProjectId)).to.be.gt(0);
+
+      await time.increase(7 * 24 * 3600 + 1);
+      await fundraise.connect(manager).moveProjectStage(refundProjectId);
+      expect((await fundraise.projects(refundProjectId)).innerStruct.stage).to.eq(Stage.PreFunded);
+      await expect(fundraise.connect(keeper).refundInvestors(refundProjectId, [investor.address]))
+        .to.be.revertedWith("Project not canceled");
+
+      // Borrower didn't pick up funds, anyone can cancel and refund
+      await time.increase(7 * 24 * 3600 + 1);
+      const investorBalanceBefore = await usdcToken.balanceOf(investor.address);
+      await expect(fundraise.connect(keeper).refundInvestors(refundProjectId, [investor.address, keeper.address]))
+        .to.emit(fundraise, "ProjectStatusChanged")
+        .withArgs(refundProjectId, Stage.Canceled)
+        .and.to.emit(rewardSystem, "ProjectRewardsVoided")
+        .and.to.emit(rewardSystem, "ReferralsVoided")
+        .withArgs(inviter.address, refundProjectId)
+        .and.to.emit(fundraise, "WithdrawInvestment")
+        .withArgs(refundProjectId, investor.address, amount);
+      expect(await usdcToken.balanceOf(investor.address)).to.eq(investorBalanceBefore + amount);
+      expect(await rewardSystem.projectRewardsVoided(refundProjectId)).to.eq(true);
+      expect(await rewardSystem.rewardTokensAmount(refundProjectId)).to.eq(0);
+      expect((await rewardSystem.projectReferrals(investor.address, refundProjectId)).totalRewardsTokens).to.eq(0);
+      expect((await rewardSystem.projectReferrals(inviter.address, refundProjectId)).totalRewardsUSDC).to.eq(0);
+
+      // Next page, refunded investors are skipped
+      await fundraise.connect(keeper).refundInvestors(refundProjectId, [investor.address, otherInvestor.address]);
+      expect(await usdcToken.balanceOf(otherInvestor.address)).to.eq(amount);
+      expect((await fundraise.projects(refundProjectId)).totalInvested).to.eq(0);
+      expect((await rewardSystem.projectReferrals(otherInvestor.address, refundProjectId)).totalRewardsTokens).to.eq(0);
+      await expect(fundraise.connect(investor).withdrawInvestment(refundProjectId, investor.address))
+        .to.be.revertedWith("No investment to withdraw");
+    });
+
+    it("↩️ Refunds: welcome bonus of refunded first investment is recorded with the next one", async () => {
+      const newcomer = (await ethers.getSigners())[9];
+      const amount = ethers.parseUnits("1000", 6);
+      const welcomeBonus = await rewardSystem.welcomeBonusAmount();
+      const investNewcomer = async (projectId: bigint) => {
+        await usdcToken.mint(newcomer.address, amount);
+        await usdcToken.connect(newcomer).approve(await fundraise.getAddress(), amount);
+        const auth = await signInvest(newcomer, projectId, amount, ethers.ZeroHash, inviter.address);
+        return fundraise.connect(newcomer).investUpdate(
+          projectId, amount, ethers.ZeroHash, auth.nonce, auth.deadline, auth.signature, inviter.address, []
+        );
+      };
+      const createOpenProject = async () => {
+        const projectId = await fundraise.projectCount();
+        await fundraise.connect(manager).createProject({
+          softCap: ethers.parseUnits("1000", 6),
+          hardCap: ethers.parseUnits("5000", 6),
+          totalInvested: 0,
+          startAt: await time.latest() - 10,
+          preFundDuration: 7 * 24 * 3600,
+          investorInterestRate: INVESTOR_INTEREST_RATE,
+          openStageEndAt: await time.latest() + 7 * 24 * 3600,
+          innerStruct: {
+            borrower: await borrower.getAddress(),
+            loanToken: await usdcToken.getAddress(),
+            platformInterestRate: PLATFORM_PERCENT,
+            totalRepaid: 0,
+            fundedTime: 0,
+            stage: 0
+          }
+        }, merkleTreeInvestOnly.getHexRoot(), 1);
+        await fundraise.connect(manager).setProjectOpen(projectId, true);
+        return projectId;
+      };
+
+      const refundedProjectId = await createOpenProject();
+      await expect(investNewcomer(refundedProjectId))
+        .to.emit(rewardSystem, "WelcomeBonusRecorded")
+        .withArgs(newcomer.address, welcomeBonus);
+      expect(await rewardSystem.welcomeBonusProject(newcomer.address)).to.eq(refundedProjectId + 1n);
+      expect((await rewardSystem.getUserInfo(newcomer.address)).isNewUser).to.eq(false);
+
+      await fundraise.connect(manager).cancelProject(refundedProjectId);
+      await fundraise.connect(newcomer).withdrawInvestment(refundedProjectId, newcomer.address);
+      expect((await rewardSystem.projectReferrals(newcomer.address, refundedProjectId)).totalRewardsUSDC).to.eq(0);
+      expect((await rewardSystem.getUserInfo(newcomer.address)).isNewUser).to.eq(true);
+      expect(await rewardSystem.welcomeBonusProject(newcomer.address)).to.eq(0);
+
+      const nextProjectId = await createOpenProject();
+      await expect(investNewcomer(nextProjectId))
+        .to.emit(rewardSystem, "WelcomeBonusRecorded")
+        .withArgs(newcomer.address, welcomeBonus);
+      expect((await rewardSystem.projectReferrals(newcomer.address, nextProjectId)).totalRewardsUSDC).to.eq(welcomeBonus);
+      expect(await rewardSystem.welcomeBonusProject(newcomer.address)).to.eq(nextProjectId + 1n);
+    });
+
+    it("🤖 Keeper: due transitions are applied by the suggested Fundraise call", async () => {
+      const keeperProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() + 3600,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 2 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const keeperProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(keeperProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+
+      const due = async () => {
+        const project = await fundraise.projects(keeperProjectId);
+        return dueTransition(
+          {
+            stage: Number(project.innerStruct.stage) as Stage,
+            startAt: project.startAt,
+            openStageEndAt: project.openStageEndAt,
+            preFundDuration: project.preFundDuration,
+            softCap: project.softCap,
+            hardCap: project.hardCap,
+            totalInvested: project.totalInvested,
+          },
+          BigInt(await time.latest())
+        );
+      };
+      expect(await due()).to.eq(undefined);
+
+      await time.increase(3600);
+      const open = await due();
+      expect(open).to.include({ call: KeeperCall.MoveProjectStage, to: Stage.Open, managerOnly: true });
+      await fundraise.connect(manager)[open!.call](keeperProjectId);
+      expect((await fundraise.projects(keeperProjectId)).innerStruct.stage).to.eq(Stage.Open);
+      expect(await due()).to.eq(undefined);
+
+      // Open stage ended without soft cap, anyone can cancel
+      await time.increase(3600);
+      const cancel = await due();
+      expect(cancel).to.include({ call: KeeperCall.CancelProject, to: Stage.Canceled, managerOnly: false });
+      await fundraise.connect(investor)[cancel!.call](keeperProjectId);
+      expect((await fundraise.projects(keeperProjectId)).innerStruct.stage).to.eq(Stage.Canceled);
+      expect(await due()).to.eq(undefined);
+    });
+
+    it("📦 Batch: several admin calls in one transaction with per item results", async () => {
+      const batchProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const unacceptedToken = {
+        ...batchProjectData,
+        innerStruct: { ...batchProjectData.innerStruct, loanToken: owner.address },
+      };
+      const firstProjectId = await fundraise.projectCount();
+      const root = merkleTreeInvestOnly.getHexRoot();
+      const calls = [
+        fundraise.interface.encodeFunctionData("createProject", [batchProjectData, root, 1]),
+        fundraise.interface.encodeFunctionData("createProject", [unacceptedToken, root, 2]),
+        fundraise.interface.encodeFunctionData("createProject", [batchProjectData, root, 3]),
+      ];
+      const [success, results] = await fundraise.connect(manager).batch.staticCall(calls);
+      expect(success).to.deep.eq([true, false, true]);
+      expect(fundraise.interface.decodeFunctionResult("createProject", results[2])[0]).to.eq(firstProjectId + 1n);
+
+      await expect(fundraise.connect(manager).batch(calls))
+        .to.emit(fundraise, "BatchItemFailed")
+        .withArgs(fundraise.interface.getFunction("createProject").selector, 1, anyValue)
+        .and.to.emit(fundraise, "ProjectCreated")
+        .withArgs(firstProjectId + 1n, await borrower.getAddress(), 3);
+      expect(await fundraise.projectCount()).to.eq(firstProjectId + 2n);
+
+      // Every item checks access of the caller
+      const adminCalls = [
+        fundraise.interface.encodeFunctionData("moveProjectStage", [firstProjectId]),
+        fundraise.interface.encodeFunctionData("setWhitelist", [ethers.ZeroHash, firstProjectId + 1n]),
+        fundraise.interface.encodeFunctionData("cancelProject", [firstProjectId + 2n]),
+      ];
+      const [investorSuccess] = await fundraise.connect(investor).batch.staticCall(adminCalls);
+      expect(investorSuccess).to.deep.eq([false, false, false]);
+
+      await expect(fundraise.connect(manager).batch(adminCalls))
+        .to.emit(fundraise, "BatchItemFailed")
+        .withArgs(fundraise.interface.getFunction("cancelProject").selector, 2, anyValue);
+      expect((await fundraise.projects(firstProjectId)).innerStruct.stage).to.eq(Stage.Open);
+      expect(await fundraise.whitelistRoots(firstProjectId + 1n)).to.eq(ethers.ZeroHash);
+    });
+
+
+    it("🧾 Fee split: platform fee is paid to originator, insurance and treasury", async () => {
+      const splitProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const splitProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(splitProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+
+      const split = {
+        originator: originator.address,
+        originatorShare: parseUnits("20", 4), // 20% of platform fee
+        insurance: insurance.address,
+        insuranceShare: parseUnits("10", 4), // 10% of platform fee
+      };
+      await expect(fundraise.connect(investor).setFeeSplit(splitProjectId, split)).to.be.revertedWith("Missing role");
+      await expect(fundraise.connect(manager).setFeeSplit(splitProjectId, { ...split, insuranceShare: parseUnits("81", 4) }))
+        .to.be.revertedWith("Fee shares exceed 100%");
+      await expect(fundraise.connect(manager).setFeeSplit(splitProjectId, { ...split, originator: ethers.ZeroAddress }))
+        .to.be.revertedWith("Zero fee recipient");
+      await expect(fundraise.connect(manager).setFeeSplit(splitProjectId, split))
+        .to.emit(fundraise, "FeeSplitSet")
+        .withArgs(splitProjectId, originator.address, split.originatorShare, insurance.address, split.insuranceShare);
+
+      const amount = splitProjectData.softCap;
+      await usdcToken.mint(investor.address, amount);
+      await invest(splitProjectId, amount);
+
+      const BASIS_POINTS = await fundraise.BASIS_POINTS();
+      const platformFee = (amount * PLATFORM_PERCENT) / BASIS_POINTS;
+      const originatorFee = (platformFee * split.originatorShare) / BASIS_POINTS;
+      const insuranceFee = (platformFee * split.insuranceShare) / BASIS_POINTS;
+      const treasuryFee = platformFee - originatorFee - insuranceFee;
+      const treasuryBefore = await usdcToken.balanceOf(await treasury.getAddress());
+      const originatorBefore = await usdcToken.balanceOf(originator.address);
+      const insuranceBefore = await usdcToken.balanceOf(insurance.address);
+
+      // Legs: 0 - Treasury, 1 - Originator, 2 - Insurance
+      const tx = await fundraise.connect(manager).transferFundsToBorrower(splitProjectId);
+      await expect(tx)
+        .to.emit(fundraise, "PlatformFeePaid")
+        .withArgs(splitProjectId, originator.address, 1, originatorFee)
+        .and.to.emit(fundraise, "PlatformFeePaid")
+        .withArgs(splitProjectId, insurance.address, 2, insuranceFee)
+        .and.to.emit(fundraise, "PlatformFeePaid")
+        .withArgs(splitProjectId, await treasury.getAddress(), 0, treasuryFee)
+        .and.to.emit(fundraise, "ProjectFunded")
+        .withArgs(splitProjectId, await borrower.getAddress(), amount, platformFee);
+      expect(await usdcToken.balanceOf(originator.address)).to.eq(originatorBefore + originatorFee);
+      expect(await usdcToken.balanceOf(insurance.address)).to.eq(insuranceBefore + insuranceFee);
+      expect(await usdcToken.balanceOf(await treasury.getAddress())).to.eq(treasuryBefore + treasuryFee);
+      await trackBalances("Sent funds to borrower with fee split");
+
+      const receipt = await tx.wait();
+      const fees: FeeSplitEntry[] = receipt!.logs
+        .map(log => fundraise.interface.parseLog(log))
+        .filter(event => event?.name === "PlatformFeePaid")
+        .map(event => ({
+          projectId: event!.args.projectId,
+          leg: ["Treasury", "Originator", "Insurance"][Number(event!.args.leg)],
+          recipient: event!.args.recipient,
+          amount: event!.args.amount,
+          decimals: 6,
+        }));
+      expect(fees.reduce((total, fee) => total + fee.amount, 0n)).to.eq(platformFee);
+      if (TRACE_BALANCES) balanceTable.displayFeeSplits(fees);
+
+      await expect(fundraise.connect(manager).setFeeSplit(splitProjectId, split))
+        .to.be.revertedWith("Can't update funded project");
+    });
+
+    it("✍️ Permit: invest and repay without approve, anyone can repay for borrower", async () => {
+      const permitProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const permitProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(permitProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+      const fundraiseAddress = await fundraise.getAddress();
+      const deadline = (await time.latest()) + 3600;
+
+      const amount = permitProjectData.softCap;
+      await usdcToken.mint(investor.address, amount);
+      await usdcToken.connect(investor).approve(fundraiseAddress, 0);
+      const root = merkleTreeInvestOnly.getHexRoot();
+      const proof = merkleTreeInvestOnly.getHexProof(hashAddress(investor.address));
+      const investWithPermit = async (permit: PermitSignature) => {
+        const auth = await signInvest(investor, permitProjectId, amount, root, inviter.address);
+        return fundraise
+          .connect(investor)
+          .investWithPermit(permitProjectId, amount, root, auth.nonce, auth.deadline, auth.signature, inviter, proof, permit);
+      };
+
+      // Permit of other amount doesn't match the signature
+      const wrongPermit = await signPermit(investor, await usdcToken.getAddress(), fundraiseAddress, amount - 1n, deadline);
+      await expect(investWithPermit(wrongPermit)).to.be.revertedWith("Permit failed");
+
+      const permit = await signPermit(investor, await usdcToken.getAddress(), fundraiseAddress, amount, deadline);
+      await expect(investWithPermit(permit))
+        .to.emit(fundraise, "Invest")
+        .withArgs(permitProjectId, investor.address, amount);
+      expect(await usdcToken.allowance(investor.address, fundraiseAddress)).to.eq(0);
+
+      await fundraise.connect(manager).transferFundsToBorrower(permitProjectId);
+      const totalDue = await fundraise.totalRepaymentAmount(permitProjectId);
+
+      // Third party repays half, its permit was front-run and is already used
+      const payer = (await ethers.getSigners())[17];
+      const half = totalDue / 2n;
+      await usdcToken.mint(payer.address, half);
+      const payerPermit = await signPermit(payer, await usdcToken.getAddress(), fundraiseAddress, half, deadline);
+      await usdcToken.permit(payer.address, fundraiseAddress, half, deadline, payerPermit.v, payerPermit.r, payerPermit.s);
+      await expect(fundraise.connect(payer).makeRepaymentWithPermit(permitProjectId, half, payerPermit))
+        .to.emit(fundraise, "ThirdPartyRepayment")
+        .withArgs(permitProjectId, payer.address, half)
+        .and.to.emit(fundraise, "InterestRepayment")
+        .withArgs(permitProjectId, half);
+
+      // Borrower repays the rest, no third party event
+      const rest = totalDue - half;
+      await usdcToken.mint(borrower.address, rest);
+      const borrowerPermit = await signPermit(borrower, await usdcToken.getAddress(), fundraiseAddress, rest, deadline);
+      await expect(fundraise.connect(borrower).makeRepaymentWithPermit(permitProjectId, rest, borrowerPermit))
+        .to.emit(fundraise, "PrincipalRepayment")
+        .withArgs(permitProjectId, rest)
+        .and.not.to.emit(fundraise, "ThirdPartyRepayment");
+      expect((await fundraise.projects(permitProjectId)).innerStruct.stage).to.eq(Stage.Repaid);
+    });
+
+    it("⏸️ Pause: guardian pauses invest, claim, reward claims and buyback, only owner unpauses", async () => {
+      const INVEST = await managerRegistry.INVEST();
+      const CLAIM = await managerRegistry.CLAIM();
+      const REWARD_CLAIM = await managerRegistry.REWARD_CLAIM();
+      const BUYBACK = await managerRegistry.BUYBACK();
+      expect(INVEST).to.eq(ethers.id("INVEST"));
+      const guardian = (await ethers.getSigners())[18];
+
+      await expect(managerRegistry.connect(guardian).pause([INVEST])).to.be.revertedWith("ManagerRegistry: Not a guardian");
+      await expect(managerRegistry.connect(owner).grantRole(Role.Guardian, guardian.address))
+        .to.emit(managerRegistry, "RoleGranted")
+        .withArgs(Role.Guardian, guardian.address, owner.address);
+
+      const pauseProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const pauseProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(pauseProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+      const amount = pauseProjectData.softCap;
+      await usdcToken.mint(investor.address, amount);
+
+      // Emergency stop of everything, guardian can't resume
+      await expect(managerRegistry.connect(guardian).pause([INVEST, CLAIM, REWARD_CLAIM, BUYBACK]))
+        .to.emit(managerRegistry, "PauseUpdated")
+        .withArgs(INVEST, true, guardian.address);
+      expect(await managerRegistry.isPaused(CLAIM)).to.eq(true);
+      await expect(invest(pauseProjectId, amount)).to.be.revertedWith("Paused");
+      await expect(rewardSystem.connect(inviter).claimUSDCForProject(pauseProjectId)).to.be.revertedWith("Paused");
+      await expect(managerRegistry.connect(guardian).unpause([INVEST]))
+        .to.be.revertedWithCustomError(managerRegistry, "OwnableUnauthorizedAccount");
+
+      await expect(managerRegistry.connect(owner).unpause([INVEST]))
+        .to.emit(managerRegistry, "PauseUpdated")
+        .withArgs(INVEST, false, owner.address);
+      await invest(pauseProjectId, amount);
+
+      // Funding isn't blocked by paused buyback, the amount waits for unpause
+      const tokensForMint = await rewardSystem.rewardTokensAmount(pauseProjectId);
+      const pendingBefore = await rewardSystem.pendingBuybackAmount();
+      await expect(fundraise.connect(manager).transferFundsToBorrower(pauseProjectId))
+        .to.emit(rewardSystem, "BuybackDeferred")
+        .withArgs(pauseProjectId, tokensForMint);
+      expect(await rewardSystem.pendingBuybackAmount()).to.eq(pendingBefore + tokensForMint);
+      await expect(rewardSystem.connect(manager).executePendingBuyback()).to.be.revertedWith("Paused");
+
+      await usdcToken.mint(borrower.address, await fundraise.totalRepaymentAmount(pauseProjectId));
+      await usdcToken.connect(borrower).approve(await fundraise.getAddress(), ethers.MaxUint256);
+      await fundraise.connect(borrower).makeRepayment(pauseProjectId, await fundraise.totalRepaymentAmount(pauseProjectId));
+      await expect(fundraise.connect(investor).claim(pauseProjectId, investor.address)).to.be.revertedWith("Paused");
+
+      await managerRegistry.connect(owner).unpause([CLAIM, REWARD_CLAIM, BUYBACK]);
+      await expect(rewardSystem.connect(manager).executePendingBuyback())
+        .to.emit(rewardSystem, "BuybackExecuted")
+        .withArgs(pendingBefore + tokensForMint);
+      expect(await rewardSystem.pendingBuybackAmount()).to.eq(0);
+      await expect(fundraise.connect(investor).claim(pauseProjectId, investor.address)).to.emit(fundraise, "Claimed");
+    });
+
+    it("🔑 Roles: every manager function checks its own role, role admins are set by owner", async () => {
+      const [projectAdmin, operator, signerAdmin] = (await ethers.getSigners()).slice(7, 10);
+      await managerRegistry.connect(owner).grantRoles(...roleGrants([projectAdmin.address], ["ProjectAdmin"]));
+      await managerRegistry.connect(owner).grantRoles(...roleGrants([signerAdmin.address], ["SignerAdmin"]));
+      expect(await managerRegistry.PROJECT_ADMIN_ROLE()).to.eq(Role.ProjectAdmin);
+
+      // Project admin creates projects but can't touch the trusted signer or rewards
+      const roleProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const roleProjectId = await fundraise.projectCount();
+      await fundraise.connect(projectAdmin).createProject(roleProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+      await expect(fundraise.connect(projectAdmin).setTrustedSigner(projectAdmin.address)).to.be.revertedWith("Missing role");
+      await expect(fundraise.connect(projectAdmin).setRepaymentSchedule(roleProjectId, [{ dueAt: await time.latest() + 3600, principal: 1, interest: 0 }]))
+        .to.be.revertedWith("Missing role");
+      await expect(rewardSystem.connect(projectAdmin).removeLoanToken(await usdcToken.getAddress())).to.be.revertedWith("Missing role");
+      await fundraise.connect(signerAdmin).setTrustedSigner(await backend.getAddress());
+      expect(await fundraise.trustedSigner()).to.eq(await backend.getAddress());
+
+      // A role holder can't grant roles, neither its own nor others
+      await expect(managerRegistry.connect(projectAdmin).grantRole(Role.ProjectAdmin, operator.address))
+        .to.be.revertedWith("ManagerRegistry: Not a role admin");
+      await expect(managerRegistry.connect(projectAdmin).setRoleAdmin(Role.RepaymentOperator, Role.ProjectAdmin))
+        .to.be.revertedWithCustomError(managerRegistry, "OwnableUnauthorizedAccount");
+
+      // Owner delegates repayment operators to project admins
+      await expect(managerRegistry.connect(owner).setRoleAdmin(Role.RepaymentOperator, Role.ProjectAdmin))
+        .to.emit(managerRegistry, "RoleAdminChanged")
+        .withArgs(Role.RepaymentOperator, Role.DefaultAdmin, Role.ProjectAdmin);
+      await managerRegistry.connect(projectAdmin).grantRole(Role.RepaymentOperator, operator.address);
+      expect(await managerRegistry.hasRole(Role.RepaymentOperator, operator.address)).to.eq(true);
+      await expect(managerRegistry.connect(projectAdmin).grantRole(Role.Guardian, operator.address))
+        .to.be.revertedWith("ManagerRegistry: Not a role admin");
+
+      await expect(managerRegistry.connect(projectAdmin).revokeRole(Role.RepaymentOperator, operator.address))
+        .to.emit(managerRegistry, "RoleRevoked")
+        .withArgs(Role.RepaymentOperator, operator.address, projectAdmin.address);
+      await expect(managerRegistry.connect(projectAdmin).renounceRole(Role.ProjectAdmin))
+        .to.emit(managerRegistry, "RoleRevoked")
+        .withArgs(Role.ProjectAdmin, projectAdmin.address, projectAdmin.address);
+      await expect(fundraise.connect(projectAdmin).setProjectOpen(roleProjectId, true)).to.be.revertedWith("Missing role");
+      await managerRegistry.connect(owner).setRoleAdmin(Role.RepaymentOperator, Role.DefaultAdmin);
+    });
+
+    it("⏳ Timelock: sensitive owner calls are queued, executed after delay or cancelled", async () => {
+      const timelock = await upgrades.deployProxy(await ethers.getContractFactory("AdminTimelock"), [24 * 3600, owner.address], {
+        kind: "uups",
+        initializer: "initialize",
+      });
+      const timelockAddress = await timelock.getAddress();
+      const targets: Record<string, any> = { Fundraise: fundraise, RewardSystem: rewardSystem, ManagerRegistry: managerRegistry };
+      for (const [name, functions] of Object.entries(TIMELOCKED_FUNCTIONS)) {
+        await timelock.connect(owner).setTimelocked(await targets[name].getAddress(), functions.map(selector), true);
+        await targets[name].connect(owner).transferOwnership(timelockAddress);
+      }
+      const fundraiseAddress = await fundraise.getAddress();
+      const originalTreasury = await fundraise.treasury();
+      const newTreasury = Wallet.createRandom().address;
+
+      // Sensitive setters can't be called directly anymore
+      await expect(fundraise.connect(owner).setTreasury(newTreasury))
+        .to.be.revertedWithCustomError(fundraise, "OwnableUnauthorizedAccount");
+      const setTreasury = fundraise.interface.encodeFunctionData("setTreasury", [newTreasury]);
+      await expect(timelock.connect(owner).call(fundraiseAddress, setTreasury)).to.be.revertedWith("Call is timelocked");
+      await expect(timelock.connect(manager).queue(fundraiseAddress, setTreasury, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(timelock, "OwnableUnauthorizedAccount");
+
+      // PositionToken can move any position and zero grace period allows instant default
+      const setPositionToken = fundraise.interface.encodeFunctionData("setPositionToken", [newTreasury]);
+      await expect(timelock.connect(owner).call(fundraiseAddress, setPositionToken)).to.be.revertedWith("Call is timelocked");
+      const setDefaultGracePeriod = fundraise.interface.encodeFunctionData("setDefaultGracePeriod", [0]);
+      await expect(timelock.connect(owner).call(fundraiseAddress, setDefaultGracePeriod)).to.be.revertedWith("Call is timelocked");
+
+      // Other owner calls are forwarded at once
+      const managerRegistryAddress = await managerRegistry.getAddress();
+      const cooldown = await managerRegistry.claimAddressCooldown();
+      await timelock.connect(owner).call(managerRegistryAddress, managerRegistry.interface.encodeFunctionData("setClaimAddressCooldown", [cooldown + 1n]));
+      expect(await managerRegistry.claimAddressCooldown()).to.eq(cooldown + 1n);
+      await timelock.connect(owner).call(managerRegistryAddress, managerRegistry.interface.encodeFunctionData("setClaimAddressCooldown", [cooldown]));
+
+      const id = await timelock.operationId(fundraiseAddress, setTreasury, ethers.ZeroHash);
+      await expect(timelock.connect(owner).queue(fundraiseAddress, setTreasury, ethers.ZeroHash))
+        .to.emit(timelock, "OperationQueued")
+        .withArgs(id, fundraiseAddress, setTreasury, ethers.ZeroHash, anyValue);
+      expect(await timelock.operationEta(id)).to.eq((await time.latest()) + 24 * 3600);
+      await expect(timelock.connect(owner).queue(fundraiseAddress, setTreasury, ethers.ZeroHash))
+        .to.be.revertedWith("Operation already queued");
+      await expect(timelock.connect(owner).execute(fundraiseAddress, setTreasury, ethers.ZeroHash))
+        .to.be.revertedWith("Operation not ready");
+      await time.increase(24 * 3600);
+      await expect(timelock.connect(owner).execute(fundraiseAddress, setTreasury, ethers.ZeroHash))
+        .to.emit(timelock, "OperationExecuted")
+        .withArgs(id, fundraiseAddress, setTreasury);
+      expect(await fundraise.treasury()).to.eq(newTreasury);
+      await expect(timelock.connect(owner).execute(fundraiseAddress, setTreasury, ethers.ZeroHash))
+        .to.be.revertedWith("Operation not queued");
+
+      // Cancelled withdraw can't be executed, late operation expires
+      const rewardSystemAddress = await rewardSystem.getAddress();
+      const withdraw = rewardSystem.interface.encodeFunctionData("withdraw", [await usdcToken.getAddress(), 1, owner.address]);
+      const withdrawId = await timelock.operationId(rewardSystemAddress, withdraw, ethers.ZeroHash);
+      await timelock.connect(owner).queue(rewardSystemAddress, withdraw, ethers.ZeroHash);
+      await expect(timelock.connect(owner).cancel(withdrawId)).to.emit(timelock, "OperationCancelled").withArgs(withdrawId);
+      await time.increase(24 * 3600);
+      await expect(timelock.connect(owner).execute(rewardSystemAddress, withdraw, ethers.ZeroHash))
+        .to.be.revertedWith("Operation not queued");
+      await timelock.connect(owner).queue(rewardSystemAddress, withdraw, ethers.ZeroHash);
+      await time.increase(24 * 3600 + Number(await timelock.GRACE_PERIOD()) + 1);
+      await expect(timelock.connect(owner).execute(rewardSystemAddress, withdraw, ethers.ZeroHash))
+        .to.be.revertedWith("Operation expired");
+      await timelock.connect(owner).cancel(withdrawId);
+
+      // Delay is changed only through the queue
+      const setDelay = timelock.interface.encodeFunctionData("setDelay", [2 * 3600]);
+      await expect(timelock.connect(owner).setDelay(2 * 3600)).to.be.revertedWith("Only through timelock");
+      await expect(timelock.connect(owner).call(timelockAddress, setDelay)).to.be.revertedWith("Call is timelocked");
+      await timelock.connect(owner).queue(timelockAddress, setDelay, ethers.ZeroHash);
+      await time.increase(24 * 3600);
+      await expect(timelock.connect(owner).execute(timelockAddress, setDelay, ethers.ZeroHash))
+        .to.emit(timelock, "DelaySet")
+        .withArgs(2 * 3600);
+
+      // Hand everything back to the owner
+      const restore = fundraise.interface.encodeFunctionData("setTreasury", [originalTreasury]);
+      await timelock.connect(owner).queue(fundraiseAddress, restore, ethers.ZeroHash);
+      const transfer = fundraise.interface.encodeFunctionData("transferOwnership", [owner.address]);
+      for (const target of Object.values(targets)) {
+        await timelock.connect(owner).queue(await target.getAddress(), transfer, ethers.ZeroHash);
+      }
+      await time.increase(2 * 3600);
+      await timelock.connect(owner).execute(fundraiseAddress, restore, ethers.ZeroHash);
+      for (const target of Object.values(targets)) {
+        await timelock.connect(owner).execute(await target.getAddress(), transfer, ethers.ZeroHash);
+        expect(await target.owner()).to.eq(owner.address);
+      }
+      expect(await fundraise.treasury()).to.eq(originalTreasury);
+    });
+
+    it("🏷️ Claim address: investor proposes, new address accepts, managers can veto during cooldown", async () => {
+      const [stranger, claimAccount] = [(await ethers.getSigners())[7], (await ethers.getSigners())[19]];
+      await expect(managerRegistry.connect(investor).proposeClaimAddress(claimAccount.address))
+        .to.be.revertedWith("Claim address change disabled");
+      await managerRegistry.connect(owner).setClaimAddressCooldown(24 * 3600);
+
+      await expect(managerRegistry.connect(investor).proposeClaimAddress(claimAccount.address))
+        .to.emit(managerRegistry, "ClaimAddressProposed")
+        .withArgs(investor.address, claimAccount.address);
+      await expect(managerRegistry.connect(stranger).acceptClaimAddress(investor.address)).to.be.revertedWith("Nothing to accept");
+      await managerRegistry.connect(claimAccount).acceptClaimAddress(investor.address);
+      await expect(managerRegistry.connect(stranger).vetoClaimAddress(investor.address))
+        .to.be.revertedWith("ManagerRegistry: Not a project admin");
+      await expect(managerRegistry.connect(manager).vetoClaimAddress(investor.address))
+        .to.emit(managerRegistry, "ClaimAddressVetoed")
+        .withArgs(investor.address, claimAccount.address, manager.address);
+      expect(await managerRegistry.getInvestorClaimAddress(investor.address)).to.eq(investor.address);
+
+      // Second attempt is not vetoed, payouts go to the new address after cooldown
+      await managerRegistry.connect(investor).proposeClaimAddress(claimAccount.address);
+      await expect(managerRegistry.connect(claimAccount).acceptClaimAddress(investor.address))
+        .to.emit(managerRegistry, "ClaimAddressAccepted")
+        .withArgs(investor.address, claimAccount.address, anyValue);
+      expect((await managerRegistry.claimAddressChanges(investor.address)).effectiveAt).to.eq((await time.latest()) + 24 * 3600);
+      expect(await managerRegistry.getInvestorClaimAddress(investor.address)).to.eq(investor.address);
+      await time.increase(24 * 3600);
+      expect(await managerRegistry.getInvestorClaimAddress(investor.address)).to.eq(claimAccount.address);
+      await expect(managerRegistry.connect(manager).vetoClaimAddress(investor.address)).to.be.revertedWith("No pending claim address");
+
+      const claimProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const claimProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(claimProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+      await usdcToken.mint(investor.address, claimProjectData.softCap);
+      await invest(claimProjectId, claimProjectData.softCap);
+      await fundraise.connect(manager).transferFundsToBorrower(claimProjectId);
+      const repayment = await fundraise.totalRepaymentAmount(claimProjectId);
+      await usdcToken.mint(borrower.address, repayment);
+      await usdcToken.connect(borrower).approve(await fundraise.getAddress(), repayment);
+      await fundraise.connect(borrower).makeRepayment(claimProjectId, repayment);
+
+      const investorBalance = await usdcToken.balanceOf(investor.address);
+      const claimBalance = await usdcToken.balanceOf(claimAccount.address);
+      await fundraise.connect(investor).claim(claimProjectId, investor.address);
+      expect(await usdcToken.balanceOf(investor.address)).to.eq(investorBalance);
+      expect(await usdcToken.balanceOf(claimAccount.address)).to.be.gt(claimBalance);
+
+      // Owner still sets claim address directly
+      await expect(managerRegistry.connect(owner).setInvestorClaimAddress(investor.address, investor.address))
+        .to.emit(managerRegistry, "InvestorClaimAddressSet")
+        .withArgs(investor.address, investor.address);
+      expect(await managerRegistry.getInvestorClaimAddress(investor.address)).to.eq(investor.address);
+      await managerRegistry.connect(owner).setClaimAddressCooldown(0);
+    });
+
+    it("📇 Listings: role members, pools and claim addresses are enumerable with paged getters", async () => {
+      const account = (await ethers.getSigners())[19];
+      const projectAdmins = await managerRegistry.getRoleMembers(Role.ProjectAdmin, 0, 100);
+      expect(projectAdmins).to.include(manager.address);
+      expect(await managerRegistry.getRoleMemberCount(Role.ProjectAdmin)).to.eq(projectAdmins.length);
+      expect(await managerRegistry.getRoleMembers(Role.ProjectAdmin, 1, 1)).to.deep.eq([projectAdmins[1]]);
+      expect(await managerRegistry.getRoleMembers(Role.ProjectAdmin, projectAdmins.length, 100)).to.deep.eq([]);
+
+      const operators = await managerRegistry.getRoleMemberCount(Role.RewardOperator);
+      await managerRegistry.connect(owner).grantRole(Role.RewardOperator, account.address);
+      expect(await managerRegistry.getRoleMembers(Role.RewardOperator, operators, 1)).to.deep.eq([account.address]);
+      expect(await managerRegistry.hasRole(Role.RewardOperator, account.address)).to.eq(true);
+      await managerRegistry.connect(owner).revokeRole(Role.RewardOperator, account.address);
+      expect(await managerRegistry.hasRole(Role.RewardOperator, account.address)).to.eq(false);
+      expect(await managerRegistry.getRoleMemberCount(Role.RewardOperator)).to.eq(operators);
+      expect(await managerRegistry.getRoleMembers(Role.RewardOperator, 0, 100)).to.not.include(account.address);
+
+      const pools = await managerRegistry.getPoolCount();
+      await managerRegistry.connect(owner).setPoolStatus(account.address, true);
+      expect(await managerRegistry.getPools(0, 100)).to.include(account.address);
+      await managerRegistry.connect(owner).setPoolStatus(account.address, false);
+      expect(await managerRegistry.getPoolCount()).to.eq(pools);
+
+      const claims = await managerRegistry.getClaimAddressCount();
+      await managerRegistry.connect(owner).setInvestorClaimAddress(investor.address, account.address);
+      const [investors, claimAddresses] = await managerRegistry.getClaimAddresses(claims, 100);
+      expect(investors).to.deep.eq([investor.address]);
+      expect(claimAddresses).to.deep.eq([account.address]);
+      await managerRegistry.connect(owner).setInvestorClaimAddress(investor.address, investor.address);
+      expect(await managerRegistry.getClaimAddressCount()).to.eq(claims);
+
+      // Sync follows the mappings, listed entries are kept
+      await expect(managerRegistry.connect(account).syncListings([account.address], [investor.address]))
+        .to.be.revertedWithCustomError(managerRegistry, "OwnableUnauthorizedAccount");
+      await managerRegistry.connect(owner).syncListings([account.address], [investor.address]);
+      expect(await managerRegistry.getPoolCount()).to.eq(pools);
+      expect(await managerRegistry.getClaimAddressCount()).to.eq(claims);
+    });
+
+    it("🎟️ Token exemption: reward payouts don't change pool state, owner allows other senders", async () => {
+      const account = (await ethers.getSigners())[19];
+      expect(await token.buyingEnabled()).to.eq(false);
+      expect(await managerRegistry.isTokenTransferAllowed(await rewardSystem.getAddress(), account.address)).to.eq(true);
+
+      const exemptProjectData = {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: await time.latest() - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: INVESTOR_INTEREST_RATE,
+        openStageEndAt: await time.latest() + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: await borrower.getAddress(),
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: PLATFORM_PERCENT,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0
+        }
+      };
+      const exemptProjectId = await fundraise.projectCount();
+      await fundraise.connect(manager).createProject(exemptProjectData, merkleTreeInvestOnly.getHexRoot(), 1);
+      await usdcToken.mint(investor.address, exemptProjectData.softCap);
+      await invest(exemptProjectId, exemptProjectData.softCap);
+      await fundraise.connect(manager).transferFundsToBorrower(exemptProjectId);
+
+      // Claim address which is a real pool stays a pool
+      await managerRegistry.connect(owner).setPoolStatus(account.address, true);
+      await managerRegistry.connect(owner).setInvestorClaimAddress(investor.address, account.address);
+      await time.increase(7 * 24 * 3600);
+      await expect(rewardSystem.connect(investor).claimTokensForProject(exemptProjectId))
+        .to.emit(rewardSystem, "VestingTokensClaimed")
+        .and.not.to.emit(managerRegistry, "PoolUpdated");
+      expect(await managerRegistry.isPool(account.address)).to.eq(true);
+
+      // Any claim address receives rewards, RewardSystem is exempt as sender
+      await managerRegistry.connect(owner).setPoolStatus(account.address, false);
+      await time.increase(7 * 24 * 3600);
+      await expect(rewardSystem.connect(manager).sendTokensForProjectToUser(investor.address, exemptProjectId))
+        .to.not.emit(managerRegistry, "PoolUpdated");
+      const balance = await token.balanceOf(account.address);
+      expect(balance).to.be.gt(0);
+
+      await expect(token.connect(account).transfer(investor.address, balance)).to.be.revertedWith("Token: Buying is disabled");
+      await expect(managerRegistry.connect(account).setTokenSenderAllowed([account.address], true))
+        .to.be.revertedWithCustomError(managerRegistry, "OwnableUnauthorizedAccount");
+      await expect(managerRegistry.connect(owner).setTokenSenderAllowed([account.address], true))
+        .to.emit(managerRegistry, "TokenSenderAllowed")
+        .withArgs(account.address, true);
+      await token.connect(account).transfer(investor.address, balance);
+      await managerRegistry.connect(owner).setTokenSenderAllowed([account.address], false);
+      await managerRegistry.connect(owner).setInvestorClaimAddress(investor.address, investor.address);
+    });
+
+    it("🚦 Token transfer rules: sender and recipient allowlists and daily cap in every combination", async () => {
+      const sender = (await ethers.getSigners())[19];
+      const amount = ethers.parseEther("100");
+      const caps = { none: 0n, within: ethers.parseEther("150"), exceeded: ethers.parseEther("50") };
+
+      for (const buying of [false, true]) {
+        if (buying) await token.connect(owner).enableBuying();
+        for (const senderAllowed of [false, true]) {
+          for (const recipientAllowed of [false, true]) {
+            for (const [capName, cap] of Object.entries(caps)) {
+              // New day for a fresh cap, new recipient for a fresh allowlist
+              await time.increase(24 * 3600);
+              const recipient = Wallet.createRandom().address;
+              await managerRegistry.connect(owner).setTokenSenderAllowed([sender.address], senderAllowed);
+              await managerRegistry.connect(owner).setTokenRecipientAllowed([recipient], recipientAllowed);
+              await managerRegistry.connect(owner).setTokenDailyCap([sender.address], cap);
+              await token.connect(owner).mint(sender.address, amount);
+
+              const label = `buying ${buying}, sender ${senderAllowed}, recipient ${recipientAllowed}, cap ${capName}`;
+              let reason = "";
+              if (!buying && !senderAllowed && !recipientAllowed) reason = "Token: Buying is disabled";
+              else if (!buying && capName === "exceeded") reason = "Token: Daily cap exceeded";
+              expect(await token.canTransferAmount(sender.address, recipient, amount), label).to.eq(!reason);
+              if (reason) {
+                await expect(token.connect(sender).transfer(recipient, amount), label).to.be.revertedWith(reason);
+                await token.connect(sender).burn(amount);
+              } else {
+                await token.connect(sender).transfer(recipient, amount);
+                expect(await token.balanceOf(recipient), label).to.eq(amount);
+              }
+            }
+          }
+        }
+      }
+      await token.connect(owner).disableBuying();
+
+      // Cap sums transfers of the day, transferFrom counts for the owner of tokens
+      await time.increase(24 * 3600);
+      const spender = (await ethers.getSigners())[7];
+      await managerRegistry.connect(owner).setTokenSenderAllowed([sender.address], true);
+      await expect(managerRegistry.connect(owner).setTokenDailyCap([sender.address], caps.within))
+        .to.emit(managerRegistry, "TokenDailyCapSet")
+        .withArgs(sender.address, caps.within);
+      await token.connect(owner).mint(sender.address, amount * 2n);
+      await token.connect(sender).approve(spender.address, amount);
+      await token.connect(spender).transferFrom(sender.address, spender.address, amount);
+      await expect(token.connect(sender).transfer(spender.address, amount)).to.be.revertedWith("Token: Daily cap exceeded");
+      await time.increase(24 * 3600);
+      await token.connect(sender).transfer(spender.address, amount);
+
+      // Sells to pools are not counted against the cap
+      const pool = Wallet.createRandom().address;
+      await managerRegistry.connect(owner).setPoolStatus(pool, true);
+      await managerRegistry.connect(owner).setTokenDailyCap([sender.address], caps.exceeded);
+      await token.connect(owner).mint(sender.address, amount);
+      const day = Math.floor((await time.latest()) / (24 * 3600));
+      const transferred = await token.dailyTransferred(sender.address, day);
+      expect(await token.canTransferAmount(sender.address, pool, amount)).to.eq(true);
+      await token.connect(sender).transfer(pool, amount);
+      expect(await token.dailyTransferred(sender.address, day)).to.eq(transferred);
+      await managerRegistry.connect(owner).setPoolStatus(pool, false);
+
+      await managerRegistry.connect(owner).setTokenSenderAllowed([sender.address], false);
+      await managerRegistry.connect(owner).setTokenDailyCap([sender.address], 0);
+    });
+
   });
 });
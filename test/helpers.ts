@@ -12,6 +12,7 @@ import {
 } from "../typechain-types";
 import { formatEther, formatUnits, parseEther } from "ethers";
 import { hashAddress } from "../scripts/helpers";
+import { roleGrants } from "../scripts/roles";
 
   // Uniswap V2 addresses on Ethereum mainnet
   const UNISWAP_V2_FACTORY = "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f";
@@ -90,7 +91,7 @@ export async function deployContracts() {
 
 
   // Set up roles and permissions
-  await managerRegistry.connect(owner).setManagerStatusBatch([owner.address, manager.address], [true, true]);
+  await managerRegistry.connect(owner).grantRoles(...roleGrants([owner.address, manager.address]));
   await managerRegistry.connect(owner).setContractAddresses(
     await rewardSystem.getAddress(),
     await fundraise.getAddress(),
@@ -0,0 +1,240 @@
+import { expect } from "chai";
+import { ethers, network, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Filter, Provider } from "ethers";
+import { PrismaClient } from "@prisma/client";
+import { Fundraise, ManagerRegistry, MockERC20, Treasury } from "../../typechain-types";
+import { getFundraiseDomain, signInvestAuthorization } from "../../scripts/signer";
+import { Stage } from "../../scripts/stage";
+import { roleGrants } from "../../scripts/roles";
+import { parseLogs } from "../../indexer/handlers";
+import { EventIndexer } from "../../indexer/indexer";
+import { MemoryPrisma } from "./memory-prisma";
+
+describe("🗂️ Event indexer", function () {
+  let owner: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let borrower: HardhatEthersSigner;
+  let investor: HardhatEthersSigner;
+  let backend: HardhatEthersSigner;
+  let otherInvestor: HardhatEthersSigner;
+
+  let usdcToken: MockERC20;
+  let fundraise: Fundraise;
+  let fundraiseAddress: string;
+  let startBlock: number;
+
+  async function invest(account: HardhatEthersSigner, amount: bigint) {
+    await usdcToken.mint(account.address, amount);
+    await usdcToken.connect(account).approve(fundraiseAddress, amount);
+    const { chainId } = await ethers.provider.getNetwork();
+    const authorization = {
+      investor: account.address,
+      projectId: 0n,
+      amount,
+      rootHash: ethers.ZeroHash,
+      inviter: ethers.ZeroAddress,
+      nonce: await fundraise.investorNonces(account.address),
+      deadline: BigInt(await time.latest()) + 3600n,
+    };
+    const signature = await signInvestAuthorization(
+      backend,
+      getFundraiseDomain(chainId, fundraiseAddress),
+      authorization
+    );
+    await fundraise
+      .connect(account)
+      .investUpdate(
+        0,
+        amount,
+        ethers.ZeroHash,
+        authorization.nonce,
+        authorization.deadline,
+        signature,
+        ethers.ZeroAddress,
+        []
+      );
+  }
+
+  /** Provider which records fromBlock of every getLogs request */
+  function recordingProvider(fromBlocks: number[]) {
+    return {
+      getBlockNumber: () => ethers.provider.getBlockNumber(),
+      getBlock: (block: number) => ethers.provider.getBlock(block),
+      getLogs: (filter: Filter) => {
+        fromBlocks.push(Number(filter.fromBlock));
+        return ethers.provider.getLogs(filter);
+      },
+    } as unknown as Provider;
+  }
+
+  function createIndexer(prisma: MemoryPrisma, provider: Provider = ethers.provider) {
+    return new EventIndexer(provider, prisma as unknown as PrismaClient, {
+      name: "test",
+      fundraise: fundraiseAddress,
+      startBlock,
+    });
+  }
+
+  before(async function () {
+    [owner, manager, borrower, investor, backend, otherInvestor] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20", owner);
+    usdcToken = (await upgrades.deployProxy(MockERC20, [
+      owner.address,
+      "TEST USDC Token",
+      "USDC",
+    ])) as unknown as MockERC20;
+
+    const ManagerRegistryFactory = await ethers.getContractFactory("ManagerRegistry", owner);
+    const managerRegistry = (await upgrades.deployProxy(
+      ManagerRegistryFactory,
+      []
+    )) as unknown as ManagerRegistry;
+
+    const TreasuryFactory = await ethers.getContractFactory("Treasury", owner);
+    const treasury = (await upgrades.deployProxy(TreasuryFactory, [])) as unknown as Treasury;
+
+    // RewardSystem is optional for the indexer, Fundraise skips rewards when it is not set
+    const FundraiseFactory = await ethers.getContractFactory("Fundraise", owner);
+    fundraise = (await upgrades.deployProxy(FundraiseFactory, [
+      await treasury.getAddress(),
+      await managerRegistry.getAddress(),
+      backend.address,
+      ethers.ZeroAddress,
+    ])) as unknown as Fundraise;
+    fundraiseAddress = await fundraise.getAddress();
+
+    await managerRegistry
+      .connect(owner)
+      .grantRoles(...roleGrants([owner.address, manager.address]));
+
+    startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    await fundraise.connect(manager).createProject(
+      {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: ethers.parseUnits("2000", 6),
+        totalInvested: 0,
+        startAt: (await time.latest()) - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: ethers.parseUnits("20", 4),
+        openStageEndAt: (await time.latest()) + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: borrower.address,
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: ethers.parseUnits("3", 4),
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0,
+        },
+      },
+      ethers.ZeroHash,
+      1
+    );
+    await fundraise.connect(manager).setProjectOpen(0, true);
+    await invest(investor, ethers.parseUnits("500", 6));
+  });
+
+  it("🧾 Recorded logs are parsed into table rows", async function () {
+    const logs = await ethers.provider.getLogs({
+      address: fundraiseAddress,
+      fromBlock: startBlock,
+    });
+    const rows = parseLogs(logs, fundraiseAddress);
+
+    expect(rows.projects).to.have.lengthOf(1);
+    expect(rows.projects[0]).to.include({
+      id: 0,
+      borrower: borrower.address.toLowerCase(),
+      createdBlock: startBlock,
+    });
+    expect(rows.openStatusChanges.map(row => [row.projectId, row.isOpen])).to.deep.equal([
+      [0, true],
+    ]);
+    expect(rows.statusChanges.map(row => row.stage)).to.deep.equal([Stage.Open]);
+
+    const investLog = logs.find(log => fundraise.interface.parseLog(log)?.name === "Invest")!;
+    expect(rows.investments).to.deep.equal([
+      {
+        projectId: 0,
+        investor: investor.address.toLowerCase(),
+        amount: ethers.parseUnits("500", 6).toString(),
+        blockNumber: investLog.blockNumber,
+        blockHash: investLog.blockHash,
+        txHash: investLog.transactionHash,
+        logIndex: investLog.index,
+      },
+    ]);
+    expect([...rows.touchedProjects]).to.deep.equal([0]);
+
+    // Removed logs and logs of other contracts are skipped
+    expect(
+      parseLogs([{ ...investLog, removed: true } as typeof investLog], fundraiseAddress).investments
+    ).to.be.empty;
+    expect(parseLogs(logs, ethers.Wallet.createRandom().address).projects).to.be.empty;
+  });
+
+  it("🔀 Rows above common ancestor are rolled back and reindexed after reorg", async function () {
+    const prisma = new MemoryPrisma();
+    const indexer = createIndexer(prisma);
+
+    expect(await indexer.syncOnce()).to.equal(true);
+    expect(
+      (await prisma.project.findUnique({ where: { id: 0 } }))!.totalInvested.toString()
+    ).to.equal("500000000");
+
+    const snapshot = await network.provider.send("evm_snapshot");
+    await invest(investor, ethers.parseUnits("300", 6));
+    const reorgedBlock = await ethers.provider.getBlock("latest");
+    expect(await indexer.syncOnce()).to.equal(true);
+    expect(
+      (await prisma.project.findUnique({ where: { id: 0 } }))!.totalInvested.toString()
+    ).to.equal("800000000");
+
+    // Another block replaces the indexed one at the same height
+    await network.provider.send("evm_revert", [snapshot]);
+    await invest(otherInvestor, ethers.parseUnits("200", 6));
+    const head = (await ethers.provider.getBlock("latest"))!;
+    expect(head.number).to.equal(reorgedBlock!.number);
+    expect(head.hash).to.not.equal(reorgedBlock!.hash);
+
+    expect(await indexer.syncOnce()).to.equal(true);
+    const investments = await prisma.investment.findMany({ orderBy: { blockNumber: "asc" } });
+    expect(investments.map(row => [row.investor, row.amount])).to.deep.equal([
+      [investor.address.toLowerCase(), "500000000"],
+      [otherInvestor.address.toLowerCase(), "200000000"],
+    ]);
+    expect(investments[1].blockHash).to.equal(head.hash);
+    expect(
+      (await prisma.project.findUnique({ where: { id: 0 } }))!.totalInvested.toString()
+    ).to.equal("700000000");
+    expect(await prisma.indexerCheckpoint.findUnique({ where: { name: "test" } })).to.include({
+      blockNumber: head.number,
+      blockHash: head.hash,
+    });
+    for (const { number, hash } of await prisma.indexedBlock.findMany()) {
+      expect(hash).to.equal((await ethers.provider.getBlock(number))!.hash);
+    }
+  });
+
+  it("⏯️ Restarted indexer resumes from the checkpoint", async function () {
+    const prisma = new MemoryPrisma();
+    await createIndexer(prisma).syncOnce();
+    const checkpoint = (await prisma.indexerCheckpoint.findUnique({ where: { name: "test" } }))!;
+
+    // New instance over the same database, nothing new at the head
+    const fromBlocks: number[] = [];
+    const restarted = createIndexer(prisma, recordingProvider(fromBlocks));
+    expect(await restarted.syncOnce()).to.equal(false);
+    expect(fromBlocks).to.be.empty;
+
+    await invest(investor, ethers.parseUnits("100", 6));
+    expect(await restarted.syncOnce()).to.equal(true);
+    expect(fromBlocks).to.deep.equal([checkpoint.blockNumber + 1]);
+    expect(await prisma.investment.findMany()).to.have.lengthOf(3);
+    expect(
+      (await prisma.project.findUnique({ where: { id: 0 } }))!.totalInvested.toString()
+    ).to.equal("800000000");
+  });
+});
@@ -0,0 +1,166 @@
+// In-memory stand-in for the part of PrismaClient used by the event indexer, tests don't need Postgres.
+import { Prisma } from "@prisma/client";
+
+type Row = Record<string, any>;
+type Where = Record<string, any>;
+type OrderBy = Record<string, "asc" | "desc">;
+
+function matches(row: Row, where: Where = {}) {
+  return Object.entries(where).every(([field, condition]) => {
+    const value = row[field];
+    if (condition === null || typeof condition !== "object") return value === condition;
+    if ("in" in condition && !condition.in.includes(value)) return false;
+    if ("gt" in condition && !(value > condition.gt)) return false;
+    if ("gte" in condition && !(value >= condition.gte)) return false;
+    if ("lt" in condition && !(value < condition.lt)) return false;
+    if ("lte" in condition && !(value <= condition.lte)) return false;
+    return true;
+  });
+}
+
+function sorted(rows: Row[], orderBy?: OrderBy | OrderBy[]) {
+  const keys = ([] as OrderBy[]).concat(orderBy ?? []).flatMap(order => Object.entries(order));
+  return [...rows].sort((a, b) => {
+    for (const [field, direction] of keys) {
+      if (a[field] !== b[field])
+        return (a[field] < b[field] ? -1 : 1) * (direction === "desc" ? -1 : 1);
+    }
+    return 0;
+  });
+}
+
+function selected(row: Row, select?: Record<string, boolean>) {
+  if (!select) return { ...row };
+  return Object.fromEntries(Object.keys(select).map(field => [field, row[field]]));
+}
+
+/**
+ * Table with the delegate methods the indexer calls
+ */
+export class MemoryTable {
+  rows: Row[] = [];
+  private nextId = 1;
+
+  /**
+   * @param key primary key, autoincrement `id` when not set
+   * @param unique fields of the unique constraint used by skipDuplicates
+   */
+  constructor(
+    private readonly key?: string,
+    private readonly unique: string[] = key ? [key] : ["txHash", "logIndex"]
+  ) {}
+
+  private find(where: Where) {
+    return this.rows.find(row => matches(row, where));
+  }
+
+  async findUnique({ where }: { where: Where }) {
+    const row = this.find(where);
+    return row ? { ...row } : null;
+  }
+
+  async findFirst({ where, orderBy }: { where?: Where; orderBy?: OrderBy | OrderBy[] }) {
+    const row = sorted(
+      this.rows.filter(row => matches(row, where)),
+      orderBy
+    )[0];
+    return row ? { ...row } : null;
+  }
+
+  async findMany(
+    args: { where?: Where; orderBy?: OrderBy | OrderBy[]; select?: Record<string, boolean> } = {}
+  ) {
+    return sorted(
+      this.rows.filter(row => matches(row, args.where)),
+      args.orderBy
+    ).map(row => selected(row, args.select));
+  }
+
+  async createMany({ data, skipDuplicates }: { data: Row[]; skipDuplicates?: boolean }) {
+    let count = 0;
+    for (const item of data) {
+      const duplicate = this.rows.some(row =>
+        this.unique.every(field => row[field] === item[field])
+      );
+      if (duplicate) {
+        if (skipDuplicates) continue;
+        throw new Error(`Unique constraint failed on ${this.unique.join(", ")}`);
+      }
+      this.rows.push(this.key ? { ...item } : { id: this.nextId++, ...item });
+      count++;
+    }
+    return { count };
+  }
+
+  async upsert({ where, create, update }: { where: Where; create: Row; update: Row }) {
+    const row = this.find(where);
+    if (row) return Object.assign(row, update);
+    this.rows.push({ ...create });
+    return { ...create };
+  }
+
+  async update({ where, data }: { where: Where; data: Row }) {
+    const row = this.find(where);
+    if (!row) throw new Error("Record to update not found");
+    return Object.assign(row, data);
+  }
+
+  async updateMany({ where, data }: { where: Where; data: Row }) {
+    const rows = this.rows.filter(row => matches(row, where));
+    rows.forEach(row => Object.assign(row, data));
+    return { count: rows.length };
+  }
+
+  async deleteMany({ where }: { where?: Where } = {}) {
+    const count = this.rows.length;
+    this.rows = this.rows.filter(row => !matches(row, where));
+    return { count: count - this.rows.length };
+  }
+
+  async aggregate({ where, _sum }: { where?: Where; _sum: Record<string, boolean> }) {
+    const rows = this.rows.filter(row => matches(row, where));
+    const sums = Object.fromEntries(
+      Object.keys(_sum).map(field => [
+        field,
+        rows.length ? rows.reduce((sum, row) => sum.plus(row[field]), new Prisma.Decimal(0)) : null,
+      ])
+    );
+    return { _sum: sums };
+  }
+}
+
+/**
+ * Tables of the indexer, transaction restores all tables when its callback throws
+ */
+export class MemoryPrisma {
+  indexerCheckpoint = new MemoryTable("name");
+  indexedBlock = new MemoryTable("number");
+  project = new MemoryTable("id");
+  investment = new MemoryTable();
+  investmentWithdrawal = new MemoryTable();
+  positionTransfer = new MemoryTable();
+  claim = new MemoryTable();
+  repayment = new MemoryTable();
+  projectStatusChange = new MemoryTable();
+  projectFunding = new MemoryTable();
+  projectOpenStatusChange = new MemoryTable();
+  userRegistration = new MemoryTable();
+  referral = new MemoryTable();
+  vesting = new MemoryTable();
+
+  private tables() {
+    return Object.values(this).filter(
+      (value): value is MemoryTable => value instanceof MemoryTable
+    );
+  }
+
+  async $transaction<T>(callback: (tx: this) => Promise<T>): Promise<T> {
+    const backup = this.tables().map(table => table.rows.map(row => ({ ...row })));
+    try {
+      return await callback(this);
+    } catch (error) {
+      this.tables().forEach((table, i) => (table.rows = backup[i]));
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,319 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Fundraise, ManagerRegistry, MockERC20, RewardSystem, Token, Treasury } from "../../typechain-types";
+import { getWhitelistProof } from "../../scripts/whitelist";
+import { roleGrants } from "../../scripts/roles";
+import { getFundraiseDomain, InvestAuthorization, signInvestAuthorization } from "../../scripts/signer";
+import {
+  EightLendsAddresses,
+  EightLendsClient,
+  InvalidAuthorizationError,
+  NotAuthorizedError,
+  NothingToClaimError,
+  NotWhitelistedError,
+  ProjectNotFoundError,
+  SignedInvestAuthorization,
+  InterestModel,
+  Stage,
+  percentToRate,
+  rateToPercent,
+} from "../../sdk";
+
+describe("🧰 EightLendsClient SDK", function () {
+  let owner: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let borrower: HardhatEthersSigner;
+  let investor: HardhatEthersSigner;
+  let backend: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+
+  let usdcToken: MockERC20;
+  let fundraise: Fundraise;
+  let addresses: EightLendsAddresses;
+
+  let projectId: bigint;
+
+  async function authorize(account: HardhatEthersSigner, amount: bigint, whitelist: string[]) {
+    const { root, proof } = getWhitelistProof(whitelist, account.address);
+    const { chainId } = await ethers.provider.getNetwork();
+    const authorization: InvestAuthorization = {
+      investor: account.address,
+      projectId,
+      amount,
+      rootHash: root,
+      inviter: ethers.ZeroAddress,
+      nonce: await fundraise.investorNonces(account.address),
+      deadline: (await time.latest()) + 3600,
+    };
+    const signature = await signInvestAuthorization(
+      backend,
+      getFundraiseDomain(chainId, await fundraise.getAddress()),
+      authorization
+    );
+    return { ...authorization, signature, proof } as SignedInvestAuthorization;
+  }
+
+  async function expectError(promise: Promise<unknown>, type: Function, message?: string) {
+    try {
+      await promise;
+    } catch (error: any) {
+      expect(error).to.be.instanceOf(type);
+      if (message) expect(error.message).to.equal(message);
+      return;
+    }
+    expect.fail(`Expected ${type.name}`);
+  }
+
+  before(async function () {
+    [owner, manager, borrower, investor, backend, stranger] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20", owner);
+    usdcToken = (await upgrades.deployProxy(MockERC20, [owner.address, "TEST USDC Token", "USDC"])) as unknown as MockERC20;
+
+    const ManagerRegistryFactory = await ethers.getContractFactory("ManagerRegistry", owner);
+    const managerRegistry = (await upgrades.deployProxy(ManagerRegistryFactory, [])) as unknown as ManagerRegistry;
+
+    const TreasuryFactory = await ethers.getContractFactory("Treasury", owner);
+    const treasury = (await upgrades.deployProxy(TreasuryFactory, [])) as unknown as Treasury;
+
+    const token = (await (await ethers.getContractFactory("Token", owner)).deploy()) as Token;
+
+    // RewardSystem is deployed for reads only, Fundraise does not record rewards without Uniswap pool
+    const RewardSystemFactory = await ethers.getContractFactory("RewardSystem", owner);
+    const rewardSystem = (await upgrades.deployProxy(RewardSystemFactory, [
+      await managerRegistry.getAddress(),
+      await token.getAddress(),
+      await usdcToken.getAddress(),
+      ethers.ZeroAddress,
+    ])) as unknown as RewardSystem;
+
+    const FundraiseFactory = await ethers.getContractFactory("Fundraise", owner);
+    fundraise = (await upgrades.deployProxy(FundraiseFactory, [
+      await treasury.getAddress(),
+      await managerRegistry.getAddress(),
+      backend.address,
+      ethers.ZeroAddress,
+    ])) as unknown as Fundraise;
+
+    await managerRegistry.connect(owner).grantRoles(...roleGrants([owner.address, manager.address]));
+
+    addresses = {
+      Fundraise: await fundraise.getAddress(),
+      RewardSystem: await rewardSystem.getAddress(),
+      ManagerRegistry: await managerRegistry.getAddress(),
+      Treasury: await treasury.getAddress(),
+      token: await token.getAddress(),
+    };
+  });
+
+  it("🔢 Converts percents to contract rates", async function () {
+    expect(percentToRate(20)).to.equal(200000n);
+    expect(percentToRate("2.5")).to.equal(25000n);
+    expect(rateToPercent(30000n)).to.equal(3);
+  });
+
+  it("🏗️ Manager creates project with human readable amounts", async function () {
+    const client = new EightLendsClient(manager, addresses);
+    const now = await time.latest();
+    projectId = await client.createProject({
+      borrower: borrower.address,
+      loanToken: await usdcToken.getAddress(),
+      softCap: "1000",
+      hardCap: 2000,
+      minTicket: "100",
+      maxPerInvestor: 1800,
+      startAt: now - 10,
+      openStageEndAt: new Date((now + 7 * 24 * 3600) * 1000),
+      preFundDuration: 7 * 24 * 3600,
+      investorInterestRate: 20,
+      platformInterestRate: 3,
+      feeSplit: { originator: stranger.address, originatorShare: 20, insurance: owner.address, insuranceShare: "2.5" },
+      whitelist: [investor.address],
+      projectHash: 1,
+    });
+    const feeSplit = await fundraise.feeSplits(projectId);
+    expect(feeSplit.originatorShare).to.equal(200000n);
+    expect(feeSplit.insuranceShare).to.equal(25000n);
+
+    const summary = await client.getProjectSummary(projectId);
+    expect(summary.softCap).to.equal(ethers.parseUnits("1000", 6));
+    expect(summary.formatted.hardCap).to.equal("2000.0");
+    expect(summary.minTicket).to.equal(ethers.parseUnits("100", 6));
+    expect(summary.formatted.maxPerInvestor).to.equal("1800.0");
+    expect(summary.investorInterestRate).to.equal(20);
+    expect(summary.platformInterestRate).to.equal(3);
+    expect(summary.stage).to.equal(Stage.ComingSoon);
+  });
+
+  it("🚫 Reverts are mapped to typed errors", async function () {
+    const client = new EightLendsClient(stranger, addresses);
+    const now = await time.latest();
+    const params = {
+      borrower: borrower.address,
+      loanToken: await usdcToken.getAddress(),
+      softCap: "1",
+      hardCap: "2",
+      startAt: now,
+      openStageEndAt: now + 3600,
+      preFundDuration: 3600,
+      investorInterestRate: 20,
+      platformInterestRate: 3,
+      projectHash: 2,
+    };
+    await expectError(client.createProject(params), NotAuthorizedError, "Missing role");
+    await expectError(client.getProjectSummary(100), ProjectNotFoundError);
+    await expectError(new EightLendsClient(ethers.provider, addresses).claim(projectId, investor.address), NotAuthorizedError);
+
+    const amount = ethers.parseUnits("100", 6);
+    await usdcToken.mint(stranger.address, amount);
+    const authorization = await authorize(stranger, amount, [investor.address, stranger.address]);
+    await expectError(client.invest({ ...authorization, proof: [] }), NotWhitelistedError);
+    await expectError(client.invest({ ...authorization, nonce: 5 }), InvalidAuthorizationError);
+  });
+
+  it("💸 Investor invests, claims and sees portfolio", async function () {
+    const client = new EightLendsClient(investor, addresses);
+    const amount = ethers.parseUnits("1500", 6);
+    await usdcToken.mint(investor.address, amount);
+
+    // approve is sent by the client
+    await client.invest(await authorize(investor, amount, [investor.address]));
+
+    const managerClient = new EightLendsClient(manager, addresses);
+    await fundraise.connect(manager).transferFundsToBorrower(projectId);
+    const summary = await managerClient.getProjectSummary(projectId);
+    expect(summary.stage).to.equal(Stage.Funded);
+    expect(summary.formatted.expectedRepayment).to.equal("1800.0");
+
+    const repayment = summary.expectedRepayment;
+    await usdcToken.mint(borrower.address, repayment);
+    await usdcToken.connect(borrower).approve(await fundraise.getAddress(), repayment);
+    await fundraise.connect(borrower).makeRepayment(projectId, repayment);
+
+    let portfolio = await client.getPortfolio(investor.address);
+    expect(portfolio.positions).to.have.lengthOf(1);
+    expect(portfolio.positions[0].stage).to.equal(Stage.Repaid);
+    expect(portfolio.positions[0].formatted.claimable).to.equal("1800.0");
+
+    await client.claim(projectId);
+    portfolio = await client.getPortfolio(investor.address);
+    expect(portfolio.positions[0].claimable).to.equal(0n);
+    expect(portfolio.positions[0].claimed).to.equal(repayment);
+
+    expect((await client.getPortfolio(stranger.address)).positions).to.have.lengthOf(0);
+    await expectError(client.claimRewards(projectId), NothingToClaimError);
+  });
+
+  it("✍️ Invests and repays with permit signatures instead of approve", async function () {
+    const managerClient = new EightLendsClient(manager, addresses);
+    const now = await time.latest();
+    projectId = await managerClient.createProject({
+      borrower: borrower.address,
+      loanToken: await usdcToken.getAddress(),
+      softCap: "1000",
+      hardCap: "2000",
+      startAt: now - 10,
+      openStageEndAt: now + 7 * 24 * 3600,
+      preFundDuration: 7 * 24 * 3600,
+      investorInterestRate: 20,
+      platformInterestRate: 3,
+      whitelist: [investor.address],
+      projectHash: 3,
+    });
+
+    const client = new EightLendsClient(investor, addresses);
+    const amount = ethers.parseUnits("1000", 6);
+    await usdcToken.mint(investor.address, amount);
+    const authorization = await authorize(investor, amount, [investor.address]);
+    await expectError(
+      client.investWithPermit(authorization, { permitDeadline: now - 1 }),
+      InvalidAuthorizationError,
+      "Permit failed"
+    );
+    await client.investWithPermit(authorization);
+    expect((await fundraise.investorInfo(investor.address, projectId)).investedAmount).to.equal(amount);
+    expect(await usdcToken.allowance(investor.address, addresses.Fundraise)).to.equal(0n);
+
+    await fundraise.connect(manager).transferFundsToBorrower(projectId);
+
+    // Anyone can repay on behalf of the borrower
+    const payer = new EightLendsClient(stranger, addresses);
+    await usdcToken.mint(stranger.address, ethers.parseUnits("500", 6));
+    const receipt = await payer.repay(projectId, "500", { permit: true });
+    const event = receipt.logs
+      .map(log => fundraise.interface.parseLog(log))
+      .find(event => event?.name === "ThirdPartyRepayment");
+    expect(event?.args.payer).to.equal(stranger.address);
+    expect(event?.args.amount).to.equal(ethers.parseUnits("500", 6));
+
+    const borrowerClient = new EightLendsClient(borrower, addresses);
+    await usdcToken.mint(borrower.address, ethers.parseUnits("1000", 6));
+    await borrowerClient.repay(projectId, "100");
+
+    // Contract takes only outstanding amount, rest of the permit stays as allowance
+    const before = await managerClient.getProjectSummary(projectId);
+    const outstanding = before.expectedRepayment - before.totalRepaid;
+    await borrowerClient.repay(projectId, "1000", { permit: true });
+    const summary = await managerClient.getProjectSummary(projectId);
+    expect(summary.stage).to.equal(Stage.Repaid);
+    expect(summary.totalRepaid).to.equal(summary.expectedRepayment);
+    expect(await usdcToken.allowance(borrower.address, addresses.Fundraise)).to.equal(
+      ethers.parseUnits("1000", 6) - outstanding
+    );
+  });
+
+  it("⏱️ Repays Accrued project in full while interest keeps accruing", async function () {
+    const managerClient = new EightLendsClient(manager, addresses);
+    const now = await time.latest();
+    projectId = await managerClient.createProject({
+      borrower: borrower.address,
+      loanToken: await usdcToken.getAddress(),
+      softCap: "1000",
+      hardCap: "2000",
+      startAt: now - 10,
+      openStageEndAt: now + 7 * 24 * 3600,
+      preFundDuration: 7 * 24 * 3600,
+      investorInterestRate: 20,
+      platformInterestRate: 3,
+      interestModel: InterestModel.Accrued,
+      whitelist: [investor.address],
+      projectHash: 4,
+    });
+
+    const client = new EightLendsClient(investor, addresses);
+    const amount = ethers.parseUnits("1000", 6);
+    await usdcToken.mint(investor.address, amount);
+    await client.invest(await authorize(investor, amount, [investor.address]));
+    await fundraise.connect(manager).transferFundsToBorrower(projectId);
+    await time.increase(30 * 24 * 3600);
+
+    // Outstanding amount read before approve is already behind, the contract counts it on repayment
+    const borrowerClient = new EightLendsClient(borrower, addresses);
+    await usdcToken.mint(borrower.address, ethers.parseUnits("1200", 6));
+    await borrowerClient.repay(projectId, "1200");
+    const summary = await managerClient.getProjectSummary(projectId);
+    expect(summary.stage).to.equal(Stage.Repaid);
+    expect(summary.totalRepaid).to.equal(summary.expectedRepayment);
+    expect(summary.totalRepaid).to.be.gt(amount);
+  });
+
+  it("🏷️ Investor moves payouts to a new address after it accepts and cooldown passes", async function () {
+    const [claimAccount] = (await ethers.getSigners()).slice(6, 7);
+    const client = new EightLendsClient(investor, addresses);
+    await expectError(client.proposeClaimAddress(claimAccount.address), NotAuthorizedError, "Claim address change disabled");
+    await client.managerRegistry.connect(owner).setClaimAddressCooldown(3600);
+
+    await client.proposeClaimAddress(claimAccount.address);
+    await expectError(
+      new EightLendsClient(stranger, addresses).acceptClaimAddress(investor.address),
+      NotAuthorizedError,
+      "Nothing to accept"
+    );
+    await new EightLendsClient(claimAccount, addresses).acceptClaimAddress(investor.address);
+    expect(await client.managerRegistry.getInvestorClaimAddress(investor.address)).to.equal(investor.address);
+    await time.increase(3600);
+    expect(await client.managerRegistry.getInvestorClaimAddress(investor.address)).to.equal(claimAccount.address);
+  });
+});
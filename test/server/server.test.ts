@@ -0,0 +1,236 @@
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import http from "http";
+import { ethers, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Fundraise, ManagerRegistry, MockERC20, Treasury } from "../../typechain-types";
+import { roleGrants } from "../../scripts/roles";
+import { createSignerServer } from "../../server/app";
+import { InvestAuthorizationResponse, InvestSignerService } from "../../server/service";
+import { MemorySignerStore } from "../../server/store";
+
+describe("🔏 Trusted signer service", function () {
+  let owner: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let borrower: HardhatEthersSigner;
+  let investor: HardhatEthersSigner;
+  let backend: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let inviter: HardhatEthersSigner;
+
+  let usdcToken: MockERC20;
+  let fundraise: Fundraise;
+  let managerRegistry: ManagerRegistry;
+
+  let store: MemorySignerStore;
+  let server: http.Server;
+  let baseUrl: string;
+
+  const HARD_CAP = ethers.parseUnits("2000", 6);
+
+  async function requestAuthorization(body: object) {
+    const response = await fetch(`${baseUrl}/invest-authorizations`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  before(async function () {
+    [owner, manager, borrower, investor, backend, stranger, inviter] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20", owner);
+    usdcToken = (await upgrades.deployProxy(MockERC20, [owner.address, "TEST USDC Token", "USDC"])) as unknown as MockERC20;
+
+    const ManagerRegistryFactory = await ethers.getContractFactory("ManagerRegistry", owner);
+    managerRegistry = (await upgrades.deployProxy(ManagerRegistryFactory, [])) as unknown as ManagerRegistry;
+
+    const TreasuryFactory = await ethers.getContractFactory("Treasury", owner);
+    const treasury = (await upgrades.deployProxy(TreasuryFactory, [])) as unknown as Treasury;
+
+    // RewardSystem is not needed for signing, Fundraise skips rewards when it is not set
+    const FundraiseFactory = await ethers.getContractFactory("Fundraise", owner);
+    fundraise = (await upgrades.deployProxy(FundraiseFactory, [
+      await treasury.getAddress(),
+      await managerRegistry.getAddress(),
+      backend.address,
+      ethers.ZeroAddress,
+    ])) as unknown as Fundraise;
+
+    await managerRegistry.connect(owner).grantRoles(...roleGrants([owner.address, manager.address]));
+
+    await fundraise.connect(manager).createProject(
+      {
+        softCap: ethers.parseUnits("1000", 6),
+        hardCap: HARD_CAP,
+        totalInvested: 0,
+        startAt: (await time.latest()) - 10,
+        preFundDuration: 7 * 24 * 3600,
+        investorInterestRate: ethers.parseUnits("20", 4),
+        openStageEndAt: (await time.latest()) + 7 * 24 * 3600,
+        innerStruct: {
+          borrower: borrower.address,
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: ethers.parseUnits("3", 4),
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: 0,
+        },
+      },
+      ethers.ZeroHash,
+      1
+    );
+
+    store = new MemorySignerStore();
+    store.addToWhitelist(0n, [investor.address, inviter.address]);
+
+    const service = new InvestSignerService(fundraise, backend, store);
+    server = createSignerServer(service);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async function () {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("✅ Issued authorization is accepted by investUpdate", async function () {
+    const amount = ethers.parseUnits("500", 6);
+    const { status, body } = await requestAuthorization({
+      investor: investor.address,
+      projectId: 0,
+      amount: amount.toString(),
+      inviter: inviter.address,
+    });
+    expect(status).to.equal(200);
+
+    const authorization = body as InvestAuthorizationResponse;
+    expect(authorization.nonce).to.equal("0");
+    expect(store.issued).to.have.lengthOf(1);
+
+    await usdcToken.mint(investor.address, amount);
+    await usdcToken.connect(investor).approve(await fundraise.getAddress(), amount);
+    await fundraise
+      .connect(investor)
+      .investUpdate(
+        authorization.projectId,
+        authorization.amount,
+        authorization.rootHash,
+        authorization.nonce,
+        authorization.deadline,
+        authorization.signature,
+        authorization.inviter,
+        authorization.proof
+      );
+
+    expect((await fundraise.projects(0)).totalInvested).to.equal(amount);
+    expect(await fundraise.whitelistRoots(0)).to.equal(authorization.rootHash);
+    expect(await fundraise.investorNonces(investor.address)).to.equal(1n);
+  });
+
+  it("🔁 Next authorization uses next investor nonce", async function () {
+    const { status, body } = await requestAuthorization({
+      investor: investor.address,
+      projectId: 0,
+      amount: ethers.parseUnits("100", 6).toString(),
+    });
+    expect(status).to.equal(200);
+    expect(body.nonce).to.equal("1");
+    expect(body.inviter).to.equal(ethers.ZeroAddress);
+  });
+
+  it("🚫 Investor outside of local whitelist is rejected", async function () {
+    const { status, body } = await requestAuthorization({
+      investor: stranger.address,
+      projectId: 0,
+      amount: ethers.parseUnits("100", 6).toString(),
+    });
+    expect(status).to.equal(403);
+    expect(body.error).to.equal("Investor is not whitelisted");
+  });
+
+  it("🚫 Amount above hardCap is rejected", async function () {
+    const { status, body } = await requestAuthorization({
+      investor: investor.address,
+      projectId: 0,
+      amount: HARD_CAP.toString(),
+    });
+    expect(status).to.equal(400);
+    expect(body.error).to.equal("Investment exceeds hardcap");
+  });
+
+  it("🚫 Amount outside of ticket limits is rejected", async function () {
+    await fundraise.connect(manager).setTicketLimits(0, ethers.parseUnits("200", 6), ethers.parseUnits("1000", 6));
+    const issued = store.issued.length;
+
+    // Limits apply to investor total, investor already has 500
+    let response = await requestAuthorization({
+      investor: inviter.address,
+      projectId: 0,
+      amount: ethers.parseUnits("100", 6).toString(),
+    });
+    expect(response.status).to.equal(400);
+    expect(response.body.error).to.equal("Investment below min ticket");
+
+    response = await requestAuthorization({
+      investor: investor.address,
+      projectId: 0,
+      amount: ethers.parseUnits("600", 6).toString(),
+    });
+    expect(response.status).to.equal(400);
+    expect(response.body.error).to.equal("Investment exceeds investor limit");
+
+    response = await requestAuthorization({
+      investor: investor.address,
+      projectId: 0,
+      amount: ethers.parseUnits("100", 6).toString(),
+    });
+    expect(response.status).to.equal(200);
+    expect(store.issued).to.have.lengthOf(issued + 1);
+
+    await fundraise.connect(manager).setTicketLimits(0, 0, 0);
+  });
+
+  it("⏸️ Paused investments are rejected", async function () {
+    const invest = await managerRegistry.INVEST();
+    await managerRegistry.connect(owner).pause([invest]);
+    const issued = store.issued.length;
+
+    const { status, body } = await requestAuthorization({
+      investor: investor.address,
+      projectId: 0,
+      amount: ethers.parseUnits("100", 6).toString(),
+    });
+    expect(status).to.equal(409);
+    expect(body.error).to.equal("Investments are paused");
+    expect(store.issued).to.have.lengthOf(issued);
+
+    await managerRegistry.connect(owner).unpause([invest]);
+  });
+
+  it("🚫 Unknown project and invalid input are rejected", async function () {
+    let response = await requestAuthorization({ investor: investor.address, projectId: 10, amount: "1" });
+    expect(response.status).to.equal(404);
+
+    response = await requestAuthorization({ investor: "0x1234", projectId: 0, amount: "1" });
+    expect(response.status).to.equal(400);
+
+    response = await requestAuthorization({ investor: investor.address, projectId: 0, amount: "0" });
+    expect(response.status).to.equal(400);
+  });
+
+  it("📦 Oversized body gets 413 response before the connection is closed", async function () {
+    const issued = store.issued.length;
+    const { status, body } = await requestAuthorization({
+      investor: investor.address,
+      projectId: 0,
+      amount: "1",
+      padding: "x".repeat(64 * 1024),
+    });
+    expect(status).to.equal(413);
+    expect(body.error).to.equal("Request body too large");
+    expect(store.issued).to.have.lengthOf(issued);
+  });
+});
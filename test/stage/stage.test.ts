@@ -0,0 +1,330 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Fundraise, ManagerRegistry, MockERC20, Treasury } from "../../typechain-types";
+import { getWhitelistProof } from "../../scripts/whitelist";
+import { getFundraiseDomain, signInvestAuthorization } from "../../scripts/signer";
+import { Stage } from "../../scripts/stage";
+import { dueTransition } from "../../scripts/keeper";
+import { roleGrants } from "../../scripts/roles";
+
+const SOFT_CAP = ethers.parseUnits("1000", 6);
+const HARD_CAP = ethers.parseUnits("2000", 6);
+/** Amount of "invest" entry */
+const INVESTMENT = SOFT_CAP / 4n;
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+/** Investment made before the transition */
+type Funding = "none" | "belowSoftCap" | "softCap" | "belowHardCap";
+/** Time of the transition relative to project timeline */
+type Moment = "beforeStart" | "afterStart" | "afterOpenStage" | "afterPreFund";
+type Caller = "manager" | "borrower" | "investor" | "stranger";
+type Entry =
+  | "invest"
+  | "moveProjectStage"
+  | "cancelProject"
+  | "transferFundsToBorrower"
+  | "refundInvestors"
+  | "withdrawInvestment"
+  | "makeRepayment"
+  | "declareDefault"
+  | "finishRecovery";
+
+interface TransitionCase {
+  from: Stage;
+  funding: Funding;
+  at: Moment;
+  entry: Entry;
+  caller: Caller;
+  to: Stage;
+  /** Revert reason, project stays in `from` */
+  revert?: string;
+}
+
+const transitions: TransitionCase[] = [
+  // ComingSoon
+  { from: Stage.ComingSoon, funding: "none", at: "beforeStart", entry: "invest", caller: "investor", to: Stage.ComingSoon },
+  { from: Stage.ComingSoon, funding: "none", at: "beforeStart", entry: "moveProjectStage", caller: "manager", to: Stage.ComingSoon },
+  { from: Stage.ComingSoon, funding: "none", at: "afterStart", entry: "moveProjectStage", caller: "manager", to: Stage.Open },
+  { from: Stage.ComingSoon, funding: "none", at: "afterStart", entry: "moveProjectStage", caller: "stranger", to: Stage.ComingSoon, revert: "Missing role" },
+  { from: Stage.ComingSoon, funding: "none", at: "afterStart", entry: "invest", caller: "investor", to: Stage.Open },
+  { from: Stage.ComingSoon, funding: "none", at: "beforeStart", entry: "cancelProject", caller: "manager", to: Stage.Canceled },
+  { from: Stage.ComingSoon, funding: "none", at: "beforeStart", entry: "cancelProject", caller: "stranger", to: Stage.ComingSoon, revert: "Missing role" },
+  { from: Stage.ComingSoon, funding: "none", at: "afterOpenStage", entry: "cancelProject", caller: "stranger", to: Stage.Canceled },
+  { from: Stage.ComingSoon, funding: "none", at: "afterOpenStage", entry: "invest", caller: "investor", to: Stage.Canceled },
+  { from: Stage.ComingSoon, funding: "none", at: "afterStart", entry: "transferFundsToBorrower", caller: "borrower", to: Stage.ComingSoon, revert: "Not funded enough" },
+
+  // Open
+  { from: Stage.Open, funding: "belowSoftCap", at: "afterStart", entry: "moveProjectStage", caller: "manager", to: Stage.Open },
+  { from: Stage.Open, funding: "softCap", at: "afterStart", entry: "moveProjectStage", caller: "manager", to: Stage.PreFunded },
+  { from: Stage.Open, funding: "softCap", at: "afterStart", entry: "invest", caller: "investor", to: Stage.Open },
+  { from: Stage.Open, funding: "belowHardCap", at: "afterStart", entry: "invest", caller: "investor", to: Stage.PreFunded },
+  { from: Stage.Open, funding: "softCap", at: "afterOpenStage", entry: "invest", caller: "investor", to: Stage.PreFunded },
+  { from: Stage.Open, funding: "softCap", at: "afterOpenStage", entry: "moveProjectStage", caller: "manager", to: Stage.PreFunded },
+  { from: Stage.Open, funding: "softCap", at: "afterPreFund", entry: "cancelProject", caller: "stranger", to: Stage.Canceled },
+  { from: Stage.Open, funding: "belowSoftCap", at: "afterOpenStage", entry: "invest", caller: "investor", to: Stage.Canceled },
+  { from: Stage.Open, funding: "belowSoftCap", at: "afterOpenStage", entry: "cancelProject", caller: "stranger", to: Stage.Canceled },
+  { from: Stage.Open, funding: "belowSoftCap", at: "afterOpenStage", entry: "refundInvestors", caller: "stranger", to: Stage.Canceled },
+  { from: Stage.Open, funding: "belowSoftCap", at: "afterOpenStage", entry: "withdrawInvestment", caller: "investor", to: Stage.Canceled },
+  { from: Stage.Open, funding: "belowSoftCap", at: "afterStart", entry: "withdrawInvestment", caller: "investor", to: Stage.Open, revert: "Project not canceled" },
+  { from: Stage.Open, funding: "belowSoftCap", at: "afterStart", entry: "cancelProject", caller: "manager", to: Stage.Canceled },
+  { from: Stage.Open, funding: "belowSoftCap", at: "afterStart", entry: "cancelProject", caller: "stranger", to: Stage.Open, revert: "Missing role" },
+  { from: Stage.Open, funding: "belowSoftCap", at: "afterStart", entry: "transferFundsToBorrower", caller: "borrower", to: Stage.Open, revert: "Not funded enough" },
+  { from: Stage.Open, funding: "softCap", at: "afterStart", entry: "transferFundsToBorrower", caller: "borrower", to: Stage.Funded },
+  { from: Stage.Open, funding: "softCap", at: "afterStart", entry: "transferFundsToBorrower", caller: "stranger", to: Stage.Open, revert: "Missing role" },
+
+  // PreFunded
+  { from: Stage.PreFunded, funding: "softCap", at: "afterOpenStage", entry: "transferFundsToBorrower", caller: "borrower", to: Stage.Funded },
+  { from: Stage.PreFunded, funding: "softCap", at: "afterPreFund", entry: "transferFundsToBorrower", caller: "manager", to: Stage.PreFunded, revert: "Not funded enough" },
+  { from: Stage.PreFunded, funding: "softCap", at: "afterOpenStage", entry: "invest", caller: "investor", to: Stage.PreFunded, revert: "Project is closed yet" },
+  { from: Stage.PreFunded, funding: "softCap", at: "afterOpenStage", entry: "cancelProject", caller: "manager", to: Stage.Canceled },
+  { from: Stage.PreFunded, funding: "softCap", at: "afterOpenStage", entry: "cancelProject", caller: "stranger", to: Stage.PreFunded, revert: "Missing role" },
+  { from: Stage.PreFunded, funding: "softCap", at: "afterPreFund", entry: "cancelProject", caller: "stranger", to: Stage.Canceled },
+  { from: Stage.PreFunded, funding: "softCap", at: "afterPreFund", entry: "refundInvestors", caller: "stranger", to: Stage.Canceled },
+  { from: Stage.PreFunded, funding: "softCap", at: "afterPreFund", entry: "moveProjectStage", caller: "manager", to: Stage.Canceled },
+
+  // Funded
+  { from: Stage.Funded, funding: "softCap", at: "afterOpenStage", entry: "makeRepayment", caller: "borrower", to: Stage.Repaid },
+  { from: Stage.Funded, funding: "softCap", at: "afterPreFund", entry: "declareDefault", caller: "manager", to: Stage.Defaulted },
+  { from: Stage.Funded, funding: "softCap", at: "afterPreFund", entry: "cancelProject", caller: "manager", to: Stage.Funded, revert: "Invalid stage for cancellation" },
+  { from: Stage.Funded, funding: "softCap", at: "afterPreFund", entry: "moveProjectStage", caller: "manager", to: Stage.Funded },
+
+  // Defaulted
+  { from: Stage.Defaulted, funding: "softCap", at: "afterPreFund", entry: "finishRecovery", caller: "manager", to: Stage.Recovered },
+  { from: Stage.Defaulted, funding: "softCap", at: "afterPreFund", entry: "makeRepayment", caller: "borrower", to: Stage.Defaulted, revert: "Project isn't Funded stage" },
+
+  // Final stages
+  { from: Stage.Canceled, funding: "belowSoftCap", at: "afterStart", entry: "cancelProject", caller: "manager", to: Stage.Canceled, revert: "Invalid stage for cancellation" },
+  { from: Stage.Canceled, funding: "belowSoftCap", at: "afterStart", entry: "invest", caller: "investor", to: Stage.Canceled, revert: "Project is closed yet" },
+  { from: Stage.Canceled, funding: "belowSoftCap", at: "afterPreFund", entry: "moveProjectStage", caller: "manager", to: Stage.Canceled },
+  { from: Stage.Repaid, funding: "softCap", at: "afterPreFund", entry: "declareDefault", caller: "manager", to: Stage.Repaid, revert: "Project isn't Funded stage" },
+  { from: Stage.Recovered, funding: "softCap", at: "afterPreFund", entry: "finishRecovery", caller: "manager", to: Stage.Recovered, revert: "Project isn't Defaulted stage" },
+];
+
+describe("🔀 Fundraise stage machine", function () {
+  let owner: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let borrower: HardhatEthersSigner;
+  let investor: HardhatEthersSigner;
+  let backend: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let signers: Record<Caller, HardhatEthersSigner>;
+
+  let usdcToken: MockERC20;
+  let fundraise: Fundraise;
+
+  async function invest(projectId: bigint, amount: bigint) {
+    const { root, proof } = getWhitelistProof([investor.address], investor.address);
+    const { chainId } = await ethers.provider.getNetwork();
+    const authorization = {
+      investor: investor.address,
+      projectId,
+      amount,
+      rootHash: root,
+      inviter: ethers.ZeroAddress,
+      nonce: await fundraise.investorNonces(investor.address),
+      deadline: (await time.latest()) + HOUR,
+    };
+    const signature = await signInvestAuthorization(
+      backend,
+      getFundraiseDomain(chainId, await fundraise.getAddress()),
+      authorization
+    );
+    await usdcToken.mint(investor.address, amount);
+    await usdcToken.connect(investor).approve(await fundraise.getAddress(), amount);
+    return fundraise
+      .connect(investor)
+      .investUpdate(projectId, amount, root, authorization.nonce, authorization.deadline, signature, ethers.ZeroAddress, proof);
+  }
+
+  async function stageOf(projectId: bigint): Promise<Stage> {
+    return Number((await fundraise.projects(projectId)).innerStruct.stage) as Stage;
+  }
+
+  async function moveTo(projectId: bigint, at: Moment) {
+    const project = await fundraise.projects(projectId);
+    const timestamps: Record<Moment, bigint> = {
+      beforeStart: 0n,
+      afterStart: project.startAt,
+      afterOpenStage: project.openStageEndAt + 1n,
+      afterPreFund: project.openStageEndAt + project.preFundDuration + 1n,
+    };
+    if (timestamps[at] > BigInt(await time.latest())) {
+      await time.increaseTo(timestamps[at]);
+    }
+  }
+
+  /**
+   * Creates project and brings it to `from` stage with `funding` invested, using only the main flow
+   */
+  async function prepare({ from, funding }: TransitionCase): Promise<bigint> {
+    const now = await time.latest();
+    const projectId = await fundraise.projectCount();
+    await fundraise.connect(manager).createProject(
+      {
+        softCap: SOFT_CAP,
+        hardCap: HARD_CAP,
+        totalInvested: 0,
+        startAt: now + HOUR,
+        preFundDuration: DAY,
+        investorInterestRate: 200000,
+        openStageEndAt: now + DAY,
+        innerStruct: {
+          borrower: borrower.address,
+          loanToken: await usdcToken.getAddress(),
+          platformInterestRate: 30000,
+          totalRepaid: 0,
+          fundedTime: 0,
+          stage: Stage.ComingSoon,
+        },
+      },
+      ethers.ZeroHash,
+      projectId + 1n
+    );
+    if (from === Stage.ComingSoon) return projectId;
+
+    await moveTo(projectId, "afterStart");
+    await fundraise.connect(manager).moveProjectStage(projectId);
+    const amounts: Record<Funding, bigint> = {
+      none: 0n,
+      belowSoftCap: SOFT_CAP / 2n,
+      softCap: SOFT_CAP,
+      belowHardCap: HARD_CAP - INVESTMENT,
+    };
+    if (amounts[funding] > 0n) await invest(projectId, amounts[funding]);
+    if (from === Stage.Open) return projectId;
+    if (from === Stage.Canceled) {
+      await fundraise.connect(manager).cancelProject(projectId);
+      return projectId;
+    }
+
+    await fundraise.connect(manager).moveProjectStage(projectId);
+    if (from === Stage.PreFunded) return projectId;
+
+    await fundraise.connect(manager).transferFundsToBorrower(projectId);
+    const dueAt = (await time.latest()) + HOUR;
+    await fundraise
+      .connect(manager)
+      .setRepaymentSchedule(projectId, [{ dueAt, principal: amounts[funding], interest: amounts[funding] / 10n }]);
+    if (from === Stage.Funded) return projectId;
+    if (from === Stage.Repaid) {
+      await fundraise.connect(borrower).makeRepayment(projectId, HARD_CAP * 2n);
+      return projectId;
+    }
+
+    await time.increaseTo(dueAt + 1);
+    await fundraise.connect(manager).declareDefault(projectId);
+    if (from === Stage.Defaulted) return projectId;
+    await fundraise.connect(manager).finishRecovery(projectId);
+    return projectId;
+  }
+
+  function call(entry: Entry, projectId: bigint, caller: HardhatEthersSigner) {
+    switch (entry) {
+      case "invest":
+        return invest(projectId, INVESTMENT);
+      case "refundInvestors":
+        return fundraise.connect(caller).refundInvestors(projectId, [investor.address]);
+      case "withdrawInvestment":
+        return fundraise.connect(caller).withdrawInvestment(projectId, investor.address);
+      case "makeRepayment":
+        return fundraise.connect(caller).makeRepayment(projectId, HARD_CAP * 2n);
+      default:
+        return fundraise.connect(caller)[entry](projectId);
+    }
+  }
+
+  before(async function () {
+    [owner, manager, borrower, investor, backend, stranger] = await ethers.getSigners();
+    signers = { manager, borrower, investor, stranger };
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20", owner);
+    usdcToken = (await upgrades.deployProxy(MockERC20, [owner.address, "TEST USDC Token", "USDC"])) as unknown as MockERC20;
+
+    const ManagerRegistryFactory = await ethers.getContractFactory("ManagerRegistry", owner);
+    const managerRegistry = (await upgrades.deployProxy(ManagerRegistryFactory, [])) as unknown as ManagerRegistry;
+
+    const TreasuryFactory = await ethers.getContractFactory("Treasury", owner);
+    const treasury = (await upgrades.deployProxy(TreasuryFactory, [])) as unknown as Treasury;
+
+    const FundraiseFactory = await ethers.getContractFactory("Fundraise", owner);
+    fundraise = (await upgrades.deployProxy(FundraiseFactory, [
+      await treasury.getAddress(),
+      await managerRegistry.getAddress(),
+      backend.address,
+      ethers.ZeroAddress,
+    ])) as unknown as Fundraise;
+
+    await managerRegistry.connect(owner).grantRoles(...roleGrants([manager.address]));
+
+    // Borrower repays from own balance
+    await usdcToken.mint(borrower.address, HARD_CAP * 10n);
+    await usdcToken.connect(borrower).approve(await fundraise.getAddress(), ethers.MaxUint256);
+  });
+
+  it("🗂️ Table covers every stage", async function () {
+    const stages = Object.values(Stage).filter((value): value is Stage => typeof value === "number");
+    for (const stage of stages) {
+      expect(transitions.some(transition => transition.from === stage), Stage[stage]).to.be.true;
+      expect(transitions.some(transition => transition.to === stage && !transition.revert), Stage[stage]).to.be.true;
+    }
+  });
+
+  for (const transition of transitions) {
+    const { from, funding, at, entry, caller, to, revert } = transition;
+    const title = `${Stage[from]} (${funding}, ${at}) → ${entry} by ${caller} → ${revert ? `reverts "${revert}"` : Stage[to]}`;
+
+    it(title, async function () {
+      const projectId = await prepare(transition);
+      expect(await stageOf(projectId)).to.eq(from);
+      await moveTo(projectId, at);
+
+      if (revert) {
+        await expect(call(entry, projectId, signers[caller])).to.be.revertedWith(revert);
+        expect(await stageOf(projectId)).to.eq(from);
+        return;
+      }
+
+      const tx = call(entry, projectId, signers[caller]);
+      if (to === from) {
+        await expect(tx).not.to.emit(fundraise, "ProjectStatusChanged");
+      } else {
+        await expect(tx).to.emit(fundraise, "ProjectStatusChanged").withArgs(projectId, to);
+      }
+      expect(await stageOf(projectId)).to.eq(to);
+    });
+  }
+
+  it("🤖 Keeper predicts the stage Fundraise moves to", async function () {
+    for (const transition of transitions.filter(transition => transition.entry === "moveProjectStage" && !transition.revert)) {
+      const projectId = await prepare(transition);
+      await moveTo(projectId, transition.at);
+
+      const project = await fundraise.projects(projectId);
+      const due = dueTransition(
+        {
+          stage: await stageOf(projectId),
+          startAt: project.startAt,
+          openStageEndAt: project.openStageEndAt,
+          preFundDuration: project.preFundDuration,
+          softCap: project.softCap,
+          hardCap: project.hardCap,
+          totalInvested: project.totalInvested,
+        },
+        // Next block timestamp
+        BigInt(await time.latest()) + 1n
+      );
+      await fundraise.connect(manager).moveProjectStage(projectId);
+      const stage = await stageOf(projectId);
+      // Manager closes Open stage early with soft cap, keeper waits for openStageEndAt
+      if (due) {
+        expect(due.to, transition.at).to.eq(stage);
+      } else if (stage !== transition.from) {
+        expect(transition.at).to.eq("afterStart");
+        expect(stage).to.eq(Stage.PreFunded);
+      }
+    }
+  });
+});